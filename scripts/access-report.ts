@@ -0,0 +1,48 @@
+/**
+ * Access report generator
+ *
+ * Writes a Markdown and a CSV report per environment listing each user with
+ * their groups, direct policies, assumable roles and the resolved policy
+ * documents, classified as admin, write or read access.
+ *
+ * Usage:
+ *   yarn access-report [--environment <env>] [--out <dir>]
+ *
+ * Reports are written to <dir>/<env>-access.md and <dir>/<env>-access.csv;
+ * <dir> defaults to "reports" and all environments are reported by default.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import configSet from "../shared/config";
+import {
+  buildAccessReport,
+  renderAccessReportCsv,
+  renderAccessReportMarkdown
+} from "../shared/org-library/report";
+import { parseArgs } from "./args";
+
+const USAGE = "Usage: access-report [--environment <env>] [--out <dir>]";
+
+function main(): void {
+  const { flags } = parseArgs(process.argv.slice(2), USAGE, { json: false });
+  const outDir = flags.out ?? "reports";
+  const environments = flags.environment ? [flags.environment] : Object.keys(configSet.environments);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const environment of environments) {
+    const report = buildAccessReport(configSet, environment);
+    const markdownPath = path.join(outDir, `${environment}-access.md`);
+    const csvPath = path.join(outDir, `${environment}-access.csv`);
+    fs.writeFileSync(markdownPath, renderAccessReportMarkdown(report));
+    fs.writeFileSync(csvPath, renderAccessReportCsv(report));
+    console.log(`${environment}: ${report.users.length} users -> ${markdownPath}, ${csvPath}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,78 @@
+/**
+ * Account plan
+ *
+ * Dry run of the foundation stack's accounts: compares the accounts config,
+ * with the overlay of Pulumi.<stack>.yaml applied, with the accounts the stack
+ * currently exports and lists which accounts would be imported, moved between
+ * OUs, created or removed.
+ *
+ * Usage:
+ *   yarn account-plan [--stack <stack>] [--outputs <file>] [--json]
+ *
+ * Reads the `accounts` output with `pulumi stack output` unless --outputs names
+ * a file holding it (or all outputs of the stack) as JSON. --stack defaults to foundation.
+ */
+
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import { CONFIG_DIRECTORY, CONFIG_NAMESPACE } from "../shared/config";
+import { loadConfig, readStackConfigOverlays } from "../shared/org-library/config";
+import { AccountPlanAction, AccountPlanEntry, FoundationAccounts, planAccounts } from "../shared/org-library/account";
+import { parseArgs } from "./args";
+
+const USAGE = "Usage: account-plan [--stack <stack>] [--outputs <file>] [--json]";
+
+/**
+ * Reads the accounts the stack exports, from a file or the Pulumi CLI.
+ */
+function managedAccounts(stack: string, outputsFile?: string): FoundationAccounts {
+  const text = outputsFile
+    ? fs.readFileSync(outputsFile, "utf8")
+    : execFileSync("pulumi", ["stack", "output", "accounts", "--json", "--stack", stack], { encoding: "utf8" });
+  const outputs = JSON.parse(text || "null") ?? {};
+  return outputs.accounts ?? outputs;
+}
+
+/**
+ * Describes one entry of the plan.
+ */
+function formatEntry(entry: AccountPlanEntry): string {
+  const id = entry.id ? ` ${entry.id}` : "";
+  switch (entry.action) {
+    case AccountPlanAction.MOVE:
+      return `${entry.account}${id}: ${entry.currentOu} -> ${entry.ou}`;
+    case AccountPlanAction.REMOVE:
+      return `${entry.account}${id} (${entry.ou})${entry.closes ? ", closes the account" : ""}`;
+    default:
+      return `${entry.account}${id} (${entry.ou})`;
+  }
+}
+
+function main(): void {
+  const { flags, json } = parseArgs(process.argv.slice(2), USAGE);
+  const stack = flags.stack ?? "foundation";
+
+  const stackFile = `Pulumi.${stack}.yaml`;
+  const overlays = fs.existsSync(stackFile) ? readStackConfigOverlays(stackFile, CONFIG_NAMESPACE) : [];
+  const config = loadConfig(CONFIG_DIRECTORY, { overlays });
+  const plan = planAccounts(config.accounts, managedAccounts(stack, flags.outputs));
+
+  if (json) {
+    console.log(JSON.stringify(plan, null, 2));
+    return;
+  }
+  for (const action of Object.values(AccountPlanAction)) {
+    const entries = plan.filter(entry => entry.action === action);
+    if (entries.length > 0) {
+      console.log(`${action} (${entries.length}):`);
+      entries.forEach(entry => console.log(`  ${formatEntry(entry)}`));
+    }
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,47 @@
+/**
+ * Command line parsing shared by the scripts
+ *
+ * Every script takes `--flag value` pairs and most accept a `--json` switch.
+ */
+
+/**
+ * A parsed command line.
+ */
+export interface CommandLine {
+  /** The value of each flag, by name without the leading dashes; the last one wins when repeated. */
+  flags: { [flag: string]: string };
+  /** Every value of each flag in order, for flags that may be repeated. */
+  repeated: { [flag: string]: string[] };
+  /** Whether `--json` was given. */
+  json: boolean;
+}
+
+/**
+ * Parses the command line into flag values.
+ *
+ * @param argv - The arguments after the script name.
+ * @param usage - The usage line appended to the error for an unexpected argument.
+ * @param options.json - Whether the script accepts the `--json` switch; true by default.
+ */
+export function parseArgs(argv: string[], usage: string, options: { json?: boolean } = {}): CommandLine {
+  const acceptsJson = options.json ?? true;
+  const flags: { [flag: string]: string } = {};
+  const repeated: { [flag: string]: string[] } = {};
+  let json = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json" && acceptsJson) {
+      json = true;
+      continue;
+    }
+    const value = argv[i + 1];
+    if (!arg.startsWith("--") || value === undefined) {
+      throw new Error(`Unexpected argument "${arg}"\n${usage}`);
+    }
+    i++;
+    const flag = arg.slice(2);
+    flags[flag] = value;
+    repeated[flag] = [...(repeated[flag] ?? []), value];
+  }
+  return { flags, repeated, json };
+}
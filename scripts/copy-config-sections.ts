@@ -0,0 +1,32 @@
+/**
+ * Copy configuration sections
+ *
+ * Copies the YAML and JSON sections of shared/config next to the modules
+ * `tsc` emits in bin/shared/config; run by `yarn build` before the other
+ * scripts, which load the configuration from the compiled directory.
+ *
+ * Usage:
+ *   yarn build
+ *
+ * Run from the repository root.
+ */
+
+import * as path from "path";
+import { copyConfigSections } from "../shared/org-library/config";
+
+const SOURCE_DIRECTORY = path.join("shared", "config");
+const OUTPUT_DIRECTORY = path.join("bin", "shared", "config");
+
+function main(): void {
+  const copied = copyConfigSections(SOURCE_DIRECTORY, OUTPUT_DIRECTORY);
+  if (copied.length > 0) {
+    console.log(`Copied ${copied.join(", ")} to ${OUTPUT_DIRECTORY}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,46 @@
+/**
+ * Effective configuration
+ *
+ * Prints the configuration set a stack deploys: the base sections of
+ * shared/config with the overlay of Pulumi.<stack>.yaml applied, validated
+ * like the stack program does.
+ *
+ * Usage:
+ *   yarn effective-config --stack <stack> [--section <section>] [--json]
+ *
+ * Prints YAML by default; --section limits the output to one section, e.g. users.
+ */
+
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { CONFIG_DIRECTORY, CONFIG_NAMESPACE } from "../shared/config";
+import { CONFIG_SECTIONS, loadConfig, readStackConfigOverlays } from "../shared/org-library/config";
+import { parseArgs } from "./args";
+
+const USAGE = "Usage: effective-config --stack <stack> [--section <section>] [--json]";
+
+function main(): void {
+  const { flags, json } = parseArgs(process.argv.slice(2), USAGE);
+  if (!flags.stack) {
+    throw new Error(`--stack is required\n${USAGE}`);
+  }
+  if (flags.section && !(flags.section in CONFIG_SECTIONS)) {
+    throw new Error(`Unknown section "${flags.section}"; expected one of ${Object.keys(CONFIG_SECTIONS).join(", ")}`);
+  }
+
+  const stackFile = `Pulumi.${flags.stack}.yaml`;
+  if (!fs.existsSync(stackFile)) {
+    throw new Error(`${stackFile} does not exist`);
+  }
+  const config = loadConfig(CONFIG_DIRECTORY, { overlays: readStackConfigOverlays(stackFile, CONFIG_NAMESPACE) });
+  const output = flags.section ? config[flags.section as keyof typeof config] : config;
+
+  console.log(json ? JSON.stringify(output, null, 2) : yaml.safeDump(output, { noRefs: true }).trimEnd());
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
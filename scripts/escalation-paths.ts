@@ -0,0 +1,60 @@
+/**
+ * Privilege escalation report
+ *
+ * Lists the privilege escalation paths of each environment and whether they
+ * are accepted in shared/config/privilegeEscalation.ts.
+ *
+ * Usage:
+ *   yarn escalation-paths [--environment <env>] [--json]
+ *
+ * Exits with 1 when an environment has unaccepted paths, so it can gate a deployment.
+ */
+
+import configSet from "../shared/config";
+import {
+  EscalationFinding,
+  findEscalationPaths,
+  formatEscalationPath,
+  partitionAcceptedEscalations
+} from "../shared/org-library/escalation";
+import { parseArgs } from "./args";
+
+const USAGE = "Usage: escalation-paths [--environment <env>] [--json]";
+
+/**
+ * Prints one path with the policies granting each step.
+ */
+function printFinding(finding: EscalationFinding, status: string): void {
+  console.log(`  [${finding.pattern}] ${formatEscalationPath(finding)} (${status})`);
+  for (const step of finding.path) {
+    console.log(`    ${step.from} ${step.action}: ${step.grantedBy.join(", ")}`);
+  }
+}
+
+function main(): number {
+  const { flags, json } = parseArgs(process.argv.slice(2), USAGE);
+  const environments = flags.environment ? [flags.environment] : Object.keys(configSet.environments);
+
+  const results = environments.map(environment => ({
+    environment,
+    ...partitionAcceptedEscalations(configSet, findEscalationPaths(configSet, environment))
+  }));
+
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    for (const { environment, accepted, unaccepted } of results) {
+      console.log(`${environment}: ${unaccepted.length} unaccepted, ${accepted.length} accepted`);
+      unaccepted.forEach(finding => printFinding(finding, "unaccepted"));
+      accepted.forEach(finding => printFinding(finding, "accepted"));
+    }
+  }
+  return results.some(result => result.unaccepted.length > 0) ? 1 : 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 2;
+}
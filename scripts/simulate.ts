@@ -0,0 +1,91 @@
+/**
+ * Effective-permissions simulator
+ *
+ * Evaluates offline whether a user or role from the shared configuration can
+ * perform an action, and which statements decide it.
+ *
+ * Usage:
+ *   yarn simulate --user system-admin --environment prod --action s3:DeleteBucket \
+ *     [--resource arn:aws:s3:::my-bucket] [--context aws:MultiFactorAuthPresent=true] [--json]
+ *   yarn simulate --role prod-system-role --environment prod --action iam:CreateUser
+ *
+ * Exits with 0 when the request is allowed and 1 when it is denied.
+ */
+
+import configSet from "../shared/config";
+import {
+  PrincipalEvaluation,
+  RequestContext,
+  simulate,
+  SimulationPrincipal
+} from "../shared/org-library/simulator";
+import { parseArgs } from "./args";
+
+const USAGE =
+  "Usage: simulate (--user <name> | --role <name>) --environment <env> --action <action> " +
+  "[--resource <arn>] [--context <key>=<value>]... [--json]";
+
+/**
+ * Builds the request context from the --context values; a repeated key gets a list.
+ */
+function requestContext(values: string[]): RequestContext {
+  const context: RequestContext = {};
+  for (const value of values) {
+    const [key, ...rest] = value.split("=");
+    const existing = context[key];
+    const contextValue = rest.join("=");
+    context[key] = existing === undefined ? contextValue : [...[existing].flat(), contextValue];
+  }
+  return context;
+}
+
+/**
+ * Prints one principal's evaluation.
+ */
+function printEvaluation(label: string, evaluation: PrincipalEvaluation, indent = ""): void {
+  console.log(`${indent}${label}: ${evaluation.decision} (${evaluation.reason})`);
+  for (const match of evaluation.matchedStatements) {
+    console.log(`${indent}  ${match.effect} ${match.sid ? `[${match.sid}] ` : ""}in ${match.policy} (${match.source}, ${match.layer})`);
+  }
+  if (evaluation.unresolved.length > 0) {
+    console.log(`${indent}  not evaluated: ${evaluation.unresolved.join(", ")}`);
+  }
+}
+
+function main(): number {
+  const { flags, repeated, json } = parseArgs(process.argv.slice(2), USAGE);
+  const context = requestContext(repeated.context ?? []);
+  const principal: SimulationPrincipal | undefined = flags.user
+    ? { user: flags.user }
+    : flags.role ? { role: flags.role } : undefined;
+  if (!principal || !flags.environment || !flags.action) {
+    throw new Error(USAGE);
+  }
+
+  const result = simulate(configSet, {
+    principal,
+    environment: flags.environment,
+    action: flags.action,
+    resource: flags.resource,
+    context
+  });
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`${flags.action} on ${flags.resource ?? "*"} in ${flags.environment}: ${result.decision.toUpperCase()}`);
+    printEvaluation(result.direct.principal, result.direct);
+    for (const via of result.viaRoles) {
+      printEvaluation(`via ${via.role.principal}`, via.role);
+      printEvaluation(`assume ${via.role.principal}`, via.assume, "  ");
+    }
+  }
+  return result.allowed ? 0 : 1;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 2;
+}
@@ -1,12 +1,33 @@
 /**
  * Accounts configuration
  *
- * This file defines AWS accounts to be created in each OU.
+ * This file defines AWS accounts to be created in each OU. An account without
+ * an email gets the organization's accountEmailTemplate filled with its OU and
+ * name; addresses must be unique. An account can also declare the id of an
+ * existing account to import (with imported: true once the import is deployed), tags, closeOnDeletion, iamUserAccessToBilling,
+ * the roleName of its access role and billing, operations and security
+ * alternateContacts, e.g.:
+ *
+ *   {
+ *     name: "prod-main",
+ *     email: "prod-main@example.com",
+ *     tags: { Environment: "prod" },
+ *     closeOnDeletion: true,
+ *     iamUserAccessToBilling: "DENY",
+ *     alternateContacts: {
+ *       security: { name: "Security Team", title: "CISO", emailAddress: "security@example.com", phoneNumber: "+1 555 0100" }
+ *     }
+ *   }
+ *
+ * Alternate contacts require account.amazonaws.com in the organization's
+ * awsServiceAccessPrincipals.
  */
 
-const accountsConfig = {
+import { AccountsConfig } from "../org-library/config-types";
+
+const accountsConfig: AccountsConfig = {
   dev: [
-    { name: "dev-main", email: "gofoke2293@jeanssi.com" }
+    { name: "dev-main", email: "gofoke2293@jeanssi.com", tags: { Environment: "dev" } }
   ],
   // sandbox1: [
   //   { name: "sandbox1-user1", email: "sandbox1-user1@example.com" },
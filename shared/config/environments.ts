@@ -0,0 +1,51 @@
+/**
+ * Environments configuration
+ *
+ * This file defines the environments that get their own IAM stack and
+ * which policy set from policies.ts each of them deploys. Production
+ * environments are held to stricter guardrails by the policy pack.
+ */
+
+import { EnvironmentsConfig } from "../org-library/config-types";
+import { PolicyEnvironment } from "../org-library/policy/types";
+
+const environmentsConfig: EnvironmentsConfig = {
+  prod: {
+    name: "prod",
+    displayName: "Production",
+    policySet: "prod",
+    policyEnvironment: PolicyEnvironment.PROD,
+    production: true
+  },
+  staging: {
+    name: "staging",
+    displayName: "Staging",
+    policySet: "staging",
+    policyEnvironment: PolicyEnvironment.STAGING
+  },
+  dev: {
+    name: "dev",
+    displayName: "Development",
+    // Using sandbox1 for dev environment policies
+    policySet: "sandbox1",
+    policyEnvironment: PolicyEnvironment.SANDBOX1
+  },
+  qa: {
+    name: "qa",
+    displayName: "QA",
+    policyEnvironment: PolicyEnvironment.QA
+  },
+  sandbox1: {
+    name: "sandbox1",
+    displayName: "Sandbox1",
+    policySet: "sandbox1",
+    policyEnvironment: PolicyEnvironment.SANDBOX1
+  },
+  sandbox2: {
+    name: "sandbox2",
+    displayName: "Sandbox2",
+    policyEnvironment: PolicyEnvironment.SANDBOX2
+  }
+};
+
+export default environmentsConfig;
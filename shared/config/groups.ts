@@ -2,13 +2,19 @@
  * Groups configuration
  *
  * This file defines IAM groups and their intended permissions.
+ * Groups grant AWS-managed policies (policyArns) and policies from
+ * policies.ts (policies): managed policies, or the policy set of the
+ * group's environment.
  */
 
-const groupsConfig = [
+import { GroupConfig } from "../org-library/config-types";
+
+const groupsConfig: GroupConfig[] = [
   {
     name: "admin",
-    description: "Admin group with full access to QA OU.",
+    description: "Administrators of the production environment.",
     environment: "prod",
+    policies: ["prod-restricted-access"],
     tags: {
       Environment: "prod",
       ManagedBy: "Pulumi",
@@ -49,6 +55,7 @@ const groupsConfig = [
     name: "prod-readonly",
     description: "Read-only access to production resources.",
     environment: "prod",
+    policies: ["prod-restricted-access"],
     tags: {
       Environment: "prod",
       ManagedBy: "Pulumi",
@@ -0,0 +1,36 @@
+/**
+ * Configuration set
+ *
+ * This file loads the section files of this directory (organization.ts,
+ * users.ts, ...) into the ConfigSet consumed by the stacks. Sections can
+ * also be written as YAML or JSON files of the same name; every section is
+ * validated against the configuration schema when it is loaded.
+ *
+ * A stack can override or extend these base sections with an overlay in its
+ * stack config (aws-org-infrastructure:configOverlay in Pulumi.<stack>.yaml).
+ */
+
+import * as pulumi from "@pulumi/pulumi";
+import { ConfigSet } from "../org-library/config-types";
+import { loadConfig, stackConfigOverlays } from "../org-library/config";
+
+/**
+ * Pulumi config namespace of the overlays: the project name in Pulumi.yaml.
+ */
+export const CONFIG_NAMESPACE = "aws-org-infrastructure";
+
+/**
+ * Directory of the base configuration sections. Compiled, this is
+ * bin/shared/config, where `yarn build` copies the YAML and JSON sections.
+ */
+export const CONFIG_DIRECTORY = __dirname;
+
+const overlays = stackConfigOverlays(CONFIG_NAMESPACE);
+const configSet: ConfigSet = loadConfig(CONFIG_DIRECTORY, { overlays });
+
+// Shown by `pulumi preview --debug`; `yarn effective-config` prints it offline
+if (overlays.length > 0) {
+  pulumi.log.debug(`Effective configuration of stack ${pulumi.getStack()}:\n${JSON.stringify(configSet, null, 2)}`);
+}
+
+export default configSet;
@@ -4,9 +4,15 @@
  * This file defines the root AWS Organization settings.
  */
 
-const organizationConfig = {
+import { OrganizationConfig } from "../org-library/config-types";
+
+const organizationConfig: OrganizationConfig = {
   // Logical name for the Organization resource
   name: "root-org",
+  // Email of the accounts in accounts.ts that declare none: {ou} and {name}
+  // are replaced with the OU and account name. AWS requires a unique address
+  // per account, so a plus-addressed mailbox of a domain we own works well:
+  // accountEmailTemplate: "aws+{ou}-{name}@example.com",
   // Organization arguments (see Pulumi aws.organizations.OrganizationArgs)
   orgArgs: {
     awsServiceAccessPrincipals: [
@@ -16,6 +22,8 @@ const organizationConfig = {
       "tagpolicies.tag.amazonaws.com",
       "ipam.amazonaws.com"
     ],
+    // Policy types enabled on the root. Also available: BACKUP_POLICY,
+    // AISERVICES_OPT_OUT_POLICY, RESOURCE_CONTROL_POLICY and DECLARATIVE_POLICY_EC2
     awsManagedPolicyTypes: [
       "SERVICE_CONTROL_POLICY",
       "TAG_POLICY"
@@ -1,21 +1,53 @@
 /**
  * Organizational Units configuration
  *
- * This file defines the hierarchy of OUs in the AWS Organization.
+ * This file defines the hierarchy of OUs in the AWS Organization and the
+ * baseline provisioned in every account created in them. Child OUs inherit
+ * the baseline of their parent and can override single settings.
  */
 
-const ouConfig = {
+import { AccountBaselineConfig, OrganizationalUnitsConfig } from "../org-library/config-types";
+
+// Settings every member account gets
+const standardBaseline: AccountBaselineConfig = {
+  aliasPrefix: "root-org-",
+  passwordPolicy: {
+    minimumPasswordLength: 14,
+    requireLowercaseCharacters: true,
+    requireUppercaseCharacters: true,
+    requireNumbers: true,
+    requireSymbols: true,
+    allowUsersToChangePassword: true,
+    passwordReusePrevention: 24
+  },
+  ebsDefaultEncryption: true,
+  s3PublicAccessBlock: true,
+  restrictDefaultVpc: true
+};
+
+const ouConfig: OrganizationalUnitsConfig = {
   // Top-level OUs
   dev: {
     name: "dev",
+    baseline: standardBaseline,
     // Nested OUs under dev
     children: {
       sandbox1: { name: "sandbox1" },
       sandbox2: { name: "sandbox2" }
     }
   },
-  qa: { name: "qa" },
-  prod: { name: "prod" }
+  qa: { name: "qa", baseline: standardBaseline },
+  staging: { name: "staging", baseline: standardBaseline },
+  prod: {
+    name: "prod",
+    baseline: {
+      ...standardBaseline,
+      passwordPolicy: {
+        ...standardBaseline.passwordPolicy,
+        maxPasswordAge: 90
+      }
+    }
+  }
 };
 
-export default ouConfig; 
\ No newline at end of file
+export default ouConfig;
@@ -1,14 +1,17 @@
 /**
  * Policies configuration
  *
- * This file defines custom IAM policies and tag policies for the organization.
+ * This file defines custom IAM policies for the organization.
  * Includes:
  * - Environment-specific IAM policies
- * - Mandatory tagging policies
  * - Access control policies
+ *
+ * Tag policies are defined in tagPolicies.ts.
  */
 
-const policiesConfig = {
+import { PoliciesConfig } from "../org-library/config-types";
+
+const policiesConfig: PoliciesConfig = {
   // Managed Policies
   managedPolicies: [
     {
@@ -63,71 +66,6 @@ const policiesConfig = {
     }
   ],
 
-  // Tag Policy - Enforces mandatory tags across the organization
-  tagPolicies: [
-    {
-      name: "mandatory-tags-policy",
-      document: {
-        Version: "2012-10-17",
-        Statement: [
-          {
-            Sid: "RequireOwnerTag",
-            Effect: "Deny",
-            Action: [
-              "ec2:RunInstances",
-              "ec2:CreateVolume",
-              "s3:CreateBucket",
-              "rds:CreateDBInstance",
-              "lambda:CreateFunction",
-              "dynamodb:CreateTable",
-              "sagemaker:CreateNotebookInstance",
-              "eks:CreateCluster"
-            ],
-            Resource: "*",
-            Condition: {
-              "Null": {
-                "aws:RequestTag/Owner": "true"
-              }
-            }
-          },
-          {
-            Sid: "RequireEnvironmentTag",
-            Effect: "Deny",
-            Action: "*",
-            Resource: "*",
-            Condition: {
-              "Null": {
-                "aws:RequestTag/Environment": "true"
-              }
-            }
-          },
-          {
-            Sid: "ValidateEnvironmentTagValues",
-            Effect: "Deny",
-            Action: "*",
-            Resource: "*",
-            Condition: {
-              "ForAnyValue:StringNotLike": {
-                "aws:RequestTag/Environment": ["prod", "staging", "dev", "sandbox"]
-              }
-            }
-          },
-          {
-            Sid: "RequireCostCenterTag",
-            Effect: "Deny",
-            Action: "*",
-            Resource: "*",
-            Condition: {
-              "Null": {
-                "aws:RequestTag/CostCenter": "true"
-              }
-            }
-          }
-        ]
-      }
-    }
-  ],
-
   // Production environment policies
   prod: [
     {
@@ -225,6 +163,7 @@ const policiesConfig = {
             }
           },
           {
+            Sid: "DenyOrganizationAndIAMChanges",
             Effect: "Deny",
             Action: [
               "organizations:*",
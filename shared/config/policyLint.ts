@@ -0,0 +1,35 @@
+/**
+ * Policy lint configuration
+ *
+ * This file sets the severity of the policy linter's rules ("error" fails
+ * the stack, "warning" only logs, "off" disables the rule). Rules not
+ * listed here use their default severity. Accepted findings are reported as
+ * warnings instead of failing the stack.
+ */
+
+import { PolicyLintConfig, PolicyLintRule } from "../org-library/lint";
+
+const policyLintConfig: PolicyLintConfig = {
+  severities: {
+    // [PolicyLintRule.DENY_WITHOUT_SID]: PolicyLintSeverity.ERROR
+  },
+  accepted: [
+    {
+      rule: PolicyLintRule.INVALID_ACTION_SYNTAX,
+      path: "policies.prod[0].document.Statement[1].Action[0]",
+      reason: "DenyDeletionOperations is deployed with *:Delete*; changing it needs the prod policy owner's sign-off"
+    },
+    {
+      rule: PolicyLintRule.INVALID_ACTION_SYNTAX,
+      path: "policies.prod[0].document.Statement[1].Action[1]",
+      reason: "DenyDeletionOperations is deployed with *:Remove*; changing it needs the prod policy owner's sign-off"
+    },
+    {
+      rule: PolicyLintRule.ALLOW_ALL,
+      path: "policies.sandbox1[0].document.Statement[0]",
+      reason: "sandbox1-full-access grants full access to sandbox principals by design"
+    }
+  ]
+};
+
+export default policyLintConfig;
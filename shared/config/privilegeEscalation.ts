@@ -0,0 +1,22 @@
+/**
+ * Privilege escalation configuration
+ *
+ * This file lists the privilege escalation paths that were reviewed and
+ * accepted. Environment stacks fail on any other path found by the
+ * escalation analysis; accepted paths are only logged.
+ */
+
+import { EscalationPattern, PrivilegeEscalationConfig } from "../org-library/escalation";
+
+const privilegeEscalationConfig: PrivilegeEscalationConfig = {
+  accepted: [
+    {
+      pattern: EscalationPattern.ASSUME_ROLE_CHAIN,
+      principal: "user qa-admin-user",
+      environment: "qa",
+      reason: "QA administrators work through qa-admin-role, which requires MFA"
+    }
+  ]
+};
+
+export default privilegeEscalationConfig;
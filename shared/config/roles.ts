@@ -2,14 +2,22 @@
  * Roles configuration
  *
  * This file defines IAM roles for each OU and their permissions.
+ * Users listing a role in assumeRoles are always trusted; the optional
+ * trust section adds groups, accounts, services and OIDC providers and
+ * the conditions (MFA, session duration, external ID) they must meet.
  */
 
-const rolesConfig = {
+import { RolesByEnvironment } from "../org-library/config-types";
+
+const rolesConfig: RolesByEnvironment = {
   prod: [
     {
       name: "prod-system-role",
       description: "Role for system resources in prod OU. No user access.",
       policyArns: ["arn:aws:iam::aws:policy/ReadOnlyAccess"],
+      trust: {
+        services: ["ec2.amazonaws.com"]
+      },
       tags: {
         Environment: "prod",
         ManagedBy: "Pulumi",
@@ -22,6 +30,9 @@ const rolesConfig = {
       name: "staging-access-role",
       description: "Access role for staging environment.",
       policyArns: ["arn:aws:iam::aws:policy/PowerUserAccess"],
+      trust: {
+        groups: ["staging-deployers"]
+      },
       tags: {
         Environment: "staging",
         ManagedBy: "Pulumi",
@@ -34,6 +45,9 @@ const rolesConfig = {
       name: "dev-limited-role",
       description: "Limited access role for development environment.",
       policyArns: ["arn:aws:iam::aws:policy/PowerUserAccess"],
+      trust: {
+        groups: ["dev-developers"]
+      },
       tags: {
         Environment: "dev",
         ManagedBy: "Pulumi",
@@ -46,6 +60,9 @@ const rolesConfig = {
       name: "qa-admin-role",
       description: "Admin role for QA OU.",
       policyArns: ["arn:aws:iam::aws:policy/AdministratorAccess"],
+      trust: {
+        conditions: { mfaRequired: true }
+      },
       tags: {
         Environment: "qa",
         ManagedBy: "Pulumi",
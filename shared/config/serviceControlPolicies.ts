@@ -0,0 +1,66 @@
+/**
+ * Service Control Policies configuration
+ *
+ * This file defines the SCPs of the organization and where each is attached.
+ * Targets are "root", an OU by path ({ ou: "dev/sandbox1" }) or an account
+ * by name ({ account: "dev-main" }); each target gets its own attachment.
+ */
+
+import { ServiceControlPolicyConfig } from "../org-library/config-types";
+
+const serviceControlPoliciesConfig: ServiceControlPolicyConfig[] = [
+  {
+    name: "production-scp",
+    description: "Production environment service control policy",
+    document: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Sid: "DenyOrganizationLeave",
+          Effect: "Deny",
+          Action: [
+            "organizations:LeaveOrganization",
+            "organizations:DeleteOrganization",
+            "organizations:RemoveAccountFromOrganization"
+          ],
+          Resource: "*"
+        }
+      ]
+    },
+    targets: [{ ou: "prod" }],
+    tags: {
+      Environment: "prod",
+      ManagedBy: "Pulumi",
+      Type: "ServiceControlPolicy"
+    }
+  },
+  {
+    name: "sandbox-scp",
+    description: "Sandbox environment service control policy",
+    document: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Sid: "DenyOrganizationAndIAMOperations",
+          Effect: "Deny",
+          Action: [
+            "organizations:*",
+            "account:*",
+            "iam:CreateUser",
+            "iam:CreateRole",
+            "iam:CreatePolicy"
+          ],
+          Resource: "*"
+        }
+      ]
+    },
+    targets: [{ ou: "dev/sandbox1" }],
+    tags: {
+      Environment: "sandbox1",
+      ManagedBy: "Pulumi",
+      Type: "ServiceControlPolicy"
+    }
+  }
+];
+
+export default serviceControlPoliciesConfig;
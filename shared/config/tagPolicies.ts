@@ -0,0 +1,55 @@
+/**
+ * Tag Policies configuration
+ *
+ * This file defines the tag policies of the organization and where each is
+ * attached. Documents use the AWS Organizations tag policy syntax; targets
+ * work as in serviceControlPolicies.ts.
+ *
+ * The allowed Environment values are derived from the OU and environment
+ * configuration, so they always match the tags the stacks apply.
+ */
+
+import { TagPolicyConfig } from "../org-library/config-types";
+import { environmentTagValues } from "../org-library/policy";
+import ouConfig from "./organizationalUnits";
+import environmentsConfig from "./environments";
+
+const tagPoliciesConfig: TagPolicyConfig[] = [
+  {
+    name: "mandatory-tags-policy",
+    description: "Standardizes the Owner, Environment and CostCenter tags across the organization",
+    document: {
+      tags: {
+        Owner: {
+          tag_key: {
+            "@@assign": "Owner"
+          }
+        },
+        Environment: {
+          tag_key: {
+            "@@assign": "Environment"
+          },
+          tag_value: {
+            "@@assign": environmentTagValues(ouConfig, environmentsConfig)
+          },
+          enforced_for: {
+            "@@assign": ["ec2:instance", "ec2:volume"]
+          }
+        },
+        CostCenter: {
+          tag_key: {
+            "@@assign": "CostCenter"
+          }
+        }
+      }
+    },
+    targets: ["root"],
+    tags: {
+      Environment: "all",
+      ManagedBy: "Pulumi",
+      Type: "TagPolicy"
+    }
+  }
+];
+
+export default tagPoliciesConfig;
@@ -8,19 +8,7 @@
  * 3. Role assignments for temporary elevated access
  */
 
-interface UserConfig {
-    username: string;
-    email: string;
-    description: string;
-    groups?: string[];              // Optional group memberships
-    managedPolicies?: string[];     // Optional direct managed policies
-    assumeRoles?: string[];         // Optional additional roles to assume
-    environment: string;            // User's primary environment
-    tags: {                         // Resource tags
-        Environment: string;        // Must match environment or be "all"
-        [key: string]: string;      // Additional tags
-    };
-}
+import { UserConfig } from "../org-library/config-types";
 
 const usersConfig: UserConfig[] = [
     // Production user - ReadOnly access through both group and role
@@ -42,7 +30,6 @@ const usersConfig: UserConfig[] = [
     {
         username: "qa-admin-user",
         email: "qa-admin@example.com",
-        groups: ["qa-admin", "qa-team"],
         assumeRoles: ["qa-admin-role", "staging-access-role"],
         description: "QA environment administrator with staging access",
         environment: "staging",
@@ -53,13 +40,12 @@ const usersConfig: UserConfig[] = [
         }
     },
 
-    // Sandbox1 Power User with direct policy and role access
+    // Sandbox1 Power User with group and role access
     {
         username: "sandbox1-poweruser",
         email: "sandbox1-power@example.com",
         groups: ["sandbox1-limited"],
         assumeRoles: ["sandbox1-limited-role"],
-        managedPolicies: ["sandbox1-utilities-access"],
         description: "Sandbox1 power user with limited access",
         environment: "dev",
         tags: {
@@ -73,7 +59,6 @@ const usersConfig: UserConfig[] = [
     {
         username: "sandbox2-readonly",
         email: "sandbox2-readonly@example.com",
-        groups: ["sandbox2-everyone"],
         assumeRoles: ["sandbox2-everyone-role"],
         description: "Sandbox2 read-only access user",
         environment: "dev",
@@ -88,9 +73,7 @@ const usersConfig: UserConfig[] = [
     {
         username: "system-admin",
         email: "sysadmin@example.com",
-        groups: ["admin", "platform-team"],
-        assumeRoles: ["admin-role", "security-audit-role"],
-        managedPolicies: ["system-admin-access"],
+        groups: ["admin"],
         description: "System administrator with full access",
         environment: "all",
         tags: {
@@ -116,4 +99,3 @@ const usersConfig: UserConfig[] = [
 ];
 
 export default usersConfig;
-export type { UserConfig }; 
\ No newline at end of file
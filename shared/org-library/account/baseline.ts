@@ -0,0 +1,123 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions } from "@pulumi/pulumi";
+import { AccountBaselineConfig, OrganizationalUnitConfig, OrganizationalUnitsConfig } from "../config-types";
+import { childResourceOptions } from "../component";
+import { logicalName } from "../naming";
+import { createAccountProvider } from "./providers";
+import { AccountBaselineOptions } from "./types";
+
+/**
+ * The baseline of a member account: a provider assuming the organization
+ * access role in the account and the account-level settings created through it.
+ */
+export class OrgAccountBaseline extends ComponentResource {
+  public readonly provider: aws.Provider;
+  public readonly alias?: aws.iam.AccountAlias;
+  public readonly passwordPolicy?: aws.iam.AccountPasswordPolicy;
+  public readonly ebsEncryption?: aws.ebs.EncryptionByDefault;
+  public readonly s3PublicAccessBlock?: aws.s3.AccountPublicAccessBlock;
+  public readonly defaultVpc?: aws.ec2.DefaultVpc;
+  public readonly defaultSecurityGroup?: aws.ec2.DefaultSecurityGroup;
+
+  /**
+   * @param name - Logical name prefix for the baseline resources.
+   * @param options - Account to provision and the settings to apply.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: AccountBaselineOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgAccountBaseline", name, {}, opts);
+
+    const { accountId, roleName, region } = options;
+
+    this.provider = createAccountProvider(logicalName(name, "provider"), accountId, {
+      roleName,
+      region,
+      sessionName: "pulumi-account-baseline"
+    }, { parent: this });
+
+    // Every setting is created in the member account through the provider
+    const inAccount = () => childResourceOptions(this, { provider: this.provider });
+
+    if (options.alias) {
+      this.alias = new aws.iam.AccountAlias(logicalName(name, "alias"), {
+        accountAlias: options.alias
+      }, inAccount());
+    }
+
+    if (options.passwordPolicy) {
+      this.passwordPolicy = new aws.iam.AccountPasswordPolicy(
+        logicalName(name, "password-policy"),
+        options.passwordPolicy,
+        inAccount()
+      );
+    }
+
+    if (options.ebsDefaultEncryption) {
+      this.ebsEncryption = new aws.ebs.EncryptionByDefault(logicalName(name, "ebs-encryption"), {
+        enabled: true
+      }, inAccount());
+    }
+
+    if (options.s3PublicAccessBlock) {
+      this.s3PublicAccessBlock = new aws.s3.AccountPublicAccessBlock(logicalName(name, "s3-public-access-block"), {
+        blockPublicAcls: true,
+        blockPublicPolicy: true,
+        ignorePublicAcls: true,
+        restrictPublicBuckets: true
+      }, inAccount());
+    }
+
+    // The default VPC is kept, since deleting it cannot be declared, but its
+    // default security group loses all rules so nothing launched into it is reachable
+    if (options.restrictDefaultVpc) {
+      this.defaultVpc = new aws.ec2.DefaultVpc(logicalName(name, "default-vpc"), {
+        tags: { Name: "default-do-not-use", ManagedBy: "pulumi" }
+      }, inAccount());
+      this.defaultSecurityGroup = new aws.ec2.DefaultSecurityGroup(logicalName(name, "default-security-group"), {
+        vpcId: this.defaultVpc.id,
+        ingress: [],
+        egress: [],
+        tags: { Name: "default-do-not-use", ManagedBy: "pulumi" }
+      }, inAccount());
+    }
+
+    this.registerOutputs({});
+  }
+}
+
+/**
+ * The OUs from the top of the hierarchy down to the OU with the given name.
+ */
+function organizationalUnitPath(
+  organizationalUnits: OrganizationalUnitsConfig,
+  ouName: string
+): OrganizationalUnitConfig[] | undefined {
+  for (const ou of Object.values(organizationalUnits)) {
+    if (ou.name === ouName) {
+      return [ou];
+    }
+    const path = ou.children && organizationalUnitPath(ou.children, ouName);
+    if (path) {
+      return [ou, ...path];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the baseline of the accounts of an OU: the baselines of the OU
+ * and its ancestors, merged from the top down so the nearest OU wins for
+ * each setting.
+ *
+ * @param organizationalUnits - The OU hierarchy from the configuration set.
+ * @param ouName - Name of the OU, as used for the keys of the accounts config.
+ * @returns The merged baseline, or undefined if no OU on the path declares one.
+ */
+export function resolveAccountBaseline(
+  organizationalUnits: OrganizationalUnitsConfig,
+  ouName: string
+): AccountBaselineConfig | undefined {
+  const baselines = (organizationalUnitPath(organizationalUnits, ouName) || [])
+    .flatMap(ou => ou.baseline ? [ou.baseline] : []);
+  return baselines.length > 0 ? Object.assign({}, ...baselines) : undefined;
+}
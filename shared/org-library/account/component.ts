@@ -0,0 +1,56 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions, Output } from "@pulumi/pulumi";
+import { childResourceOptions } from "../component";
+import { logicalName } from "../naming";
+import { AccountOptions } from "./types";
+
+/**
+ * A member AWS Account of the Organization, created or imported, and its
+ * alternate contacts.
+ */
+export class OrgAccount extends ComponentResource {
+  public readonly account: aws.organizations.Account;
+  public readonly alternateContacts: aws.account.AlternativeContact[];
+  public readonly accountId: Output<string>;
+  public readonly arn: Output<string>;
+
+  /**
+   * @param name - Logical name for the AWS account resource.
+   * @param options - Configuration options for the member account.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: AccountOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgAccount", name, {}, opts);
+
+    const { alternateContacts = {}, importId, imported = false, ...accountArgs } = options;
+
+    // AWS does not report the role and billing access of an account, so an
+    // imported account would always differ in them. An import also fails when
+    // the inputs differ from the live account, which has none of our tags yet,
+    // so tags and closeOnDeletion wait for the deployment after the import
+    this.account = new aws.organizations.Account(name, accountArgs, childResourceOptions(this, importId ? {
+      import: importId,
+      ignoreChanges: ["roleName", "iamUserAccessToBilling", ...(imported ? [] : ["tags", "closeOnDeletion"])]
+    } : {}));
+
+    // Contacts of member accounts are managed from the management account
+    this.alternateContacts = Object.entries(alternateContacts).flatMap(([kind, contact]) => contact ? [
+      new aws.account.AlternativeContact(logicalName(name, "contact", kind), {
+        accountId: this.account.id,
+        alternateContactType: kind.toUpperCase(),
+        name: contact.name,
+        title: contact.title,
+        emailAddress: contact.emailAddress,
+        phoneNumber: contact.phoneNumber
+      }, childResourceOptions(this))
+    ] : []);
+
+    this.accountId = this.account.id;
+    this.arn = this.account.arn;
+
+    this.registerOutputs({
+      accountId: this.accountId,
+      arn: this.arn
+    });
+  }
+}
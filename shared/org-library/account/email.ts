@@ -0,0 +1,70 @@
+import { AccountConfig } from "../config-types";
+
+/**
+ * Format of the email addresses of accounts and their alternate contacts.
+ */
+export const EMAIL_ADDRESS_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Length limits AWS Organizations puts on the email address of an account.
+ */
+export const ACCOUNT_EMAIL_LENGTH = { min: 6, max: 64 };
+
+/**
+ * Placeholders of an account email template, e.g. `aws+{ou}-{name}@example.com`.
+ */
+export const ACCOUNT_EMAIL_PLACEHOLDERS = ["ou", "name"];
+
+/**
+ * Lists the placeholders of a template that are not in ACCOUNT_EMAIL_PLACEHOLDERS.
+ *
+ * @param template - Account email template.
+ * @returns The unknown placeholder names, in order of appearance.
+ */
+export function unknownEmailPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(/\{([^}]*)\}/g), match => match[1])
+    .filter(placeholder => !ACCOUNT_EMAIL_PLACEHOLDERS.includes(placeholder));
+}
+
+/**
+ * Fills the placeholders of an account email template.
+ *
+ * @param template - Account email template, e.g. `aws+{ou}-{name}@example.com`.
+ * @param values - Name of the account and of the OU it is created in.
+ * @returns The email address.
+ */
+export function renderAccountEmail(template: string, values: { ou: string; name: string }): string {
+  return template.replace(/\{(ou|name)\}/g, (_, placeholder: "ou" | "name") => values[placeholder]);
+}
+
+/**
+ * Resolves the email address of an accounts config entry: its own `email`
+ * or, when it has none, the organization's template filled for the account.
+ *
+ * @param account - Entry of the accounts config.
+ * @param ou - Name of the OU the account is listed under.
+ * @param template - The organization's `accountEmailTemplate`, if any.
+ * @returns The email address, or undefined if the entry has none and there is no template.
+ */
+export function resolveAccountEmail(account: AccountConfig, ou: string, template?: string): string | undefined {
+  if (account.email !== undefined) {
+    return account.email;
+  }
+  return template === undefined ? undefined : renderAccountEmail(template, { ou, name: account.name });
+}
+
+/**
+ * Checks an email address against the format and length AWS accepts for accounts.
+ *
+ * @param email - Email address of an account.
+ * @returns What is wrong with the address, or undefined if it is accepted.
+ */
+export function accountEmailProblem(email: string): string | undefined {
+  if (!EMAIL_ADDRESS_PATTERN.test(email)) {
+    return "is not an email address";
+  }
+  if (email.length < ACCOUNT_EMAIL_LENGTH.min || email.length > ACCOUNT_EMAIL_LENGTH.max) {
+    return `must be ${ACCOUNT_EMAIL_LENGTH.min} to ${ACCOUNT_EMAIL_LENGTH.max} characters long`;
+  }
+  return undefined;
+}
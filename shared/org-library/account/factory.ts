@@ -1,8 +1,18 @@
-import * as aws from "@pulumi/aws";
-import { AccountOptions, AccountResult } from "./types";
+import { AccountConfig } from "../config-types";
+import { logicalName } from "../naming";
+import {
+  AccountBaselineOptions,
+  AccountOptions,
+  AccountResult,
+  AccountVendingOptions,
+  ORGANIZATION_ACCESS_ROLE
+} from "./types";
+import { OrgAccount } from "./component";
+import { OrgAccountBaseline } from "./baseline";
+import { resolveAccountEmail } from "./email";
 
 /**
- * Creates a member AWS Account in the Organization.
+ * Creates a member AWS Account in the Organization, owned by an OrgAccount component.
  *
  * @param name - Logical name for the AWS account resource.
  * @param options - Configuration options for the member account.
@@ -12,5 +22,72 @@ export function createAccount(
   name: string,
   options: AccountOptions
 ): AccountResult {
-  return new aws.organizations.Account(name, options);
-} 
\ No newline at end of file
+  return new OrgAccount(name, options).account;
+}
+
+/**
+ * Provisions the baseline of an existing member account through a provider
+ * that assumes a role in it, owned by an OrgAccountBaseline component.
+ *
+ * @param name - Logical name prefix for the baseline resources.
+ * @param options - Account to provision and the settings to apply.
+ * @returns The baseline component, with the provider and the created settings.
+ */
+export function createAccountBaseline(
+  name: string,
+  options: AccountBaselineOptions
+): OrgAccountBaseline {
+  return new OrgAccountBaseline(name, options);
+}
+
+/**
+ * Creates the account of an accounts config entry in its OU, or imports it
+ * when the entry has the ID of an existing account, with its tags, settings
+ * and alternate contacts, and provisions the OU's baseline inside it. The baseline is a child of the account's
+ * OrgAccount component, so it is created once the account exists.
+ *
+ * @param account - Entry of the accounts config.
+ * @param options - OU, baseline, access role and email template of the account.
+ * @returns The Account resource and, when the OU declares one, its baseline.
+ */
+export function vendAccount(
+  account: AccountConfig,
+  options: AccountVendingOptions
+): { account: AccountResult; baseline?: OrgAccountBaseline } {
+  const { parentId, baseline, ou = "", emailTemplate } = options;
+  const roleName = account.roleName ?? options.roleName ?? ORGANIZATION_ACCESS_ROLE;
+  const email = resolveAccountEmail(account, ou, emailTemplate);
+  if (email === undefined) {
+    throw new Error(`Account "${account.name}" has no email and no email template is set`);
+  }
+
+  const component = new OrgAccount(logicalName(account.name, "account"), {
+    email,
+    name: account.name,
+    parentId,
+    roleName,
+    importId: account.id,
+    imported: account.imported,
+    iamUserAccessToBilling: account.iamUserAccessToBilling,
+    closeOnDeletion: account.closeOnDeletion,
+    tags: {
+      ...account.tags,
+      ManagedBy: "pulumi"
+    },
+    alternateContacts: account.alternateContacts
+  });
+
+  if (!baseline) {
+    return { account: component.account };
+  }
+  const { aliasPrefix, ...settings } = baseline;
+  return {
+    account: component.account,
+    baseline: new OrgAccountBaseline(logicalName(account.name, "baseline"), {
+      ...settings,
+      accountId: component.accountId,
+      roleName,
+      alias: aliasPrefix === undefined ? undefined : `${aliasPrefix}${account.name}`
+    }, { parent: component })
+  };
+}
@@ -1,2 +1,7 @@
+export * from "./baseline";
+export * from "./component";
+export * from "./email";
 export * from "./factory";
-export * from "./types"; 
\ No newline at end of file
+export * from "./plan";
+export * from "./providers";
+export * from "./types";
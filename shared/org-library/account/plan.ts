@@ -0,0 +1,42 @@
+import { AccountsConfig } from "../config-types";
+import { AccountPlanAction, AccountPlanEntry, FoundationAccounts } from "./types";
+
+/**
+ * Compares the accounts config with the accounts the foundation stack
+ * manages, without calling AWS: which accounts a deployment would create,
+ * import, move to another OU or remove from the organization.
+ *
+ * @param accounts - The accounts config, keyed by OU name.
+ * @param managed - The foundation stack's `accounts` output; empty before the first deployment.
+ * @returns One entry per configured or managed account, in config order, removals last.
+ */
+export function planAccounts(accounts: AccountsConfig, managed: FoundationAccounts = {}): AccountPlanEntry[] {
+  const entries: AccountPlanEntry[] = Object.entries(accounts).flatMap(([ou, ouAccounts]) =>
+    ouAccounts.map((account): AccountPlanEntry => {
+      const current = managed[account.name];
+      if (!current) {
+        return account.id
+          ? { account: account.name, ou, action: AccountPlanAction.IMPORT, id: account.id }
+          : { account: account.name, ou, action: AccountPlanAction.CREATE };
+      }
+      // Outputs of deployments that did not export the OU yet cannot show a move
+      if (current.ou !== undefined && current.ou !== ou) {
+        return { account: account.name, ou, action: AccountPlanAction.MOVE, id: current.id, currentOu: current.ou };
+      }
+      return { account: account.name, ou, action: AccountPlanAction.UNCHANGED, id: current.id };
+    })
+  );
+
+  const configured = new Set(entries.map(entry => entry.account));
+  const removed = Object.entries(managed)
+    .filter(([name]) => !configured.has(name))
+    .map(([name, current]): AccountPlanEntry => ({
+      account: name,
+      ou: current.ou ?? "",
+      action: AccountPlanAction.REMOVE,
+      id: current.id,
+      closes: current.closeOnDeletion === true
+    }));
+
+  return [...entries, ...removed];
+}
@@ -0,0 +1,80 @@
+import * as aws from "@pulumi/aws";
+import { CustomResourceOptions, Input, Output, interpolate, output } from "@pulumi/pulumi";
+import { logicalName } from "../naming";
+import { AccountProviderOptions, FoundationAccount, FoundationAccounts, ORGANIZATION_ACCESS_ROLE } from "./types";
+
+/**
+ * Creates an AWS provider that assumes a role in a member account, so the
+ * resources created through it are deployed into that account.
+ *
+ * @param name - Logical name for the provider resource.
+ * @param accountId - ID of the member account.
+ * @param options - Role, region and session name of the provider.
+ * @param opts - Resource options for the provider.
+ * @returns The provider.
+ */
+export function createAccountProvider(
+  name: string,
+  accountId: Input<string>,
+  options: AccountProviderOptions = {},
+  opts?: CustomResourceOptions
+): aws.Provider {
+  const { roleName = ORGANIZATION_ACCESS_ROLE, region = aws.config.region, sessionName = "pulumi" } = options;
+  return new aws.Provider(name, {
+    region,
+    assumeRole: {
+      roleArn: interpolate`arn:aws:iam::${accountId}:role/${roleName}`,
+      sessionName
+    }
+  }, opts);
+}
+
+/**
+ * Looks up the ID of a member account in the foundation stack's `accounts`
+ * output. An account missing from the output fails the deployment.
+ *
+ * @param accounts - The `accounts` output of the foundation stack.
+ * @param name - Name of the account.
+ * @returns The ID of the account.
+ */
+export function foundationAccountId(accounts: Input<FoundationAccounts>, name: string): Output<string> {
+  return foundationAccount(accounts, name).id;
+}
+
+/**
+ * Looks up a member account in the foundation stack's `accounts` output.
+ */
+function foundationAccount(accounts: Input<FoundationAccounts>, name: string): Output<FoundationAccount> {
+  return output(accounts).apply(exported => {
+    const account = exported?.[name];
+    if (!account) {
+      throw new Error(`Account "${name}" is not exported by the foundation stack`);
+    }
+    return account;
+  });
+}
+
+/**
+ * Creates one provider per member account from the foundation stack's
+ * `accounts` output, assuming the access role each account exports unless
+ * `options` names one. The accounts are named up front, since the providers
+ * must be registered before the output is known.
+ *
+ * @param accounts - The `accounts` output of the foundation stack.
+ * @param names - Names of the accounts to create providers for.
+ * @param options - Role, region and session name of the providers.
+ * @returns The providers keyed by account name, named `<account>-provider`.
+ */
+export function createAccountProviders(
+  accounts: Input<FoundationAccounts>,
+  names: string[],
+  options: AccountProviderOptions = {}
+): Map<string, aws.Provider> {
+  return new Map(names.map(name => {
+    const account = foundationAccount(accounts, name);
+    return [name, createAccountProvider(logicalName(name, "provider"), account.id, {
+      ...options,
+      roleName: options.roleName ?? account.apply(exported => exported.roleName ?? ORGANIZATION_ACCESS_ROLE)
+    })];
+  }));
+}
@@ -1,11 +1,140 @@
 import * as aws from "@pulumi/aws";
+import { Input } from "@pulumi/pulumi";
+import { AccountBaselineConfig, AccountConfig, AccountPasswordPolicyConfig } from "../config-types";
+
+/**
+ * Role AWS Organizations creates in every new member account, trusting the
+ * management account. Baseline providers assume it by default.
+ */
+export const ORGANIZATION_ACCESS_ROLE = "OrganizationAccountAccessRole";
+
+/**
+ * Alternate contacts of an account, by the kind of notifications they receive.
+ */
+export type AccountAlternateContacts = NonNullable<AccountConfig["alternateContacts"]>;
 
 /**
  * Options for createAccount.
  */
-export type AccountOptions = aws.organizations.AccountArgs;
+export interface AccountOptions extends aws.organizations.AccountArgs {
+  /** ID of an existing account to import into the stack instead of creating one. */
+  importId?: string;
+  /**
+   * Whether the account of `importId` is already in the stack. Until then its
+   * tags and closeOnDeletion are ignored, so the import matches the live account.
+   */
+  imported?: boolean;
+  /** Contacts managed from the management account; requires trusted access for account.amazonaws.com. */
+  alternateContacts?: AccountAlternateContacts;
+}
 
 /**
  * Return type for createAccount.
  */
-export type AccountResult = aws.organizations.Account; 
\ No newline at end of file
+export type AccountResult = aws.organizations.Account;
+
+/**
+ * An account as exported by the foundation stack's `accounts` output.
+ */
+export interface FoundationAccount {
+  id: string;
+  arn: string;
+  /** Name of the OU the account is created in. */
+  ou?: string;
+  email?: string;
+  /** Access role created in the account. */
+  roleName?: string;
+  iamUserAccessToBilling?: string;
+  closeOnDeletion?: boolean;
+  tags?: { [key: string]: string };
+  alternateContacts?: AccountAlternateContacts;
+}
+
+/**
+ * The foundation stack's `accounts` output, keyed by account name.
+ */
+export interface FoundationAccounts {
+  [name: string]: FoundationAccount;
+}
+
+/**
+ * Options for createAccountProvider and createAccountProviders.
+ */
+export interface AccountProviderOptions {
+  /**
+   * Role assumed in the account. createAccountProviders defaults to the
+   * account's `roleName` output, the others to ORGANIZATION_ACCESS_ROLE.
+   */
+  roleName?: Input<string>;
+  /** Region of the provider; defaults to the aws:region of the stack. */
+  region?: Input<aws.Region>;
+  /** Session name of the assumed role, shown in CloudTrail. Default: "pulumi". */
+  sessionName?: string;
+}
+
+/**
+ * Options for createAccountBaseline. Settings left out are not managed.
+ */
+export interface AccountBaselineOptions {
+  /** ID of the member account to provision. */
+  accountId: Input<string>;
+  /** Role assumed in the account; defaults to ORGANIZATION_ACCESS_ROLE. */
+  roleName?: string;
+  /** Region of the regional settings; defaults to the aws:region of the stack. */
+  region?: Input<aws.Region>;
+  /** Account alias, unique across AWS. */
+  alias?: string;
+  passwordPolicy?: AccountPasswordPolicyConfig;
+  /** Encrypt new EBS volumes in the region by default. */
+  ebsDefaultEncryption?: boolean;
+  /** Block public ACLs and bucket policies for every bucket of the account. */
+  s3PublicAccessBlock?: boolean;
+  /** Adopt the default VPC of the region and remove every rule of its default security group. */
+  restrictDefaultVpc?: boolean;
+}
+
+/**
+ * Options for vendAccount.
+ */
+export interface AccountVendingOptions {
+  /** ID of the OU the account is created in. */
+  parentId: Input<string>;
+  /** Name of the OU, for the {ou} placeholder of the email template. */
+  ou?: string;
+  /** Email template for entries without an email, see resolveAccountEmail. */
+  emailTemplate?: string;
+  /** Baseline of the account's OU, see resolveAccountBaseline. */
+  baseline?: AccountBaselineConfig;
+  /** Role AWS Organizations creates in the account unless the account declares one; defaults to ORGANIZATION_ACCESS_ROLE. */
+  roleName?: string;
+}
+
+/**
+ * What a deployment of the foundation stack does with an account.
+ */
+export enum AccountPlanAction {
+  CREATE = "create",
+  /** The account exists outside the stack and is imported by its ID. */
+  IMPORT = "import",
+  /** The account is managed and moves to the OU it is now configured in. */
+  MOVE = "move",
+  UNCHANGED = "unchanged",
+  /** The account is managed but no longer configured. */
+  REMOVE = "remove"
+}
+
+/**
+ * One account of the plan returned by planAccounts.
+ */
+export interface AccountPlanEntry {
+  account: string;
+  /** OU the account is configured in; for removals, the OU it is in. */
+  ou: string;
+  action: AccountPlanAction;
+  /** Account ID, unknown for accounts that are created. */
+  id?: string;
+  /** OU the account is moved from. */
+  currentOu?: string;
+  /** A removal closes the account rather than only removing it from the organization. */
+  closes?: boolean;
+}
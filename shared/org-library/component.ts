@@ -0,0 +1,31 @@
+/**
+ * Shared helpers for the org-library ComponentResources
+ */
+
+import { CustomResourceOptions, Resource, rootStackResource } from "@pulumi/pulumi";
+
+/**
+ * Options for a resource created inside an org-library component.
+ * The aliases keep the state of resources created before the factories
+ * were components, when they had no parent, and of resources whose
+ * logical name has changed.
+ *
+ * @param parent - The component that owns the resource.
+ * @param opts - Additional options for the resource.
+ * @param previousNames - Earlier logical names of the resource.
+ */
+export function childResourceOptions(
+  parent: Resource,
+  opts: CustomResourceOptions = {},
+  previousNames: string[] = []
+): CustomResourceOptions {
+  return {
+    ...opts,
+    parent,
+    aliases: [
+      { parent: rootStackResource },
+      ...previousNames.flatMap(name => [{ name }, { name, parent: rootStackResource }]),
+      ...(opts.aliases || [])
+    ]
+  };
+}
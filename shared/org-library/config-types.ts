@@ -2,10 +2,96 @@
  * Shared type definitions for configuration objects
  */
 
+import { OrganizationPolicyType, PolicyEnvironment, TagPolicyDocument } from "./policy/types";
+import { PolicyLintConfig } from "./lint/types";
+import { PrivilegeEscalationConfig } from "./escalation/types";
+import { PolicyDocument } from "./policyDocument/types";
+
+// Organization configuration types
+export interface OrganizationConfig {
+    name: string;
+    accountEmailTemplate?: string;  // Email of accounts without one, e.g. "aws+{ou}-{name}@example.com"
+    orgArgs: {
+        awsServiceAccessPrincipals: string[];
+        awsManagedPolicyTypes: OrganizationPolicyType[];
+        featureSet: string;
+    };
+}
+
+// IAM password policy of an account (see aws.iam.AccountPasswordPolicy)
+export interface AccountPasswordPolicyConfig {
+    minimumPasswordLength?: number;
+    requireLowercaseCharacters?: boolean;
+    requireUppercaseCharacters?: boolean;
+    requireNumbers?: boolean;
+    requireSymbols?: boolean;
+    allowUsersToChangePassword?: boolean;
+    maxPasswordAge?: number;        // Days before a password expires; never if omitted
+    passwordReusePrevention?: number; // Number of previous passwords that cannot be reused
+    hardExpiry?: boolean;           // Expired passwords can only be reset by an administrator
+}
+
+// Baseline provisioned inside every account created in an OU
+export interface AccountBaselineConfig {
+    aliasPrefix?: string;           // Account alias is <aliasPrefix><account name>
+    passwordPolicy?: AccountPasswordPolicyConfig;
+    ebsDefaultEncryption?: boolean; // Encrypt new EBS volumes by default
+    s3PublicAccessBlock?: boolean;  // Block public ACLs and bucket policies account-wide
+    restrictDefaultVpc?: boolean;   // Strip all rules from the default VPC's default security group
+}
+
+// Organizational unit configuration types
+export interface OrganizationalUnitConfig {
+    name: string;
+    baseline?: AccountBaselineConfig; // Inherited by child OUs, which can override single settings
+    children?: {
+        [key: string]: OrganizationalUnitConfig;
+    };
+}
+
+export interface OrganizationalUnitsConfig {
+    [key: string]: OrganizationalUnitConfig;
+}
+
+// Account configuration types
+// Alternate contact of an account (see aws.account.AlternativeContact)
+export interface AccountContactConfig {
+    name: string;
+    title: string;
+    emailAddress: string;
+    phoneNumber: string;
+}
+
+export interface AccountConfig {
+    name: string;
+    email?: string;                 // Defaults to the organization's accountEmailTemplate
+    id?: string;                    // ID of an existing account, imported instead of created
+    imported?: boolean;             // Set once the account with `id` is imported; its tags and closeOnDeletion are applied from then on
+    tags?: {
+        [key: string]: string;
+    };
+    closeOnDeletion?: boolean;      // Close the account when it is removed instead of only leaving the organization
+    // The following two are only applied when the account is created
+    iamUserAccessToBilling?: "ALLOW" | "DENY";  // IAM access to the billing console; default ALLOW
+    roleName?: string;              // Access role created in the account; default OrganizationAccountAccessRole
+    alternateContacts?: {           // Requires trusted access for account.amazonaws.com
+        billing?: AccountContactConfig;
+        operations?: AccountContactConfig;
+        security?: AccountContactConfig;
+    };
+}
+
+// Accounts keyed by the name of the OU they are created in
+export interface AccountsConfig {
+    [ouName: string]: AccountConfig[];
+}
+
 // Group configuration types
 export interface GroupConfig {
     name: string;
     description: string;
+    policyArns?: string[];          // AWS-managed policy ARNs
+    policies?: string[];            // Names of policies from the policies config
     tags: {
         [key: string]: string | undefined;
         Environment: string;
@@ -18,40 +104,54 @@ export interface UserConfig {
     username: string;
     email: string;
     description: string;
-    groups?: string[];
-    managedPolicies?: string[];
-    assumeRoles?: string[];
-    environment: string;
-    tags: {
+    groups?: string[];              // Optional group memberships
+    managedPolicies?: string[];     // Optional direct managed policies
+    assumeRoles?: string[];         // Optional additional roles to assume
+    environment: string;            // User's primary environment
+    tags: {                         // Resource tags
         [key: string]: string | undefined;
-        Environment: string;
+        Environment: string;        // Must match environment or be "all"
     };
 }
 
+// Role trust configuration types
+export interface RoleTrustConditions {
+    mfaRequired?: boolean;          // Require MFA for user and account principals
+    maxSessionDuration?: number;    // Maximum session duration in seconds (3600-43200)
+    externalId?: string;            // sts:ExternalId required from account principals
+}
+
+export interface RoleOidcTrustConfig {
+    url: string;                    // Issuer host and path, e.g. "token.actions.githubusercontent.com"
+    audiences?: string[];
+    subjects?: string[];            // Allowed "sub" claims, wildcards allowed
+}
+
+// Principals trusted by a role in addition to the users that list it in assumeRoles
+export interface RoleTrustConfig {
+    users?: string[];               // Usernames from the users config (same account)
+    groups?: string[];              // Group names; trusts the group members from the users config
+    accounts?: string[];            // Account names from the foundation stack's accounts output
+    services?: string[];            // AWS service principals, e.g. "ec2.amazonaws.com"
+    oidcProviders?: RoleOidcTrustConfig[];
+    conditions?: RoleTrustConditions;
+}
+
 // Role configuration types
 export interface RoleConfig {
     name: string;
     description: string;
     policyArns: string[];
+    permissionsBoundary?: string;   // Policy ARN or name of a policy from the policies config
+    trust?: RoleTrustConfig;
     tags: {
         [key: string]: string;
         Environment: string;
     };
 }
 
-// Policy configuration types
-export interface PolicyDocument {
-    Version: string;
-    Statement: PolicyStatement[];
-}
-
-export interface PolicyStatement {
-    Sid?: string;
-    Effect: string;
-    Action: string | string[];
-    Resource: string | string[];
-    Condition?: any;
-}
+// Policy documents use the typed model of the policyDocument module
+export type { PolicyDocument, PolicyStatement } from "./policyDocument/types";
 
 export interface PolicyConfig {
     name: string;
@@ -63,13 +163,68 @@ export interface PolicyConfig {
     environment?: string;
 }
 
-// Role configuration by environment
+// Target of an Organizations policy: the root, an OU by path (e.g. "dev/sandbox1") or an account by name
+export type PolicyTargetConfig = "root" | { ou: string } | { account: string };
+
+// Service control policy configuration types
+export interface ServiceControlPolicyConfig {
+    name: string;
+    description: string;
+    document: PolicyDocument;
+    targets: PolicyTargetConfig[];
+    tags?: {
+        [key: string]: string;
+    };
+}
+
+// Tag policy configuration types
+export interface TagPolicyConfig {
+    name: string;
+    description: string;
+    document: TagPolicyDocument;
+    targets: PolicyTargetConfig[];
+    tags?: {
+        [key: string]: string;
+    };
+}
+
+// Policy sets keyed by name (managedPolicies, prod, staging, ...)
+export interface PoliciesConfig {
+    managedPolicies?: PolicyConfig[];
+    [policySet: string]: PolicyConfig[] | undefined;
+}
+
+// Role configuration keyed by environment name
 export interface RolesByEnvironment {
-    prod: RoleConfig[];
-    staging: RoleConfig[];
-    dev: RoleConfig[];
-    qa: RoleConfig[];
-    sandbox1: RoleConfig[];
-    sandbox2: RoleConfig[];
-    [key: string]: RoleConfig[];
-} 
\ No newline at end of file
+    [environment: string]: RoleConfig[];
+}
+
+// Environment configuration types
+export interface EnvironmentConfig {
+    name: string;
+    displayName: string;
+    ou?: string;
+    policySet?: string;
+    policyEnvironment?: PolicyEnvironment;
+    production?: boolean;           // Users are protected from force-destroy and must use MFA
+}
+
+export interface EnvironmentsConfig {
+    [name: string]: EnvironmentConfig;
+}
+
+// Complete configuration set consumed by the stacks
+export interface ConfigSet {
+    organization: OrganizationConfig;
+    organizationalUnits: OrganizationalUnitsConfig;
+    accounts: AccountsConfig;
+    environments: EnvironmentsConfig;
+    policies: PoliciesConfig;
+    serviceControlPolicies: ServiceControlPolicyConfig[];
+    tagPolicies: TagPolicyConfig[];
+    roles: RolesByEnvironment;
+    groups: GroupConfig[];
+    users: UserConfig[];
+    policyLint?: PolicyLintConfig;
+    privilegeEscalation?: PrivilegeEscalationConfig;
+}
@@ -0,0 +1,4 @@
+export * from "./schema";
+export * from "./sections";
+export * from "./overlay";
+export * from "./loader";
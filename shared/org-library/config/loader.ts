@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { ConfigSet } from "../config-types";
+import { ConfigIssue, ConfigIssueKind } from "../validation/types";
+import { ConfigValidationError, validateConfig } from "../validation/validate";
+import { CONFIG_SECTIONS, configSetSchema } from "./sections";
+import { ConfigOverlay, applyConfigOverlays } from "./overlay";
+
+/**
+ * File extensions a section can be written in, in lookup order.
+ */
+export const CONFIG_FILE_EXTENSIONS = [".ts", ".js", ".yaml", ".yml", ".json"];
+
+/**
+ * Reads one section file: the default export of a TypeScript or JavaScript
+ * module, or the document of a YAML or JSON file.
+ */
+function readSectionFile(file: string): unknown {
+  switch (path.extname(file)) {
+    case ".yaml":
+    case ".yml":
+      return yaml.safeLoad(fs.readFileSync(file, "utf8"), { filename: file });
+    case ".json":
+      return JSON.parse(fs.readFileSync(file, "utf8"));
+    default: {
+      const module = require(file);
+      return module.default ?? module;
+    }
+  }
+}
+
+/**
+ * Validates an in-memory configuration set against the schema, then checks
+ * its cross-references (see validateConfig).
+ *
+ * @param value - The configuration set, e.g. read from files.
+ * @returns The configuration set, typed.
+ * @throws ConfigValidationError listing every issue with its path, e.g. `users[3].groups[1]`.
+ */
+export function parseConfigSet(value: unknown): ConfigSet {
+  const issues: ConfigIssue[] = [];
+  const config = configSetSchema.parse(value, "", issues);
+  if (issues.length === 0) {
+    issues.push(...validateConfig(config));
+  }
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return config;
+}
+
+/**
+ * Options of loadConfig.
+ */
+export interface LoadConfigOptions {
+  /** Applied on top of the section files, in order; see applyConfigOverlays. */
+  overlays?: ConfigOverlay[];
+}
+
+/**
+ * Loads the configuration set from a directory holding one file per section
+ * (`organization`, `users`, ...) written in TypeScript, JavaScript, YAML or
+ * JSON, applies the overlays and validates the result. This is the only way
+ * stacks should obtain their configuration.
+ *
+ * @param directory - Directory of the section files.
+ * @param options - Overlays to apply, e.g. from the stack config.
+ * @returns The validated configuration set.
+ * @throws ConfigValidationError listing missing or unreadable sections, overlays
+ * that cannot be applied and every invalid value.
+ */
+export function loadConfig(directory: string, options: LoadConfigOptions = {}): ConfigSet {
+  const { overlays = [] } = options;
+  const issues: ConfigIssue[] = [];
+  const sections: Record<string, unknown> = {};
+
+  for (const [section, schema] of Object.entries(CONFIG_SECTIONS)) {
+    const files = CONFIG_FILE_EXTENSIONS
+      .map(extension => path.join(directory, `${section}${extension}`))
+      .filter(file => fs.existsSync(file));
+
+    if (files.length === 0) {
+      if (!schema.optional) {
+        issues.push({
+          kind: ConfigIssueKind.MISSING_SECTION,
+          path: section,
+          message: `no ${CONFIG_FILE_EXTENSIONS.map(extension => section + extension).join(", ")} in ${directory}`
+        });
+      }
+      continue;
+    }
+    if (files.length > 1) {
+      issues.push({
+        kind: ConfigIssueKind.INVALID_VALUE,
+        path: section,
+        message: `defined in several files: ${files.map(file => path.basename(file)).join(", ")}`
+      });
+      continue;
+    }
+
+    try {
+      sections[section] = readSectionFile(files[0]);
+    } catch (error) {
+      issues.push({
+        kind: ConfigIssueKind.INVALID_VALUE,
+        path: section,
+        message: `${path.basename(files[0])} could not be read: ${(error as Error).message}`
+      });
+    }
+  }
+
+  const merged = applyConfigOverlays(sections, overlays, issues);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return parseConfigSet(merged);
+}
+
+/**
+ * Extensions of the section files `tsc` does not emit.
+ */
+const DATA_FILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Mirrors the YAML and JSON section files of a source directory into the
+ * directory `tsc` compiles it to, so the compiled scripts load the same
+ * sections as the stacks. Data files no longer in the source directory are
+ * removed, as are compiled modules of sections now written as data files.
+ *
+ * @param sourceDirectory - Directory of the section files, e.g. `shared/config`.
+ * @param outputDirectory - Its compiled counterpart, e.g. `bin/shared/config`.
+ * @returns Names of the files copied.
+ */
+export function copyConfigSections(sourceDirectory: string, outputDirectory: string): string[] {
+  const copied: string[] = [];
+  fs.mkdirSync(outputDirectory, { recursive: true });
+
+  for (const section of Object.keys(CONFIG_SECTIONS)) {
+    const dataFiles = DATA_FILE_EXTENSIONS
+      .map(extension => `${section}${extension}`)
+      .filter(file => fs.existsSync(path.join(sourceDirectory, file)));
+    const stale = DATA_FILE_EXTENSIONS
+      .map(extension => `${section}${extension}`)
+      .filter(file => !dataFiles.includes(file));
+    if (dataFiles.length > 0 && !fs.existsSync(path.join(sourceDirectory, `${section}.ts`))) {
+      stale.push(`${section}.js`, `${section}.js.map`);
+    }
+
+    for (const file of stale) {
+      fs.rmSync(path.join(outputDirectory, file), { force: true });
+    }
+    for (const file of dataFiles) {
+      fs.copyFileSync(path.join(sourceDirectory, file), path.join(outputDirectory, file));
+      copied.push(file);
+    }
+  }
+  return copied;
+}
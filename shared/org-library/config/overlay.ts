@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import * as pulumi from "@pulumi/pulumi";
+import * as yaml from "js-yaml";
+import { ConfigIssue, ConfigIssueKind } from "../validation/types";
+import { CONFIG_SECTIONS } from "./sections";
+
+/**
+ * Stack config key holding the overlay of a stack, under the project namespace,
+ * e.g. `aws-org-infrastructure:configOverlay` in Pulumi.dev.yaml.
+ */
+export const CONFIG_OVERLAY_KEY = "configOverlay";
+
+/**
+ * Overrides and additions applied on top of the base configuration sections.
+ */
+export interface ConfigOverlay {
+  /** Where the overlay comes from; prefixes the paths of its issues, e.g. `configOverlay`. */
+  name: string;
+  /** Partial configuration set: only the sections and values to change. */
+  values: unknown;
+}
+
+/**
+ * Properties identifying the entries of a list, in order of preference.
+ * Lists whose entries have one of them are merged entry by entry.
+ */
+const ENTRY_KEYS = ["username", "name"];
+
+/** Marks an overlay list entry that removes the base entry with the same key. */
+const REMOVE = "$remove";
+/** Wraps a list that replaces the base list instead of being merged into it. */
+const REPLACE = "$replace";
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The property identifying the entries of a list, or undefined when its
+ * entries are not objects with a name.
+ */
+function entryKey(...lists: unknown[][]): string | undefined {
+  const entry = lists.flat().find(isObject);
+  return entry && ENTRY_KEYS.find(key => typeof entry[key] === "string");
+}
+
+/**
+ * Merges a list entry by entry: overlay entries update the base entry with
+ * the same key, are appended when new, or remove it with `$remove: true`.
+ */
+function mergeEntries(base: unknown[], overlay: unknown[], key: string, path: string, issues: ConfigIssue[]): unknown[] {
+  const result = [...base];
+  overlay.forEach((entry, i) => {
+    const entryPath = `${path}[${i}]`;
+    if (!isObject(entry) || typeof entry[key] !== "string") {
+      issues.push({
+        kind: ConfigIssueKind.INVALID_VALUE,
+        path: entryPath,
+        message: `entries of this list are matched by "${key}"; set it, or wrap the list in ${REPLACE} to replace it`
+      });
+      return;
+    }
+    const index = result.findIndex(candidate => isObject(candidate) && candidate[key] === entry[key]);
+    const { [REMOVE]: remove, ...values } = entry;
+    if (remove === true) {
+      if (index === -1) {
+        issues.push({
+          kind: ConfigIssueKind.DANGLING_REFERENCE,
+          path: entryPath,
+          message: `cannot remove ${key} "${entry[key]}": it is not in the configuration being overlaid`
+        });
+      } else {
+        result.splice(index, 1);
+      }
+    } else if (index === -1) {
+      result.push(mergeValue(undefined, values, entryPath, issues));
+    } else {
+      result[index] = mergeValue(result[index], values, entryPath, issues);
+    }
+  });
+  return result;
+}
+
+/**
+ * Merges an overlay value into a base value without modifying either:
+ * - objects are merged property by property, and a `null` property removes it;
+ * - lists of named entries are merged with mergeEntries;
+ * - `{ "$replace": [...] }` and any other value replace the base value.
+ */
+function mergeValue(base: unknown, overlay: unknown, path: string, issues: ConfigIssue[]): unknown {
+  if (isObject(overlay) && REPLACE in overlay) {
+    if (Object.keys(overlay).length > 1) {
+      issues.push({
+        kind: ConfigIssueKind.INVALID_VALUE,
+        path,
+        message: `${REPLACE} cannot be combined with other properties`
+      });
+    }
+    return overlay[REPLACE];
+  }
+  if (Array.isArray(overlay)) {
+    const baseList = Array.isArray(base) ? base : [];
+    const key = entryKey(baseList, overlay);
+    return key ? mergeEntries(baseList, overlay, key, path, issues) : overlay;
+  }
+  if (isObject(overlay)) {
+    const result: Record<string, unknown> = isObject(base) ? { ...base } : {};
+    for (const [property, value] of Object.entries(overlay)) {
+      if (value === null) {
+        delete result[property];
+      } else {
+        result[property] = mergeValue(result[property], value, path ? `${path}.${property}` : property, issues);
+      }
+    }
+    return result;
+  }
+  return overlay;
+}
+
+/**
+ * Applies overlays to the configuration sections, in order: each overlay is
+ * merged into the result of the previous ones (see mergeValue for the rules).
+ *
+ * @param sections - Base configuration sections keyed by section name.
+ * @param overlays - Overlays in the order they apply.
+ * @param issues - Receives overlays that name unknown sections or cannot be applied.
+ * @returns The merged sections; the inputs are not modified.
+ */
+export function applyConfigOverlays(
+  sections: Record<string, unknown>,
+  overlays: ConfigOverlay[],
+  issues: ConfigIssue[]
+): Record<string, unknown> {
+  let result = sections;
+  for (const { name, values } of overlays) {
+    if (!isObject(values)) {
+      issues.push({ kind: ConfigIssueKind.INVALID_VALUE, path: name, message: "an overlay must be an object of sections" });
+      continue;
+    }
+    for (const section of Object.keys(values)) {
+      if (!(section in CONFIG_SECTIONS)) {
+        issues.push({
+          kind: ConfigIssueKind.INVALID_VALUE,
+          path: `${name}.${section}`,
+          message: `unknown section; expected one of ${Object.keys(CONFIG_SECTIONS).join(", ")}`
+        });
+      }
+    }
+    result = mergeValue(result, values, name, issues) as Record<string, unknown>;
+  }
+  return result;
+}
+
+/**
+ * The overlay of the current stack, from its Pulumi config. Empty outside a
+ * Pulumi program or when the stack sets no overlay.
+ *
+ * @param namespace - Config namespace, i.e. the Pulumi project name.
+ */
+export function stackConfigOverlays(namespace: string): ConfigOverlay[] {
+  const values = new pulumi.Config(namespace).getObject<unknown>(CONFIG_OVERLAY_KEY);
+  return values === undefined ? [] : [{ name: CONFIG_OVERLAY_KEY, values }];
+}
+
+/**
+ * The overlay set in a stack config file such as Pulumi.dev.yaml, for tools
+ * that run outside a Pulumi program.
+ *
+ * @param file - Path of the stack config file.
+ * @param namespace - Config namespace, i.e. the Pulumi project name.
+ */
+export function readStackConfigOverlays(file: string, namespace: string): ConfigOverlay[] {
+  const document = yaml.safeLoad(fs.readFileSync(file, "utf8")) as { config?: Record<string, unknown> } | undefined;
+  const values = document?.config?.[`${namespace}:${CONFIG_OVERLAY_KEY}`];
+  return values === undefined ? [] : [{ name: CONFIG_OVERLAY_KEY, values }];
+}
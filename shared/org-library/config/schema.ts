@@ -0,0 +1,298 @@
+import { ConfigIssue, ConfigIssueKind } from "../validation/types";
+
+/**
+ * Validates an untyped configuration value and returns it typed as T.
+ * Problems are appended to `issues` with the path of the offending value;
+ * the returned value is only meaningful when no issue was added.
+ */
+export interface Schema<T> {
+  /** What the schema accepts, used in messages, e.g. `array of string`. */
+  readonly description: string;
+  /** Set by optional(): the property may be omitted. */
+  readonly optional?: boolean;
+  parse(value: unknown, path: string, issues: ConfigIssue[]): T;
+}
+
+/**
+ * One schema per property of T; optional properties use optional().
+ */
+export type ObjectFields<T> = {
+  [K in keyof T]-?: Schema<T[K]>;
+};
+
+/**
+ * Path of a property below `path`, e.g. `users[3].groups`.
+ */
+function propertyPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function invalid(issues: ConfigIssue[], path: string, message: string): void {
+  issues.push({ kind: ConfigIssueKind.INVALID_VALUE, path, message });
+}
+
+/**
+ * Describes a value for messages: its type, and the value itself for scalars.
+ */
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (typeof value === "object") {
+    return "an object";
+  }
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A string, optionally matching a pattern.
+ *
+ * @param options - `pattern` the string must match, described by `description` in messages.
+ */
+export function string(options: { pattern?: RegExp; description?: string } = {}): Schema<string> {
+  const { pattern, description = pattern ? `string matching ${pattern}` : "string" } = options;
+  return {
+    description,
+    parse(value, path, issues) {
+      if (typeof value !== "string") {
+        invalid(issues, path, `expected a string, got ${describeValue(value)}`);
+      } else if (pattern && !pattern.test(value)) {
+        invalid(issues, path, `"${value}" is not a ${description}`);
+      }
+      return value as string;
+    }
+  };
+}
+
+/**
+ * A number, optionally an integer within a range.
+ */
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  const { integer = false, min, max } = options;
+  return {
+    description: integer ? "integer" : "number",
+    parse(value, path, issues) {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        invalid(issues, path, `expected a number, got ${describeValue(value)}`);
+      } else if (integer && !Number.isInteger(value)) {
+        invalid(issues, path, `expected an integer, got ${value}`);
+      } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        invalid(issues, path, `${value} is not between ${min ?? "-Infinity"} and ${max ?? "Infinity"}`);
+      }
+      return value as number;
+    }
+  };
+}
+
+/**
+ * A boolean.
+ */
+export function boolean(): Schema<boolean> {
+  return {
+    description: "boolean",
+    parse(value, path, issues) {
+      if (typeof value !== "boolean") {
+        invalid(issues, path, `expected a boolean, got ${describeValue(value)}`);
+      }
+      return value as boolean;
+    }
+  };
+}
+
+/**
+ * One of a fixed list of strings.
+ */
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  const description = values.map(value => JSON.stringify(value)).join(" | ");
+  return {
+    description,
+    parse(value, path, issues) {
+      if (!values.includes(value as T)) {
+        invalid(issues, path, `expected one of ${description}, got ${describeValue(value)}`);
+      }
+      return value as T;
+    }
+  };
+}
+
+/**
+ * One of the values of a string enum.
+ */
+export function enumeration<T extends string>(values: { [key: string]: T }): Schema<T> {
+  return literal(...Object.values(values));
+}
+
+/**
+ * Makes a property optional: undefined is accepted, anything else must match `schema`.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `optional ${schema.description}`,
+    optional: true,
+    parse: (value, path, issues) => value === undefined ? undefined : schema.parse(value, path, issues)
+  };
+}
+
+/**
+ * An array whose items match `item`.
+ */
+export function array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+  const { minLength = 0 } = options;
+  return {
+    description: `array of ${item.description}`,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        invalid(issues, path, `expected an array, got ${describeValue(value)}`);
+        return value as T[];
+      }
+      if (value.length < minLength) {
+        invalid(issues, path, `expected at least ${minLength} item${minLength === 1 ? "" : "s"}`);
+      }
+      return value.map((entry, i) => item.parse(entry, `${path}[${i}]`, issues));
+    }
+  };
+}
+
+/**
+ * A single value or an array of values matching `item`, as IAM allows for
+ * Action, Resource and condition values.
+ */
+export function oneOrMany<T>(item: Schema<T>): Schema<T | T[]> {
+  const many = array(item);
+  return {
+    description: `${item.description} or ${many.description}`,
+    parse: (value, path, issues) => Array.isArray(value) ? many.parse(value, path, issues) : item.parse(value, path, issues)
+  };
+}
+
+/**
+ * An object with arbitrary keys whose values match `value`.
+ *
+ * @param options - `keys` the keys must match, and `requiredKeys` that must be present.
+ */
+export function record<T, K extends string = never>(
+  value: Schema<T>,
+  options: { keys?: Schema<string>; requiredKeys?: K[] } = {}
+): Schema<{ [key: string]: T } & { [key in K]: T }> {
+  const { keys, requiredKeys = [] } = options;
+  return {
+    description: `map of ${value.description}`,
+    parse(input, path, issues) {
+      if (!isObject(input)) {
+        invalid(issues, path, `expected an object, got ${describeValue(input)}`);
+        return input as { [key: string]: T } & { [key in K]: T };
+      }
+      for (const key of requiredKeys) {
+        if (input[key] === undefined) {
+          invalid(issues, propertyPath(path, key), "is required");
+        }
+      }
+      return Object.fromEntries(Object.entries(input).map(([key, entry]) => {
+        keys?.parse(key, propertyPath(path, key), issues);
+        return [key, value.parse(entry, propertyPath(path, key), issues)];
+      })) as { [key: string]: T } & { [key in K]: T };
+    }
+  };
+}
+
+/**
+ * A schema for an object with known properties. Unknown properties are
+ * reported so misspelled keys do not go unnoticed.
+ */
+export interface ObjectSchema<T> extends Schema<T> {
+  readonly fields: ObjectFields<T>;
+}
+
+/**
+ * An object with exactly the properties in `fields`.
+ */
+export function object<T>(fields: ObjectFields<T>): ObjectSchema<T> {
+  const known = Object.keys(fields);
+  return {
+    description: `object with ${known.join(", ")}`,
+    fields,
+    parse(value, path, issues) {
+      if (!isObject(value)) {
+        invalid(issues, path, `expected an object, got ${describeValue(value)}`);
+        return value as T;
+      }
+      for (const key of Object.keys(value)) {
+        if (!known.includes(key)) {
+          invalid(issues, propertyPath(path, key), `unknown property; expected one of ${known.join(", ")}`);
+        }
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(fields) as [string, Schema<unknown>][]) {
+        if (value[key] === undefined) {
+          if (!schema.optional) {
+            invalid(issues, propertyPath(path, key), "is required");
+          }
+          continue;
+        }
+        result[key] = schema.parse(value[key], propertyPath(path, key), issues);
+      }
+      return result as T;
+    }
+  };
+}
+
+/**
+ * The first of `schemas` the value matches. When none matches, a single
+ * issue lists the alternatives.
+ */
+export function union<T>(...schemas: Schema<T>[]): Schema<T> {
+  const description = schemas.map(schema => schema.description).join(" | ");
+  return {
+    description,
+    parse(value, path, issues) {
+      for (const schema of schemas) {
+        const candidateIssues: ConfigIssue[] = [];
+        const result = schema.parse(value, path, candidateIssues);
+        if (candidateIssues.length === 0) {
+          return result;
+        }
+      }
+      invalid(issues, path, `expected ${description}, got ${describeValue(value)}`);
+      return value as T;
+    }
+  };
+}
+
+/**
+ * Defers building a schema, for recursive structures such as nested OUs.
+ *
+ * @param build - Returns the schema; called on first use.
+ * @param description - What the schema accepts, since it cannot be asked before it exists.
+ */
+export function lazy<T>(build: () => Schema<T>, description: string): Schema<T> {
+  let schema: Schema<T> | undefined;
+  return {
+    description,
+    parse: (value, path, issues) => (schema ??= build()).parse(value, path, issues)
+  };
+}
+
+/**
+ * Adds checks across properties to a schema. `check` runs only when the value
+ * matched `schema` and returns the messages to report at the value's path.
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => string[]): Schema<T> {
+  return {
+    ...schema,
+    parse(value, path, issues) {
+      const before = issues.length;
+      const result = schema.parse(value, path, issues);
+      if (issues.length === before) {
+        check(result).forEach(message => invalid(issues, path, message));
+      }
+      return result;
+    }
+  };
+}
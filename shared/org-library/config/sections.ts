@@ -0,0 +1,345 @@
+import {
+  AccountBaselineConfig,
+  AccountConfig,
+  AccountContactConfig,
+  AccountPasswordPolicyConfig,
+  ConfigSet,
+  EnvironmentConfig,
+  GroupConfig,
+  OrganizationalUnitConfig,
+  OrganizationConfig,
+  PolicyConfig,
+  PolicyTargetConfig,
+  RoleConfig,
+  RoleOidcTrustConfig,
+  RoleTrustConditions,
+  RoleTrustConfig,
+  ServiceControlPolicyConfig,
+  TagPolicyConfig,
+  UserConfig
+} from "../config-types";
+import { OrganizationPolicyType, PolicyEnvironment, PolicyType, TagPolicyDocument } from "../policy/types";
+import { ConditionBlock, OneOrMany, PolicyDocument, PolicyStatement, Principal } from "../policyDocument/types";
+import { AcceptedPolicyLintFinding, PolicyLintConfig, PolicyLintRule, PolicyLintSeverity } from "../lint/types";
+import { AcceptedEscalation, EscalationPattern, PrivilegeEscalationConfig } from "../escalation/types";
+import {
+  ACCOUNT_EMAIL_PLACEHOLDERS,
+  EMAIL_ADDRESS_PATTERN,
+  renderAccountEmail,
+  unknownEmailPlaceholders
+} from "../account/email";
+import {
+  ObjectFields,
+  Schema,
+  array,
+  boolean,
+  enumeration,
+  lazy,
+  literal,
+  number,
+  object,
+  oneOrMany,
+  optional,
+  record,
+  refine,
+  string,
+  union
+} from "./schema";
+
+const strings = array(string());
+
+// Resource tags, with the Environment tag the tag policies and guardrails rely on
+const environmentTags = record(string(), { requiredKeys: ["Environment"] });
+
+// =========================================
+// Policy documents
+// =========================================
+
+const principal: Schema<Principal> = union<Principal>(
+  literal("*"),
+  object<{ AWS: OneOrMany<string> }>({ AWS: oneOrMany(string()) }),
+  object<{ Service: OneOrMany<string> }>({ Service: oneOrMany(string()) }),
+  object<{ Federated: OneOrMany<string> }>({ Federated: oneOrMany(string()) })
+);
+
+// Operators are checked by the policy linter, which knows the full list
+const conditionBlock = record(record(oneOrMany(string()))) as Schema<ConditionBlock>;
+
+// PolicyStatement is a union over the mutually exclusive pairs below;
+// the schema accepts the flat shape and checks the pairs separately
+interface StatementFields {
+  Sid?: string;
+  Effect: "Allow" | "Deny";
+  Condition?: ConditionBlock;
+  Action?: OneOrMany<string>;
+  NotAction?: OneOrMany<string>;
+  Resource?: OneOrMany<string>;
+  NotResource?: OneOrMany<string>;
+  Principal?: Principal;
+  NotPrincipal?: Principal;
+}
+
+const exclusivePairs: [keyof StatementFields, keyof StatementFields][] = [
+  ["Action", "NotAction"],
+  ["Resource", "NotResource"],
+  ["Principal", "NotPrincipal"]
+];
+
+const policyStatement = refine(
+  object<StatementFields>({
+    Sid: optional(string()),
+    Effect: literal("Allow", "Deny"),
+    Condition: optional(conditionBlock),
+    Action: optional(oneOrMany(string())),
+    NotAction: optional(oneOrMany(string())),
+    Resource: optional(oneOrMany(string())),
+    NotResource: optional(oneOrMany(string())),
+    Principal: optional(principal),
+    NotPrincipal: optional(principal)
+  }),
+  statement => [
+    ...(statement.Action === undefined && statement.NotAction === undefined
+      ? ["a statement needs Action or NotAction"]
+      : []),
+    ...exclusivePairs
+      .filter(([a, b]) => statement[a] !== undefined && statement[b] !== undefined)
+      .map(([a, b]) => `a statement cannot have both ${a} and ${b}`)
+  ]
+) as Schema<unknown> as Schema<PolicyStatement>;
+
+export const policyDocumentSchema = object<PolicyDocument>({
+  Version: literal("2008-10-17", "2012-10-17"),
+  Id: optional(string()),
+  Statement: array(policyStatement, { minLength: 1 })
+});
+
+type TagPolicyEntry = TagPolicyDocument["tags"][string];
+
+export const tagPolicyDocumentSchema = object<TagPolicyDocument>({
+  tags: record(object<TagPolicyEntry>({
+    tag_key: optional(object<NonNullable<TagPolicyEntry["tag_key"]>>({
+      "@@assign": optional(string()),
+      "@@operators_allowed_for_child_policies": optional(strings)
+    })),
+    tag_value: optional(object<NonNullable<TagPolicyEntry["tag_value"]>>({
+      "@@assign": optional(strings),
+      "@@allowlist": optional(strings),
+      "@@operators_allowed_for_child_policies": optional(strings)
+    })),
+    enforced_for: optional(object<NonNullable<TagPolicyEntry["enforced_for"]>>({
+      "@@assign": optional(strings),
+      "@@operators_allowed_for_child_policies": optional(strings)
+    }))
+  }))
+});
+
+// =========================================
+// Organization, OUs and accounts
+// =========================================
+
+const organizationPolicyTypes = Object.values(PolicyType)
+  .filter(type => type !== PolicyType.IAM) as OrganizationPolicyType[];
+
+const organizationSchema = object<OrganizationConfig>({
+  name: string(),
+  accountEmailTemplate: optional(refine(string(), template => [
+    ...unknownEmailPlaceholders(template).map(placeholder =>
+      `unknown placeholder {${placeholder}}; expected ${ACCOUNT_EMAIL_PLACEHOLDERS.map(name => `{${name}}`).join(", ")}`),
+    ...(EMAIL_ADDRESS_PATTERN.test(renderAccountEmail(template, { ou: "ou", name: "name" }))
+      ? []
+      : [`template "${template}" does not produce an email address`])
+  ])),
+  orgArgs: object<OrganizationConfig["orgArgs"]>({
+    awsServiceAccessPrincipals: strings,
+    awsManagedPolicyTypes: array(literal(...organizationPolicyTypes)),
+    featureSet: literal("ALL", "CONSOLIDATED_BILLING")
+  })
+});
+
+const accountBaselineSchema = object<AccountBaselineConfig>({
+  // Aliases are lowercase letters, digits and hyphens, starting with a letter or digit
+  aliasPrefix: optional(string({ pattern: /^[a-z0-9][a-z0-9-]*$/, description: "account alias prefix" })),
+  passwordPolicy: optional(object<AccountPasswordPolicyConfig>({
+    minimumPasswordLength: optional(number({ integer: true, min: 6, max: 128 })),
+    requireLowercaseCharacters: optional(boolean()),
+    requireUppercaseCharacters: optional(boolean()),
+    requireNumbers: optional(boolean()),
+    requireSymbols: optional(boolean()),
+    allowUsersToChangePassword: optional(boolean()),
+    maxPasswordAge: optional(number({ integer: true, min: 1, max: 1095 })),
+    passwordReusePrevention: optional(number({ integer: true, min: 1, max: 24 })),
+    hardExpiry: optional(boolean())
+  })),
+  ebsDefaultEncryption: optional(boolean()),
+  s3PublicAccessBlock: optional(boolean()),
+  restrictDefaultVpc: optional(boolean())
+});
+
+const organizationalUnitSchema: Schema<OrganizationalUnitConfig> = object<OrganizationalUnitConfig>({
+  name: string(),
+  baseline: optional(accountBaselineSchema),
+  children: optional(record(lazy(() => organizationalUnitSchema, "organizational unit")))
+});
+
+const accountContactSchema = object<AccountContactConfig>({
+  name: string(),
+  title: string(),
+  emailAddress: string({ pattern: EMAIL_ADDRESS_PATTERN, description: "email address" }),
+  phoneNumber: string({ pattern: /^\+?[0-9][0-9 ()-]*$/, description: "phone number" })
+});
+
+const accountSchema = object<AccountConfig>({
+  name: string(),
+  email: optional(string()),
+  id: optional(string({ pattern: /^\d{12}$/, description: "12-digit account ID" })),
+  imported: optional(boolean()),
+  tags: optional(record(string())),
+  closeOnDeletion: optional(boolean()),
+  iamUserAccessToBilling: optional(literal("ALLOW", "DENY")),
+  // IAM role names: up to 64 letters, digits and +=,.@_-
+  roleName: optional(string({ pattern: /^[\w+=,.@-]{1,64}$/, description: "IAM role name" })),
+  alternateContacts: optional(object<NonNullable<AccountConfig["alternateContacts"]>>({
+    billing: optional(accountContactSchema),
+    operations: optional(accountContactSchema),
+    security: optional(accountContactSchema)
+  }))
+});
+
+const environmentSchema = object<EnvironmentConfig>({
+  name: string(),
+  displayName: string(),
+  ou: optional(string()),
+  policySet: optional(string()),
+  policyEnvironment: optional(enumeration(PolicyEnvironment)),
+  production: optional(boolean())
+});
+
+// =========================================
+// Policies
+// =========================================
+
+const policySchema = object<PolicyConfig>({
+  name: string(),
+  description: optional(string()),
+  document: policyDocumentSchema,
+  tags: optional(record(string())),
+  environment: optional(string())
+});
+
+const policyTargetSchema = union<PolicyTargetConfig>(
+  literal("root"),
+  object<{ ou: string }>({ ou: string() }),
+  object<{ account: string }>({ account: string() })
+);
+
+const serviceControlPolicySchema = object<ServiceControlPolicyConfig>({
+  name: string(),
+  description: string(),
+  document: policyDocumentSchema,
+  targets: array(policyTargetSchema),
+  tags: optional(record(string()))
+});
+
+const tagPolicySchema = object<TagPolicyConfig>({
+  name: string(),
+  description: string(),
+  document: tagPolicyDocumentSchema,
+  targets: array(policyTargetSchema),
+  tags: optional(record(string()))
+});
+
+// =========================================
+// Roles, groups and users
+// =========================================
+
+const roleTrustSchema = object<RoleTrustConfig>({
+  users: optional(strings),
+  groups: optional(strings),
+  accounts: optional(strings),
+  services: optional(strings),
+  oidcProviders: optional(array(object<RoleOidcTrustConfig>({
+    url: string(),
+    audiences: optional(strings),
+    subjects: optional(strings)
+  }))),
+  conditions: optional(object<RoleTrustConditions>({
+    mfaRequired: optional(boolean()),
+    maxSessionDuration: optional(number({ integer: true, min: 3600, max: 43200 })),
+    externalId: optional(string())
+  }))
+});
+
+const roleSchema = object<RoleConfig>({
+  name: string(),
+  description: string(),
+  policyArns: strings,
+  permissionsBoundary: optional(string()),
+  trust: optional(roleTrustSchema),
+  tags: environmentTags
+});
+
+const groupSchema = object<GroupConfig>({
+  name: string(),
+  description: string(),
+  policyArns: optional(strings),
+  policies: optional(strings),
+  tags: environmentTags,
+  environment: string()
+});
+
+const userSchema = object<UserConfig>({
+  username: string(),
+  email: string(),
+  description: string(),
+  groups: optional(strings),
+  managedPolicies: optional(strings),
+  assumeRoles: optional(strings),
+  environment: string(),
+  tags: environmentTags
+});
+
+// =========================================
+// Analysis settings
+// =========================================
+
+const policyLintSchema = object<PolicyLintConfig>({
+  severities: optional(record(enumeration(PolicyLintSeverity), { keys: enumeration(PolicyLintRule) })),
+  accepted: optional(array(object<AcceptedPolicyLintFinding>({
+    rule: enumeration(PolicyLintRule),
+    path: string(),
+    reason: string()
+  })))
+});
+
+const privilegeEscalationSchema = object<PrivilegeEscalationConfig>({
+  accepted: optional(array(object<AcceptedEscalation>({
+    pattern: enumeration(EscalationPattern),
+    principal: string({ pattern: /^(user|role) \S+$/, description: `"user <name>" or "role <name>"` }),
+    environment: optional(string()),
+    reason: string()
+  })))
+});
+
+/**
+ * Schemas of the configuration sections, keyed by section. Each section is
+ * read from the file of the same name, e.g. `users.ts` or `users.yaml`.
+ */
+export const CONFIG_SECTIONS: ObjectFields<ConfigSet> = {
+  organization: organizationSchema,
+  organizationalUnits: record(organizationalUnitSchema),
+  accounts: record(array(accountSchema)),
+  environments: record(environmentSchema),
+  policies: record(array(policySchema)),
+  serviceControlPolicies: array(serviceControlPolicySchema),
+  tagPolicies: array(tagPolicySchema),
+  roles: record(array(roleSchema)),
+  groups: array(groupSchema),
+  users: array(userSchema),
+  policyLint: optional(policyLintSchema),
+  privilegeEscalation: optional(privilegeEscalationSchema)
+};
+
+/**
+ * Schema of a complete configuration set.
+ */
+export const configSetSchema = object<ConfigSet>(CONFIG_SECTIONS);
@@ -0,0 +1,347 @@
+import * as aws from "@pulumi/aws";
+import * as pulumi from "@pulumi/pulumi";
+import { createPolicy } from "../policy";
+import { createIamGroup } from "../group";
+import { createIamUser } from "../user";
+import { buildTrustPolicy, createIamRole } from "../role";
+import { RoleResult } from "../role/types";
+import { logicalName, NamedPolicyArn } from "../naming";
+import { PolicyConfig } from "../config-types";
+import { PolicyEnvironment, PolicyResult, PolicyType } from "../policy/types";
+import { GroupResult } from "../group/types";
+import { UserResult } from "../user/types";
+import { assertValidConfig } from "../validation";
+import { assertPolicyLint } from "../lint";
+import { assertNoPrivilegeEscalation } from "../escalation";
+import { createAccountProviders, foundationAccountId } from "../account";
+import { FoundationAccounts } from "../account/types";
+import { environmentGroups, environmentUsers } from "./membership";
+import {
+  EnvironmentResourceOutputs,
+  EnvironmentStackOptions,
+  EnvironmentStackResult
+} from "./types";
+
+/**
+ * Key of the account of the stack's credentials in the per-account stack
+ * outputs, used while the environment's OU has no member accounts.
+ */
+export const CREDENTIALS_ACCOUNT = "default";
+
+/**
+ * An account the IAM resources of an environment are deployed into.
+ */
+interface AccountTarget {
+  /** Name of the member account; undefined for the account of the stack's credentials. */
+  account?: string;
+  accountId: pulumi.Input<string>;
+  /** Provider assuming a role in the member account. */
+  provider?: aws.Provider;
+}
+
+/**
+ * Records a created resource in the { arn, name } shape exported by the
+ * stack, under its configured name and the account it is created in.
+ */
+function addResourceOutput(
+  outputs: EnvironmentResourceOutputs,
+  name: string,
+  account: string,
+  resource: { arn: pulumi.Input<string>; name: pulumi.Input<string> }
+): void {
+  outputs[name] = {
+    ...outputs[name],
+    [account]: {
+      arn: pulumi.output(resource.arn),
+      name: pulumi.output(resource.name)
+    }
+  };
+}
+
+/**
+ * Creates the IAM resources of one environment from the shared configuration:
+ * policies, groups, roles, users, the SSM role parameter and the stack outputs.
+ * The policies, groups, roles and users are created in every member account of
+ * the environment's OU, through a provider assuming a role in the account.
+ *
+ * @param environment - Name of the environment, a key of the environments config.
+ * @param options - Configuration set, foundation stack reference and access role.
+ * @returns The created resources and the outputs to export from the stack.
+ */
+export function createEnvironmentStack(
+  environment: string,
+  options: EnvironmentStackOptions
+): EnvironmentStackResult {
+  const { config, foundationStack = "foundation", accessRoleName } = options;
+
+  // Fail before registering any resources if the configuration is inconsistent,
+  // a policy document has lint errors or the environment has unaccepted
+  // privilege escalation paths
+  assertValidConfig(config);
+  assertPolicyLint(config);
+
+  const envConfig = config.environments[environment];
+  if (!envConfig) {
+    throw new Error(`Unknown environment "${environment}"`);
+  }
+  assertNoPrivilegeEscalation(config, environment);
+  const { displayName, policySet, ou = environment } = envConfig;
+  const policyEnvironment = envConfig.policyEnvironment ?? (environment as PolicyEnvironment);
+
+  // Reference the foundation stack
+  const foundation = new pulumi.StackReference(foundationStack);
+  const organizationalUnits = foundation.getOutput("organizationalUnits");
+  const accounts = foundation.getOutput("accounts") as pulumi.Output<FoundationAccounts>;
+
+  // Deploy into the member accounts of the environment's OU, or into the
+  // account of the stack's credentials while the OU has none
+  const accountNames = (config.accounts[ou] || []).map(account => account.name);
+  const providers = createAccountProviders(accounts, accountNames, {
+    roleName: accessRoleName,
+    sessionName: `pulumi-${environment}`
+  });
+  const targets: AccountTarget[] = accountNames.map(account => ({
+    account,
+    accountId: foundationAccountId(accounts, account),
+    provider: providers.get(account)
+  }));
+  if (targets.length === 0) {
+    pulumi.log.warn(`OU "${ou}" has no accounts; the ${environment} IAM resources are created ` +
+      "in the account of the stack's credentials");
+    targets.push({ accountId: aws.getCallerIdentityOutput().accountId });
+  }
+
+  const managedPolicies = new Map<string, PolicyResult>();
+  const environmentPolicies = new Map<string, PolicyResult>();
+  const groups = new Map<string, GroupResult>();
+  const roles = new Map<string, RoleResult>();
+  const users = new Map<string, UserResult>();
+  const roleOutputs: EnvironmentResourceOutputs = {};
+  const managedPolicyOutputs: EnvironmentResourceOutputs = {};
+  const environmentPolicyOutputs: EnvironmentResourceOutputs = {};
+
+  const environmentPolicyConfigs: PolicyConfig[] = policySet ? config.policies[policySet] || [] : [];
+  const environmentRoles = config.roles[environment] || [];
+
+  for (const target of targets) {
+    // Resources in member accounts are prefixed with the account name, so
+    // every account of the OU can hold the same set
+    const named = (name: string) => target.account ? logicalName(target.account, name) : name;
+    const opts = target.provider && { provider: target.provider };
+    const outputAccount = target.account ?? CREDENTIALS_ACCOUNT;
+
+    // =========================================
+    // Environment IAM Policies
+    // =========================================
+
+    // Create managed policies
+    const accountManagedPolicies = new Map<string, PolicyResult>();
+    for (const policy of config.policies.managedPolicies || []) {
+      const result = createPolicy({
+        name: named(policy.name),
+        type: PolicyType.IAM,
+        description: `Managed policy for ${policy.name}`,
+        document: policy.document,
+        path: "/managed-policies/",
+        tags: {
+          Environment: "all",
+          ManagedBy: "pulumi"
+        }
+      }, opts);
+      accountManagedPolicies.set(policy.name, result);
+      managedPolicies.set(named(policy.name), result);
+      addResourceOutput(managedPolicyOutputs, policy.name, outputAccount, { arn: result.arn, name: result.policy.name });
+    }
+
+    // Create environment-specific policies
+    const accountEnvironmentPolicies = new Map<string, PolicyResult>();
+    for (const policy of environmentPolicyConfigs) {
+      const result = createPolicy({
+        name: named(policy.name),
+        type: PolicyType.IAM,
+        environment: policyEnvironment,
+        description: `${displayName} environment policy: ${policy.name}`,
+        document: policy.document,
+        path: `/env/${environment}/`,
+        tags: {
+          Environment: environment,
+          ManagedBy: "pulumi"
+        }
+      }, opts);
+      accountEnvironmentPolicies.set(policy.name, result);
+      environmentPolicies.set(named(policy.name), result);
+      addResourceOutput(environmentPolicyOutputs, policy.name, outputAccount, { arn: result.arn, name: result.policy.name });
+    }
+
+    // Resolves a policy ARN, or the name of a policy created above, to its ARN
+    const resolvePolicyArn = (policy: string): pulumi.Input<string> => {
+      if (policy.startsWith("arn:")) {
+        return policy;
+      }
+      const result = accountManagedPolicies.get(policy) ?? accountEnvironmentPolicies.get(policy);
+      if (!result) {
+        throw new Error(`Policy "${policy}" is not created in environment "${environment}"`);
+      }
+      return result.arn;
+    };
+
+    // =========================================
+    // IAM Groups
+    // =========================================
+
+    const accountGroups = new Map<string, GroupResult>();
+    for (const groupConfig of environmentGroups(config, environment)) {
+      const policyArns = (groupConfig.policies || []).map(policyName => ({
+        name: policyName,
+        arn: resolvePolicyArn(policyName)
+      }));
+
+      const group = createIamGroup(named(groupConfig.name), {
+        path: "/groups/",
+        managedPolicyArns: [...(groupConfig.policyArns || []), ...policyArns]
+      }, opts);
+      accountGroups.set(groupConfig.name, group);
+      groups.set(named(groupConfig.name), group);
+    }
+
+    // =========================================
+    // IAM Roles
+    // =========================================
+
+    const accountRoles = new Map<string, RoleResult>();
+    for (const roleConfig of environmentRoles) {
+      // Trust only the principals declared for the role
+      const assumeRolePolicy = buildTrustPolicy(roleConfig, {
+        accountId: target.accountId,
+        accounts,
+        users: config.users
+      });
+
+      const role = createIamRole(named(roleConfig.name), {
+        name: roleConfig.name,
+        description: roleConfig.description,
+        assumeRolePolicy,
+        maxSessionDuration: roleConfig.trust?.conditions?.maxSessionDuration,
+        managedPolicyArns: roleConfig.policyArns,
+        permissionsBoundary: roleConfig.permissionsBoundary && resolvePolicyArn(roleConfig.permissionsBoundary),
+        tags: {
+          Environment: environment,
+          ManagedBy: "pulumi"
+        }
+      }, opts);
+
+      accountRoles.set(roleConfig.name, role);
+      roles.set(named(roleConfig.name), role);
+      addResourceOutput(roleOutputs, roleConfig.name, outputAccount, role);
+    }
+
+    // =========================================
+    // IAM Users
+    // =========================================
+
+    for (const user of environmentUsers(config, environment)) {
+      // 1. Group Memberships
+      const userGroups = (user.groups || [])
+        .filter(group => accountGroups.has(group))
+        .map(group => accountGroups.get(group)!.name);
+
+      // 2. Direct Managed Policies
+      const userPolicies: NamedPolicyArn[] = (user.managedPolicies || [])
+        .filter(policyName => accountManagedPolicies.has(policyName))
+        .map(policyName => ({
+          name: policyName,
+          arn: accountManagedPolicies.get(policyName)!.arn,
+          aliases: [`${user.username}-${policyName}`]
+        }));
+
+      // 3. Role Assignments
+      const rolesToAssume = (user.assumeRoles || []).filter(role => accountRoles.has(role));
+      for (const roleName of rolesToAssume) {
+        const role = accountRoles.get(roleName)!;
+        const userAssumeRolePolicy = createPolicy({
+          name: named(`${user.username}-assume-${roleName}-policy`),
+          type: PolicyType.IAM,
+          description: `Policy allowing ${user.username} to assume role ${roleName}`,
+          document: {
+            Version: "2012-10-17" as const,
+            Statement: [{
+              Effect: "Allow",
+              Action: "sts:AssumeRole",
+              Resource: role.arn
+            }]
+          },
+          path: "/users/assume-role-policies/",
+          tags: {
+            User: user.username,
+            Role: roleName,
+            Environment: environment,
+            ManagedBy: "pulumi"
+          }
+        }, opts);
+        userPolicies.push({
+          name: `assume-${roleName}`,
+          arn: userAssumeRolePolicy.arn,
+          aliases: [`${user.username}-assume-${roleName}`]
+        });
+      }
+
+      const iamUser = createIamUser(named(user.username), {
+        name: user.username,
+        path: "/users/",
+        tags: {
+          Email: user.email,
+          Description: user.description,
+          Environment: environment,
+          ManagedBy: "pulumi"
+        },
+        // Production users keep their keys and MFA devices unless removed deliberately
+        forceDestroy: !envConfig.production,
+        groups: userGroups,
+        managedPolicyArns: userPolicies
+      }, opts);
+      users.set(named(user.username), iamUser);
+    }
+  }
+
+  // =========================================
+  // Environment-specific SSM Parameters
+  // =========================================
+
+  // The parameter stays in the account of the stack's credentials, next to
+  // the foundation stack's parameters, and lists the roles of every account
+  new aws.ssm.Parameter(`${environment}-roles`, {
+    name: `/environments/${environment}/roles`,
+    type: "SecureString",
+    value: pulumi.output(roleOutputs).apply(rs => JSON.stringify(rs)),
+    tags: {
+      ManagedBy: "Pulumi",
+      Component: "Roles",
+      Environment: environment
+    }
+  });
+
+  // =========================================
+  // Stack Outputs
+  // =========================================
+
+  return {
+    managedPolicies,
+    environmentPolicies,
+    groups,
+    roles,
+    users,
+    outputs: {
+      environment: {
+        name: environment,
+        ouId: organizationalUnits.apply(ous => ous[ou]?.id),
+        accounts: pulumi.output(Object.fromEntries(targets.flatMap(target =>
+          target.account ? [[target.account, target.accountId]] : [])))
+      },
+      roles: roleOutputs,
+      policies: {
+        managed: managedPolicyOutputs,
+        environment: environmentPolicyOutputs
+      }
+    }
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./factory";
+export * from "./membership";
+export * from "./types";
@@ -0,0 +1,34 @@
+import { ConfigSet, GroupConfig, RoleConfig, UserConfig } from "../config-types";
+
+/**
+ * Lists the groups an environment stack creates: the environment's own
+ * groups and those shared by all environments.
+ *
+ * @param config - The configuration set.
+ * @param environment - Name of the environment.
+ * @returns The group configurations, in config order.
+ */
+export function environmentGroups(config: ConfigSet, environment: string): GroupConfig[] {
+  return config.groups.filter(group => group.environment === environment || group.environment === "all");
+}
+
+/**
+ * Lists the users an environment stack creates: members of one of its
+ * groups, users that can assume one of its roles, and users whose primary
+ * environment is the environment or "all". Members of shared ("all") groups
+ * and users of the "all" environment are therefore created in every
+ * environment, production included.
+ *
+ * @param config - The configuration set.
+ * @param environment - Name of the environment.
+ * @returns The user configurations, in config order.
+ */
+export function environmentUsers(config: ConfigSet, environment: string): UserConfig[] {
+  const groups = new Set(environmentGroups(config, environment).map(group => group.name));
+  const roles: RoleConfig[] = config.roles[environment] || [];
+  return config.users.filter(user =>
+    user.groups?.some(group => groups.has(group)) ||
+    user.assumeRoles?.some(role => roles.some(envRole => envRole.name === role)) ||
+    user.environment === environment ||
+    user.environment === "all");
+}
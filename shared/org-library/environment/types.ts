@@ -0,0 +1,66 @@
+import { Output } from "@pulumi/pulumi";
+import { ConfigSet } from "../config-types";
+import { GroupResult } from "../group/types";
+import { PolicyResult } from "../policy/types";
+import { RoleResult } from "../role/types";
+import { UserResult } from "../user/types";
+
+/**
+ * Options for createEnvironmentStack.
+ */
+export interface EnvironmentStackOptions {
+  /** Configuration set the environment is built from. */
+  config: ConfigSet;
+  /** Name of the stack holding the organization foundation. Default: "foundation". */
+  foundationStack?: string;
+  /** Role assumed in the member accounts of the environment. Default: the `roleName` the foundation stack exports for each account. */
+  accessRoleName?: string;
+}
+
+/**
+ * Reference to a role or policy exported by an environment stack.
+ */
+export interface EnvironmentResourceOutput {
+  arn: Output<string>;
+  name: Output<string>;
+}
+
+/**
+ * Roles or policies exported by an environment stack, by configured name and
+ * then by the account they are created in: the member account's name, or
+ * CREDENTIALS_ACCOUNT while the OU has no accounts.
+ */
+export interface EnvironmentResourceOutputs {
+  [name: string]: { [account: string]: EnvironmentResourceOutput };
+}
+
+/**
+ * Values exported by an environment stack.
+ */
+export interface EnvironmentStackOutputs {
+  environment: {
+    name: string;
+    ouId: Output<string | undefined>;
+    /** IDs of the member accounts the resources are deployed into, by account name. */
+    accounts: Output<{ [account: string]: string }>;
+  };
+  roles: EnvironmentResourceOutputs;
+  policies: {
+    managed: EnvironmentResourceOutputs;
+    environment: EnvironmentResourceOutputs;
+  };
+}
+
+/**
+ * Return type for createEnvironmentStack. Resources are keyed by logical name:
+ * the name from the configuration, prefixed with the account name for
+ * resources in member accounts (e.g. `dev-main-dev-limited-role`).
+ */
+export interface EnvironmentStackResult {
+  managedPolicies: Map<string, PolicyResult>;
+  environmentPolicies: Map<string, PolicyResult>;
+  groups: Map<string, GroupResult>;
+  roles: Map<string, RoleResult>;
+  users: Map<string, UserResult>;
+  outputs: EnvironmentStackOutputs;
+}
@@ -0,0 +1,208 @@
+import * as pulumi from "@pulumi/pulumi";
+import { ConfigSet } from "../config-types";
+import { SimulationOptions } from "../simulator";
+import { allowedBy, buildEscalationGraph } from "./graph";
+import { EscalationFinding, EscalationGraph, EscalationPattern, EscalationStep, PrincipalNode } from "./types";
+
+/**
+ * A pattern a single principal can exploit: it needs every action in
+ * `allOf` and at least one action in `anyOf`.
+ */
+interface CapabilityPattern {
+  pattern: EscalationPattern;
+  allOf: string[];
+  anyOf: string[];
+  /** What the actions give access to, for the report. */
+  target: string;
+}
+
+/**
+ * Actions that run code under a role passed with iam:PassRole.
+ */
+export const PASS_ROLE_COMPUTE_ACTIONS = [
+  "ec2:RunInstances",
+  "lambda:CreateFunction",
+  "lambda:UpdateFunctionConfiguration",
+  "ecs:RegisterTaskDefinition",
+  "ecs:RunTask",
+  "glue:CreateDevEndpoint",
+  "glue:CreateJob",
+  "cloudformation:CreateStack",
+  "codebuild:CreateProject",
+  "sagemaker:CreateNotebookInstance",
+  "datapipeline:CreatePipeline"
+];
+
+const CAPABILITY_PATTERNS: CapabilityPattern[] = [
+  {
+    pattern: EscalationPattern.PASS_ROLE_COMPUTE,
+    allOf: ["iam:PassRole"],
+    anyOf: PASS_ROLE_COMPUTE_ACTIONS,
+    target: "any role trusted by a compute service"
+  },
+  {
+    pattern: EscalationPattern.CREATE_POLICY_VERSION,
+    allOf: [],
+    anyOf: ["iam:CreatePolicyVersion"],
+    target: "any customer-managed policy"
+  },
+  {
+    pattern: EscalationPattern.ATTACH_POLICY,
+    allOf: [],
+    anyOf: [
+      "iam:AttachUserPolicy",
+      "iam:PutUserPolicy",
+      "iam:AttachGroupPolicy",
+      "iam:PutGroupPolicy",
+      "iam:AttachRolePolicy",
+      "iam:PutRolePolicy"
+    ],
+    target: "any policy on a user, group or role"
+  }
+];
+
+/**
+ * Returns the step exploiting a capability pattern from a principal, or
+ * undefined if its policies do not allow the pattern's actions.
+ */
+function capabilityStep(node: PrincipalNode, capability: CapabilityPattern): EscalationStep | undefined {
+  const required = capability.allOf.map(action => ({ action, grantedBy: allowedBy(node, action) }));
+  const any = capability.anyOf
+    .map(action => ({ action, grantedBy: allowedBy(node, action) }))
+    .find(candidate => candidate.grantedBy !== undefined);
+  if (!any || required.some(candidate => candidate.grantedBy === undefined)) {
+    return undefined;
+  }
+  const used = [...required, any];
+  return {
+    from: node.id,
+    action: used.map(candidate => candidate.action).join(" + "),
+    to: capability.target,
+    grantedBy: Array.from(new Set(used.flatMap(candidate => candidate.grantedBy!)))
+  };
+}
+
+/**
+ * Walks the roles a principal can reach by assuming roles, breadth first,
+ * and reports every admin role reached and every capability pattern
+ * allowed on the way. Paths end at the first admin role.
+ */
+function findPathsFrom(graph: EscalationGraph, start: PrincipalNode): EscalationFinding[] {
+  const findings: EscalationFinding[] = [];
+  const finding = (pattern: EscalationPattern, path: EscalationStep[]): EscalationFinding =>
+    ({ pattern, environment: graph.environment, principal: start.id, path });
+
+  const visited = new Set([start.id]);
+  const queue: { node: PrincipalNode; path: EscalationStep[] }[] = [{ node: start, path: [] }];
+  while (queue.length > 0) {
+    const { node, path } = queue.shift()!;
+    if (node.admin) {
+      findings.push(finding(EscalationPattern.ASSUME_ROLE_CHAIN, path));
+      continue;
+    }
+    for (const capability of CAPABILITY_PATTERNS) {
+      const step = capabilityStep(node, capability);
+      if (step) {
+        findings.push(finding(capability.pattern, [...path, step]));
+      }
+    }
+    for (const edge of graph.edges.filter(candidate => candidate.from === node.id && !visited.has(candidate.to))) {
+      visited.add(edge.to);
+      queue.push({
+        node: graph.nodes.get(edge.to)!,
+        path: [...path, { from: edge.from, action: "sts:AssumeRole", to: edge.to, grantedBy: edge.grantedBy }]
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Finds privilege escalation paths in an environment: from every user and
+ * role that is not already administrator, through the roles it can assume,
+ * to an admin role or to a principal allowed one of the known escalation
+ * patterns (iam:PassRole with a compute action, iam:CreatePolicyVersion,
+ * attaching or putting policies).
+ *
+ * Conditions in Allow statements are ignored, so the result is an upper
+ * bound. AWS-managed policies not known to the simulator grant nothing.
+ *
+ * @param config - The configuration set.
+ * @param environment - Name of the environment, a key of the environments config.
+ * @param options - Simulator options, e.g. documents of further AWS-managed policies.
+ * @returns The escalation paths, by starting principal.
+ */
+export function findEscalationPaths(
+  config: ConfigSet,
+  environment: string,
+  options: SimulationOptions = {}
+): EscalationFinding[] {
+  const graph = buildEscalationGraph(config, environment, options);
+  return Array.from(graph.nodes.values())
+    .filter(node => !node.admin)
+    .flatMap(node => findPathsFrom(graph, node));
+}
+
+/**
+ * Formats a path as `user a -[sts:AssumeRole]-> role b -[iam:CreatePolicyVersion]-> ...`.
+ */
+export function formatEscalationPath(finding: EscalationFinding): string {
+  return finding.path.reduce(
+    (text, step) => `${text} -[${step.action}]-> ${step.to}`,
+    finding.principal
+  );
+}
+
+/**
+ * Thrown when escalation paths are found that are not accepted in the
+ * privilege escalation settings. The message lists every path.
+ */
+export class PrivilegeEscalationError extends Error {
+  constructor(public readonly findings: EscalationFinding[]) {
+    super(
+      `Privilege escalation paths found (${findings.length}):\n` +
+      findings.map(finding => `  - ${finding.environment}: [${finding.pattern}] ${formatEscalationPath(finding)}`).join("\n")
+    );
+    this.name = "PrivilegeEscalationError";
+  }
+}
+
+/**
+ * Splits escalation paths into those accepted in `config.privilegeEscalation`
+ * and the rest.
+ *
+ * @param config - The configuration set.
+ * @param findings - Escalation paths.
+ * @returns The accepted and the unaccepted paths.
+ */
+export function partitionAcceptedEscalations(
+  config: ConfigSet,
+  findings: EscalationFinding[]
+): { accepted: EscalationFinding[]; unaccepted: EscalationFinding[] } {
+  const acceptances = config.privilegeEscalation?.accepted || [];
+  const isAccepted = (finding: EscalationFinding) => acceptances.some(acceptance =>
+    acceptance.pattern === finding.pattern &&
+    acceptance.principal === finding.principal &&
+    (acceptance.environment === undefined || acceptance.environment === finding.environment));
+  return {
+    accepted: findings.filter(isAccepted),
+    unaccepted: findings.filter(finding => !isAccepted(finding))
+  };
+}
+
+/**
+ * Fails the program if an environment has escalation paths that are not
+ * accepted in the configuration. Accepted paths are logged as warnings.
+ *
+ * @param config - The configuration set.
+ * @param environment - Name of the environment.
+ */
+export function assertNoPrivilegeEscalation(config: ConfigSet, environment: string): void {
+  const { accepted, unaccepted } = partitionAcceptedEscalations(config, findEscalationPaths(config, environment));
+  for (const finding of accepted) {
+    pulumi.log.warn(`Accepted privilege escalation path [${finding.pattern}] ${formatEscalationPath(finding)}`);
+  }
+  if (unaccepted.length > 0) {
+    throw new PrivilegeEscalationError(unaccepted);
+  }
+}
@@ -0,0 +1,146 @@
+import { ConfigSet } from "../config-types";
+import { environmentUsers } from "../environment/membership";
+import { PolicyStatement } from "../policyDocument/types";
+import { trustPolicyDocument } from "../role/trustPolicy";
+import {
+  evaluatePolicies,
+  EvaluationRequest,
+  NamedPolicyDocument,
+  RequestContext,
+  ResolvedPrincipalPolicies,
+  resolveRolePolicies,
+  resolveUserPolicies,
+  PolicyLayer,
+  SimulationDecision,
+  SimulationOptions,
+  statementMatches
+} from "../simulator";
+import { AssumeRoleEdge, EscalationGraph, PrincipalNode } from "./types";
+
+/**
+ * Placeholder account ID the analysed principals and roles live in.
+ */
+const ANALYSIS_ACCOUNT_ID = "000000000000";
+
+/**
+ * Relaxes a policy to an upper bound of what it allows: Allow statements
+ * apply to all resources whatever their conditions, since an attacker may
+ * control the resource and the request context, and conditional Denies are
+ * dropped.
+ */
+function relaxPolicy(policy: NamedPolicyDocument): NamedPolicyDocument {
+  const statements = policy.document.Statement.flatMap((statement): PolicyStatement[] => {
+    if (statement.Effect === "Allow") {
+      return [{ ...statement, Condition: undefined, NotResource: undefined, Resource: "*" }];
+    }
+    return statement.Condition === undefined ? [statement] : [];
+  });
+  return { ...policy, document: { ...policy.document, Statement: statements } };
+}
+
+function relaxPolicies(policies: ResolvedPrincipalPolicies): ResolvedPrincipalPolicies {
+  return {
+    ...policies,
+    identity: policies.identity.map(relaxPolicy),
+    boundary: policies.boundary && relaxPolicy(policies.boundary),
+    serviceControlPolicies: policies.serviceControlPolicies.map(relaxPolicy)
+  };
+}
+
+/**
+ * Checks whether a principal's relaxed policies allow an action.
+ *
+ * @param node - The principal.
+ * @param action - The action, e.g. `iam:PassRole`.
+ * @param resource - The resource; defaults to `*`.
+ * @returns The allowing statements as `<policy> (<source>)`, or undefined if the action is denied.
+ */
+export function allowedBy(node: PrincipalNode, action: string, resource = "*"): string[] | undefined {
+  const evaluation = evaluatePolicies(node.policies, { action, resource, context: {} });
+  if (evaluation.decision !== SimulationDecision.ALLOWED) {
+    return undefined;
+  }
+  return evaluation.matchedStatements
+    .filter(match => match.layer === PolicyLayer.IDENTITY)
+    .map(match => `${match.policy} (${match.source})`);
+}
+
+/**
+ * Whether a trust policy statement names the principal: any AWS principal,
+ * the principal's account or the principal itself.
+ */
+function trustsPrincipal(statement: PolicyStatement, principalArn: string): boolean {
+  const principal = statement.Principal;
+  if (principal === "*") {
+    return true;
+  }
+  if (!principal || !("AWS" in principal)) {
+    return false;
+  }
+  return [principal.AWS].flat()
+    .some(value => value === "*" || value === `arn:aws:iam::${ANALYSIS_ACCOUNT_ID}:root` || value === principalArn);
+}
+
+function createNode(id: string, arn: string, policies: ResolvedPrincipalPolicies): PrincipalNode {
+  const node: PrincipalNode = { id, arn, policies: relaxPolicies(policies), admin: false };
+  node.admin = allowedBy(node, "iam:*") !== undefined;
+  return node;
+}
+
+/**
+ * Builds the escalation graph of an environment: its users and roles with
+ * their relaxed policies, and an edge wherever a principal may assume a role.
+ * Users are assumed to sign in with MFA; role sessions are not.
+ *
+ * @param config - The configuration set.
+ * @param environment - Name of the environment, a key of the environments config.
+ * @param options - Simulator options, e.g. documents of further AWS-managed policies.
+ * @returns The environment's graph.
+ */
+export function buildEscalationGraph(
+  config: ConfigSet,
+  environment: string,
+  options: SimulationOptions = {}
+): EscalationGraph {
+  if (!config.environments[environment]) {
+    throw new Error(`Unknown environment "${environment}"`);
+  }
+  const roles = config.roles[environment] || [];
+  const nodes = new Map<string, PrincipalNode>();
+  const contexts = new Map<string, RequestContext>();
+
+  for (const user of environmentUsers(config, environment)) {
+    const arn = `arn:aws:iam::${ANALYSIS_ACCOUNT_ID}:user/users/${user.username}`;
+    const node = createNode(`user ${user.username}`, arn, resolveUserPolicies(config, environment, user.username, options));
+    nodes.set(node.id, node);
+    contexts.set(node.id, { "aws:PrincipalArn": arn, "aws:username": user.username, "aws:MultiFactorAuthPresent": "true" });
+  }
+  for (const role of roles) {
+    const arn = `arn:aws:iam::${ANALYSIS_ACCOUNT_ID}:role/${role.name}`;
+    const node = createNode(`role ${role.name}`, arn, resolveRolePolicies(config, environment, role.name, options));
+    nodes.set(node.id, node);
+    contexts.set(node.id, { "aws:PrincipalArn": arn });
+  }
+
+  const accounts = Object.fromEntries(
+    Object.values(config.accounts).flat().map(account => [account.name, { id: ANALYSIS_ACCOUNT_ID }]));
+  const edges: AssumeRoleEdge[] = [];
+  for (const role of roles) {
+    const target = nodes.get(`role ${role.name}`)!;
+    const trust = trustPolicyDocument(role, { accountId: ANALYSIS_ACCOUNT_ID, accounts, users: config.users });
+    for (const node of nodes.values()) {
+      if (node === target) {
+        continue;
+      }
+      const grantedBy = allowedBy(node, "sts:AssumeRole", target.arn);
+      const request: EvaluationRequest = { action: "sts:AssumeRole", resource: target.arn, context: contexts.get(node.id)! };
+      const trusted = trust.Statement.some(statement =>
+        trustsPrincipal(statement, node.arn) && statementMatches(statement, request));
+      if (grantedBy && trusted) {
+        edges.push({ from: node.id, to: target.id, grantedBy });
+      }
+    }
+  }
+
+  return { environment, nodes, edges };
+}
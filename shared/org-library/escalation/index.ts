@@ -0,0 +1,3 @@
+export * from "./analyze";
+export * from "./graph";
+export * from "./types";
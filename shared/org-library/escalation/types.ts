@@ -0,0 +1,91 @@
+import { ResolvedPrincipalPolicies } from "../simulator/types";
+
+/**
+ * Known privilege escalation patterns.
+ */
+export enum EscalationPattern {
+  /** iam:PassRole together with an action that runs code under the passed role. */
+  PASS_ROLE_COMPUTE = "pass-role-compute",
+  /** iam:CreatePolicyVersion, which can rewrite any customer-managed policy. */
+  CREATE_POLICY_VERSION = "create-policy-version",
+  /** Attaching or putting policies on users, groups or roles. */
+  ATTACH_POLICY = "attach-policy",
+  /** sts:AssumeRole, possibly over several roles, into an admin role. */
+  ASSUME_ROLE_CHAIN = "assume-role-chain"
+}
+
+/**
+ * A user or role of an environment with the policies that apply to it.
+ * Policies are relaxed for the analysis: Allow statements apply to all
+ * resources regardless of conditions, and only unconditional Denies remain.
+ */
+export interface PrincipalNode {
+  /** `user <name>` or `role <name>`. */
+  id: string;
+  arn: string;
+  policies: ResolvedPrincipalPolicies;
+  /** Whether the principal is allowed `iam:*`, i.e. already administrator. */
+  admin: boolean;
+}
+
+/**
+ * A principal that can assume a role: its policies allow sts:AssumeRole on
+ * the role and the role's trust policy trusts it.
+ */
+export interface AssumeRoleEdge {
+  from: string;
+  to: string;
+  /** Statements allowing the call, as `<policy> (<source>)`. */
+  grantedBy: string[];
+}
+
+/**
+ * The users and roles of one environment and who can assume which role.
+ */
+export interface EscalationGraph {
+  environment: string;
+  nodes: Map<string, PrincipalNode>;
+  edges: AssumeRoleEdge[];
+}
+
+/**
+ * One step of an escalation path.
+ */
+export interface EscalationStep {
+  from: string;
+  /** Action or actions taken, e.g. `sts:AssumeRole` or `iam:PassRole + ec2:RunInstances`. */
+  action: string;
+  to: string;
+  grantedBy: string[];
+}
+
+/**
+ * A path from a non-admin principal to administrator access.
+ */
+export interface EscalationFinding {
+  pattern: EscalationPattern;
+  environment: string;
+  /** The principal the path starts at. */
+  principal: string;
+  path: EscalationStep[];
+}
+
+/**
+ * An escalation path reviewed and accepted, e.g. a break-glass role.
+ */
+export interface AcceptedEscalation {
+  pattern: EscalationPattern;
+  /** Start of the path, e.g. `user qa-admin-user`. */
+  principal: string;
+  /** Environment the path is accepted in; all environments if omitted. */
+  environment?: string;
+  /** Why the path is acceptable. */
+  reason: string;
+}
+
+/**
+ * Privilege escalation settings of the configuration set.
+ */
+export interface PrivilegeEscalationConfig {
+  accepted?: AcceptedEscalation[];
+}
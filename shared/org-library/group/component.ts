@@ -0,0 +1,58 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions, Output } from "@pulumi/pulumi";
+import { childResourceOptions } from "../component";
+import { resolveAttachments } from "../naming";
+import { GroupOptions } from "./types";
+
+/**
+ * An IAM Group together with its managed policy attachments.
+ */
+export class OrgIamGroup extends ComponentResource {
+    public readonly group: aws.iam.Group;
+    public readonly attachments: aws.iam.GroupPolicyAttachment[];
+    public readonly arn: Output<string>;
+    public readonly groupName: Output<string>;
+
+    /**
+     * @param name - Logical name for the IAM Group resource
+     * @param options - Configuration options for the IAM Group
+     * @param opts - Resource options for the component
+     */
+    constructor(name: string, options: GroupOptions, opts?: ComponentResourceOptions) {
+        super("org-library:iam:OrgIamGroup", name, {}, opts);
+
+        const {
+            path,
+            managedPolicyArns = [],
+            ...groupArgs
+        } = options;
+
+        // Create the IAM Group
+        this.group = new aws.iam.Group(name, {
+            path,
+            ...groupArgs
+        }, childResourceOptions(this));
+
+        // Attach managed policies to the group
+        this.attachments = resolveAttachments(name, managedPolicyArns).map((attachment, index) => {
+            // Attachments used to be keyed by position
+            const previousNames = [...attachment.aliases, `${name}-attach-${index}`];
+            return new aws.iam.GroupPolicyAttachment(
+                attachment.name,
+                {
+                    group: this.group.name,
+                    policyArn: attachment.arn,
+                },
+                childResourceOptions(this, {}, previousNames)
+            );
+        });
+
+        this.arn = this.group.arn;
+        this.groupName = this.group.name;
+
+        this.registerOutputs({
+            arn: this.arn,
+            groupName: this.groupName
+        });
+    }
+}
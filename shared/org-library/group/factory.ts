@@ -1,42 +1,23 @@
-import * as aws from "@pulumi/aws";
+import { ComponentResourceOptions } from "@pulumi/pulumi";
 import { GroupOptions, GroupResult } from "./types";
-import { Input, output } from "@pulumi/pulumi";
+import { OrgIamGroup } from "./component";
 
 /**
  * Creates an IAM Group with optional managed policy attachments.
  * Note: Inline policies are not supported as they are considered a bad practice.
  * Use managed policies instead for better maintainability and reusability.
  *
+ * The group and its attachments are owned by an OrgIamGroup component.
+ *
  * @param name - Logical name for the IAM Group resource
  * @param options - Configuration options for the IAM Group
+ * @param opts - Resource options for the component, e.g. the provider of the account to create it in
  * @returns The created Group resource
  */
 export function createIamGroup(
     name: string,
-    options: GroupOptions
+    options: GroupOptions,
+    opts?: ComponentResourceOptions
 ): GroupResult {
-    const { 
-        path, 
-        managedPolicyArns = [] as Input<string>[],
-        ...groupArgs 
-    } = options;
-
-    // Create the IAM Group
-    const group = new aws.iam.Group(name, { 
-        path,
-        ...groupArgs
-    });
-
-    // Attach managed policies to the group
-    managedPolicyArns.forEach((policyArn: Input<string>) => {
-        new aws.iam.GroupPolicyAttachment(
-            `${name}-attach-${output(policyArn).apply(arn => arn.split("/").pop())}`,
-            {
-                group: group.name,
-                policyArn,
-            }
-        );
-    });
-
-    return group;
-} 
\ No newline at end of file
+    return new OrgIamGroup(name, options, opts).group;
+}
@@ -1,12 +1,12 @@
 import * as aws from "@pulumi/aws";
-import { Input } from "@pulumi/pulumi";
+import { PolicyArnInput } from "../naming";
 
 /**
  * Options for createIamGroup.
  * Only supports managed policy attachments as inline policies are considered a bad practice.
  */
 export interface GroupOptions extends Omit<aws.iam.GroupArgs, 'name'> {
-    managedPolicyArns?: Input<string>[];
+    managedPolicyArns?: PolicyArnInput[];
 }
 
 /**
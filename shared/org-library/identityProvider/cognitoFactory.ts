@@ -1,8 +1,8 @@
-import * as aws from "@pulumi/aws";
 import { CognitoIdentityProviderOptions, CognitoProviderResult } from "./types";
+import { OrgCognitoProvider } from "./component";
 
 /**
- * Creates a Cognito User Pool with client app.
+ * Creates a Cognito User Pool with client app, owned by an OrgCognitoProvider component.
  *
  * @param options - Configuration options for the Cognito setup.
  * @returns The created Cognito resources.
@@ -10,52 +10,10 @@ import { CognitoIdentityProviderOptions, CognitoProviderResult } from "./types";
 export function createCognitoProvider(
   options: CognitoIdentityProviderOptions
 ): CognitoProviderResult {
-  const {
-    name,
-    userPoolName,
-    schemas,
-    passwordPolicy,
-    mfaConfiguration = "OFF",
-    adminCreateUserConfig,
-    emailConfiguration,
-    clientConfig,
-    tags = {}
-  } = options;
-
-  // Create the User Pool with required configuration
-  const userPool = new aws.cognito.UserPool(name, {
-    name: userPoolName || name,
-    schemas,
-    passwordPolicy,
-    mfaConfiguration,
-    adminCreateUserConfig,
-    emailConfiguration,
-    tags: {
-      ...tags,
-      ManagedBy: "pulumi"
-    }
-  });
-
-  // Create the client app with default or provided configuration
-  const clientName = `${name}-client`;
-  const client = new aws.cognito.UserPoolClient(clientName, {
-    userPoolId: userPool.id,
-    name: clientName,
-    generateSecret: clientConfig?.generateSecret ?? false,
-    explicitAuthFlows: clientConfig?.explicitAuthFlows ?? [
-      "ALLOW_USER_SRP_AUTH",
-      "ALLOW_REFRESH_TOKEN_AUTH"
-    ],
-    allowedOauthFlows: clientConfig?.allowedOauthFlows ?? ["code"],
-    allowedOauthScopes: clientConfig?.allowedOauthScopes ?? ["openid", "email", "profile"],
-    callbackUrls: clientConfig?.callbackUrls,
-    logoutUrls: clientConfig?.logoutUrls,
-    defaultRedirectUri: clientConfig?.defaultRedirectUri,
-    supportedIdentityProviders: clientConfig?.supportedIdentityProviders ?? ["COGNITO"]
-  });
+  const { userPool, client } = new OrgCognitoProvider(options.name, options);
 
   return {
     userPool,
     client
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,243 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions, Output } from "@pulumi/pulumi";
+import { childResourceOptions } from "../component";
+import {
+  CognitoIdentityProviderOptions,
+  GoogleSSOProviderOptions,
+  SimpleIdentityProviderOptions
+} from "./types";
+
+/**
+ * A Google OIDC identity provider with an optional federated role.
+ */
+export class OrgGoogleSSOProvider extends ComponentResource {
+  public readonly provider: aws.iam.OpenIdConnectProvider;
+  public readonly role?: aws.iam.Role;
+  public readonly providerArn: Output<string>;
+  public readonly roleArn?: Output<string>;
+
+  /**
+   * @param name - Logical name for the provider resources.
+   * @param options - Configuration options for the Google SSO setup.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: GoogleSSOProviderOptions, opts?: ComponentResourceOptions) {
+    super("org-library:identity:OrgGoogleSSOProvider", name, {}, opts);
+
+    const {
+      clientIds,
+      thumbprintList,
+      assumeRoleArn,
+      assumeRolePolicy,
+      tags = {}
+    } = options;
+
+    // Create the OIDC Provider
+    this.provider = new aws.iam.OpenIdConnectProvider(name, {
+      url: "https://accounts.google.com",
+      clientIdLists: clientIds,
+      thumbprintLists: thumbprintList,
+      tags: {
+        ...tags,
+        Provider: "Google",
+        ManagedBy: "pulumi"
+      }
+    }, childResourceOptions(this));
+
+    // Create role if policy is specified
+    if (assumeRolePolicy) {
+      this.role = new aws.iam.Role(`${name}-role`, {
+        name: `${name}-google-sso-role`,
+        assumeRolePolicy,
+        tags: {
+          ...tags,
+          Provider: "Google",
+          ManagedBy: "pulumi"
+        }
+      }, childResourceOptions(this));
+
+      // Attach the role policy if ARN is provided
+      if (assumeRoleArn) {
+        new aws.iam.RolePolicyAttachment(`${name}-policy-attachment`, {
+          role: this.role.name,
+          policyArn: assumeRoleArn
+        }, childResourceOptions(this));
+      }
+    }
+
+    this.providerArn = this.provider.arn;
+    this.roleArn = this.role?.arn;
+
+    this.registerOutputs({
+      providerArn: this.providerArn,
+      roleArn: this.roleArn
+    });
+  }
+}
+
+/**
+ * A Cognito User Pool with its client app.
+ */
+export class OrgCognitoProvider extends ComponentResource {
+  public readonly userPool: aws.cognito.UserPool;
+  public readonly client: aws.cognito.UserPoolClient;
+  public readonly userPoolId: Output<string>;
+  public readonly clientId: Output<string>;
+
+  /**
+   * @param name - Logical name for the Cognito resources.
+   * @param options - Configuration options for the Cognito setup.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: CognitoIdentityProviderOptions, opts?: ComponentResourceOptions) {
+    super("org-library:identity:OrgCognitoProvider", name, {}, opts);
+
+    const {
+      userPoolName,
+      schemas,
+      passwordPolicy,
+      mfaConfiguration = "OFF",
+      adminCreateUserConfig,
+      emailConfiguration,
+      clientConfig,
+      tags = {}
+    } = options;
+
+    // Create the User Pool with required configuration
+    this.userPool = new aws.cognito.UserPool(name, {
+      name: userPoolName || name,
+      schemas,
+      passwordPolicy,
+      mfaConfiguration,
+      adminCreateUserConfig,
+      emailConfiguration,
+      tags: {
+        ...tags,
+        ManagedBy: "pulumi"
+      }
+    }, childResourceOptions(this));
+
+    // Create the client app with default or provided configuration
+    const clientName = `${name}-client`;
+    this.client = new aws.cognito.UserPoolClient(clientName, {
+      userPoolId: this.userPool.id,
+      name: clientName,
+      generateSecret: clientConfig?.generateSecret ?? false,
+      explicitAuthFlows: clientConfig?.explicitAuthFlows ?? [
+        "ALLOW_USER_SRP_AUTH",
+        "ALLOW_REFRESH_TOKEN_AUTH"
+      ],
+      allowedOauthFlows: clientConfig?.allowedOauthFlows ?? ["code"],
+      allowedOauthScopes: clientConfig?.allowedOauthScopes ?? ["openid", "email", "profile"],
+      callbackUrls: clientConfig?.callbackUrls,
+      logoutUrls: clientConfig?.logoutUrls,
+      defaultRedirectUri: clientConfig?.defaultRedirectUri,
+      supportedIdentityProviders: clientConfig?.supportedIdentityProviders ?? ["COGNITO"]
+    }, childResourceOptions(this));
+
+    this.userPoolId = this.userPool.id;
+    this.clientId = this.client.id;
+
+    this.registerOutputs({
+      userPoolId: this.userPoolId,
+      clientId: this.clientId
+    });
+  }
+}
+
+/**
+ * A Cognito User Pool and client for basic username/password authentication.
+ */
+export class OrgSimpleIdentityProvider extends ComponentResource {
+  public readonly userPool: aws.cognito.UserPool;
+  public readonly client: aws.cognito.UserPoolClient;
+  public readonly userPoolId: Output<string>;
+  public readonly clientId: Output<string>;
+
+  /**
+   * @param name - Logical name for the Cognito resources.
+   * @param options - Basic configuration options.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: SimpleIdentityProviderOptions, opts?: ComponentResourceOptions) {
+    super("org-library:identity:OrgSimpleIdentityProvider", name, {}, opts);
+
+    const {
+      allowEmailSignUp = true,
+      minimumPasswordLength = 8,
+      tags = {}
+    } = options;
+
+    // Create a basic user pool with minimal secure configuration
+    this.userPool = new aws.cognito.UserPool(name, {
+      name,
+
+      // Use email as username for simplicity
+      usernameAttributes: ["email"],
+
+      // Basic but secure password policy
+      passwordPolicy: {
+        minimumLength: minimumPasswordLength,
+        requireLowercase: true,
+        requireNumbers: true,
+        requireUppercase: true,
+        temporaryPasswordValidityDays: 7,
+      },
+
+      // Basic email verification
+      verificationMessageTemplate: {
+        defaultEmailOption: "CONFIRM_WITH_CODE",
+        emailSubject: "Your verification code",
+        emailMessage: "Your verification code is {####}",
+      },
+
+      // Control whether users can sign up themselves
+      adminCreateUserConfig: {
+        allowAdminCreateUserOnly: !allowEmailSignUp,
+      },
+
+      // Enable basic email notifications
+      emailConfiguration: {
+        emailSendingAccount: "COGNITO_DEFAULT"
+      },
+
+      tags: {
+        ...tags,
+        ManagedBy: "pulumi",
+        Type: "simple-auth"
+      }
+    }, childResourceOptions(this));
+
+    // Create a client app with basic auth flows
+    this.client = new aws.cognito.UserPoolClient(`${name}-client`, {
+      userPoolId: this.userPool.id,
+      name: `${name}-client`,
+
+      // Enable basic authentication flows
+      explicitAuthFlows: [
+        "ALLOW_USER_SRP_AUTH",           // Secure Remote Password protocol
+        "ALLOW_REFRESH_TOKEN_AUTH",       // Allow refresh tokens
+        "ALLOW_USER_PASSWORD_AUTH"        // Allow basic password auth
+      ],
+
+      // Prevent generating client secret for simple web/mobile apps
+      generateSecret: false,
+
+      // No token revocation by default
+      enableTokenRevocation: true,
+
+      // Standard token validity
+      refreshTokenValidity: 30,            // 30 days
+      accessTokenValidity: 1,              // 1 hour
+      idTokenValidity: 1,                  // 1 hour
+    }, childResourceOptions(this));
+
+    this.userPoolId = this.userPool.id;
+    this.clientId = this.client.id;
+
+    this.registerOutputs({
+      userPoolId: this.userPoolId,
+      clientId: this.clientId
+    });
+  }
+}
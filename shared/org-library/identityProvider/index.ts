@@ -1,3 +1,4 @@
+export * from "./component";
 export * from "./cognitoFactory";
 export * from "./googleSSOFactory";
 export * from "./types";
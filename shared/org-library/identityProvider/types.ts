@@ -74,4 +74,22 @@ export interface GoogleSSOProviderOptions extends BaseIdentityProviderOptions {
 export interface GoogleSSOResult {
   provider: aws.iam.OpenIdConnectProvider;
   role?: aws.iam.Role;
-} 
\ No newline at end of file
+}
+
+/**
+ * Simple configuration options for basic authentication
+ */
+export interface SimpleIdentityProviderOptions {
+  name: string;
+  allowEmailSignUp?: boolean;
+  minimumPasswordLength?: number;
+  tags?: { [key: string]: Input<string> };
+}
+
+/**
+ * Result type for simple authentication setup
+ */
+export interface SimpleIdentityProviderResult {
+  userPool: aws.cognito.UserPool;
+  client: aws.cognito.UserPoolClient;
+}
@@ -0,0 +1,4 @@
+export * from "./lint";
+export * from "./rules";
+export * from "./servicePrefixes";
+export * from "./types";
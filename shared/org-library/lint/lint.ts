@@ -0,0 +1,128 @@
+import * as pulumi from "@pulumi/pulumi";
+import { ConfigSet } from "../config-types";
+import { trustPolicyDocument } from "../role/trustPolicy";
+import { PolicyDocument } from "../policyDocument/types";
+import { checkPolicyDocument } from "./rules";
+import { PolicyDocumentKind, PolicyLintConfig, PolicyLintFinding, PolicyLintRule, PolicyLintSeverity } from "./types";
+
+/**
+ * Severity of each rule unless overridden in the lint settings.
+ */
+export const DEFAULT_LINT_SEVERITIES: { [rule in PolicyLintRule]: PolicyLintSeverity } = {
+  [PolicyLintRule.INVALID_ACTION_SYNTAX]: PolicyLintSeverity.ERROR,
+  [PolicyLintRule.UNKNOWN_SERVICE_PREFIX]: PolicyLintSeverity.ERROR,
+  [PolicyLintRule.DENY_WITHOUT_SID]: PolicyLintSeverity.WARNING,
+  [PolicyLintRule.ALLOW_ALL]: PolicyLintSeverity.ERROR,
+  [PolicyLintRule.SCP_SIZE]: PolicyLintSeverity.ERROR,
+  [PolicyLintRule.UNSUPPORTED_CONDITION_OPERATOR]: PolicyLintSeverity.ERROR
+};
+
+/**
+ * Placeholder account ID used to render trust policies for linting.
+ */
+const LINT_ACCOUNT_ID = "000000000000";
+
+/**
+ * Thrown when policy documents have findings of severity "error".
+ * The message lists every error so they can be fixed in one pass.
+ */
+export class PolicyLintError extends Error {
+  constructor(public readonly findings: PolicyLintFinding[]) {
+    super(
+      `Policy lint failed (${findings.length} error${findings.length === 1 ? "" : "s"}):\n` +
+      findings.map(finding => `  - ${finding.path}: [${finding.rule}] ${finding.message}`).join("\n")
+    );
+    this.name = "PolicyLintError";
+  }
+}
+
+/**
+ * Lints one policy document.
+ *
+ * @param document - The policy document.
+ * @param kind - What the document is used as.
+ * @param path - Location of the document, used in the findings.
+ * @param settings - Severity overrides per rule.
+ * @returns The findings whose severity is not "off".
+ */
+export function lintPolicyDocument(
+  document: PolicyDocument,
+  kind: PolicyDocumentKind,
+  path: string,
+  settings: PolicyLintConfig = {}
+): PolicyLintFinding[] {
+  return checkPolicyDocument(document, kind, path)
+    .map(violation => ({
+      ...violation,
+      severity: settings.severities?.[violation.rule] ?? DEFAULT_LINT_SEVERITIES[violation.rule]
+    }))
+    .filter(finding => finding.severity !== PolicyLintSeverity.OFF);
+}
+
+/**
+ * Lints every IAM policy, SCP and role trust policy of the configuration set,
+ * using the severities from `config.policyLint`. Findings accepted there are
+ * reported as warnings at most, with the reason of the acceptance.
+ *
+ * @param config - The configuration set; it should pass validateConfig first.
+ * @returns All findings whose severity is not "off".
+ */
+export function lintConfig(config: ConfigSet): PolicyLintFinding[] {
+  const settings = config.policyLint || {};
+  const findings: PolicyLintFinding[] = [];
+
+  for (const [policySet, policies] of Object.entries(config.policies)) {
+    (policies || []).forEach((policy, i) => {
+      findings.push(...lintPolicyDocument(
+        policy.document, PolicyDocumentKind.IAM, `policies.${policySet}[${i}].document`, settings));
+    });
+  }
+
+  config.serviceControlPolicies.forEach((scp, i) => {
+    findings.push(...lintPolicyDocument(
+      scp.document, PolicyDocumentKind.SERVICE_CONTROL_POLICY, `serviceControlPolicies[${i}].document`, settings));
+  });
+
+  // Trust policies are rendered with placeholder account IDs; the rules do not look at principals
+  const accounts = Object.fromEntries(
+    Object.values(config.accounts).flat().map(account => [account.name, { id: LINT_ACCOUNT_ID }]));
+  for (const [environment, roles] of Object.entries(config.roles)) {
+    roles.forEach((role, i) => {
+      const document = trustPolicyDocument(role, { accountId: LINT_ACCOUNT_ID, accounts, users: config.users });
+      findings.push(...lintPolicyDocument(
+        document, PolicyDocumentKind.TRUST, `roles.${environment}[${i}].trust`, settings));
+    });
+  }
+
+  return findings.map(finding => {
+    const acceptance = (settings.accepted || [])
+      .find(candidate => candidate.rule === finding.rule && candidate.path === finding.path);
+    if (!acceptance) {
+      return finding;
+    }
+    return {
+      ...finding,
+      severity: finding.severity === PolicyLintSeverity.ERROR ? PolicyLintSeverity.WARNING : finding.severity,
+      accepted: acceptance.reason
+    };
+  });
+}
+
+/**
+ * Lints the configuration set, logs warnings and throws a PolicyLintError
+ * listing every error. Call this before registering any resources so that
+ * errors fail `pulumi preview`.
+ *
+ * @param config - The configuration set to lint.
+ */
+export function assertPolicyLint(config: ConfigSet): void {
+  const findings = lintConfig(config);
+  for (const warning of findings.filter(finding => finding.severity === PolicyLintSeverity.WARNING)) {
+    const accepted = warning.accepted ? ` (accepted: ${warning.accepted})` : "";
+    pulumi.log.warn(`Policy lint: ${warning.path}: [${warning.rule}] ${warning.message}${accepted}`);
+  }
+  const errors = findings.filter(finding => finding.severity === PolicyLintSeverity.ERROR);
+  if (errors.length > 0) {
+    throw new PolicyLintError(errors);
+  }
+}
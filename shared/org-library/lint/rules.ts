@@ -0,0 +1,140 @@
+import { OneOrMany, PolicyDocument } from "../policyDocument/types";
+import { KNOWN_SERVICE_PREFIXES } from "./servicePrefixes";
+import { PolicyDocumentKind, PolicyLintFinding, PolicyLintRule } from "./types";
+
+/**
+ * Maximum size of an SCP document, in characters, enforced by AWS Organizations.
+ */
+export const MAX_SCP_SIZE = 5120;
+
+/**
+ * A rule violation before its severity is applied.
+ */
+export type RuleViolation = Omit<PolicyLintFinding, "severity">;
+
+const ACTION_PATTERN = /^([^:]+):([A-Za-z0-9*?]+)$/;
+const SERVICE_PREFIX_PATTERN = /^[a-z0-9-]+$/;
+
+const CONDITION_OPERATORS = new Set([
+  "StringEquals", "StringNotEquals", "StringEqualsIgnoreCase", "StringNotEqualsIgnoreCase",
+  "StringLike", "StringNotLike",
+  "NumericEquals", "NumericNotEquals", "NumericLessThan", "NumericLessThanEquals",
+  "NumericGreaterThan", "NumericGreaterThanEquals",
+  "DateEquals", "DateNotEquals", "DateLessThan", "DateLessThanEquals",
+  "DateGreaterThan", "DateGreaterThanEquals",
+  "Bool", "BinaryEquals", "IpAddress", "NotIpAddress",
+  "ArnEquals", "ArnLike", "ArnNotEquals", "ArnNotLike",
+  "Null"
+]);
+
+const toList = (value: OneOrMany<string> | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Checks a condition operator, allowing the ForAllValues:/ForAnyValue: set
+ * qualifiers and the IfExists suffix (except on Null).
+ */
+function isSupportedConditionOperator(operator: string): boolean {
+  const unqualified = operator.replace(/^(ForAllValues|ForAnyValue):/, "");
+  if (unqualified.endsWith("IfExists")) {
+    const base = unqualified.slice(0, -"IfExists".length);
+    return base !== "Null" && CONDITION_OPERATORS.has(base);
+  }
+  return CONDITION_OPERATORS.has(unqualified);
+}
+
+/**
+ * Checks the Action or NotAction entries of a statement.
+ */
+function lintActions(actions: string[], path: string): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  actions.forEach((action, i) => {
+    const actionPath = `${path}[${i}]`;
+    if (action === "*") {
+      return;
+    }
+    const match = ACTION_PATTERN.exec(action);
+    if (!match || !SERVICE_PREFIX_PATTERN.test(match[1])) {
+      violations.push({
+        rule: PolicyLintRule.INVALID_ACTION_SYNTAX,
+        path: actionPath,
+        message: `action "${action}" is not "*" or "<service>:<action>" (wildcards are only allowed in the action part)`
+      });
+      return;
+    }
+    if (!KNOWN_SERVICE_PREFIXES.has(match[1])) {
+      violations.push({
+        rule: PolicyLintRule.UNKNOWN_SERVICE_PREFIX,
+        path: actionPath,
+        message: `service prefix "${match[1]}" of action "${action}" is not a known AWS service`
+      });
+    }
+  });
+  return violations;
+}
+
+/**
+ * Runs every rule against one policy document.
+ *
+ * @param document - The policy document.
+ * @param kind - What the document is used as; the SCP size rule only applies to SCPs.
+ * @param path - Location of the document in the configuration set.
+ * @returns The violations found, without severities.
+ */
+export function checkPolicyDocument(
+  document: PolicyDocument,
+  kind: PolicyDocumentKind,
+  path: string
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  document.Statement.forEach((statement, i) => {
+    const statementPath = `${path}.Statement[${i}]`;
+
+    violations.push(...lintActions(toList(statement.Action), `${statementPath}.Action`));
+    violations.push(...lintActions(toList(statement.NotAction), `${statementPath}.NotAction`));
+
+    if (statement.Effect === "Deny" && !statement.Sid) {
+      violations.push({
+        rule: PolicyLintRule.DENY_WITHOUT_SID,
+        path: statementPath,
+        message: "Deny statement has no Sid"
+      });
+    }
+
+    if (
+      statement.Effect === "Allow" &&
+      toList(statement.Action).includes("*") &&
+      toList(statement.Resource).includes("*")
+    ) {
+      violations.push({
+        rule: PolicyLintRule.ALLOW_ALL,
+        path: statementPath,
+        message: `statement ${statement.Sid ? `"${statement.Sid}" ` : ""}allows "*" actions on "*" resources`
+      });
+    }
+
+    for (const operator of Object.keys(statement.Condition || {})) {
+      if (!isSupportedConditionOperator(operator)) {
+        violations.push({
+          rule: PolicyLintRule.UNSUPPORTED_CONDITION_OPERATOR,
+          path: `${statementPath}.Condition.${operator}`,
+          message: `condition operator "${operator}" is not supported by IAM`
+        });
+      }
+    }
+  });
+
+  if (kind === PolicyDocumentKind.SERVICE_CONTROL_POLICY) {
+    const size = JSON.stringify(document).length;
+    if (size > MAX_SCP_SIZE) {
+      violations.push({
+        rule: PolicyLintRule.SCP_SIZE,
+        path,
+        message: `SCP document is ${size} characters, over the ${MAX_SCP_SIZE}-character limit`
+      });
+    }
+  }
+
+  return violations;
+}
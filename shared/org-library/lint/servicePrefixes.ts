@@ -0,0 +1,114 @@
+/**
+ * IAM service prefixes accepted by the linter. Extend this list when a
+ * policy needs a service that is not here yet.
+ */
+export const KNOWN_SERVICE_PREFIXES: ReadonlySet<string> = new Set([
+  "access-analyzer",
+  "account",
+  "acm",
+  "acm-pca",
+  "apigateway",
+  "application-autoscaling",
+  "appsync",
+  "athena",
+  "autoscaling",
+  "aws-marketplace",
+  "aws-portal",
+  "backup",
+  "batch",
+  "bedrock",
+  "budgets",
+  "ce",
+  "cloudformation",
+  "cloudfront",
+  "cloudhsm",
+  "cloudshell",
+  "cloudtrail",
+  "cloudwatch",
+  "codeartifact",
+  "codebuild",
+  "codecommit",
+  "codedeploy",
+  "codepipeline",
+  "cognito-identity",
+  "cognito-idp",
+  "cognito-sync",
+  "config",
+  "cur",
+  "datasync",
+  "dax",
+  "directconnect",
+  "dms",
+  "ds",
+  "dynamodb",
+  "ebs",
+  "ec2",
+  "ec2messages",
+  "ecr",
+  "ecs",
+  "eks",
+  "elasticache",
+  "elasticbeanstalk",
+  "elasticfilesystem",
+  "elasticloadbalancing",
+  "elasticmapreduce",
+  "es",
+  "events",
+  "execute-api",
+  "firehose",
+  "fsx",
+  "glacier",
+  "glue",
+  "guardduty",
+  "health",
+  "iam",
+  "identitystore",
+  "imagebuilder",
+  "inspector2",
+  "iot",
+  "kafka",
+  "kinesis",
+  "kms",
+  "lambda",
+  "lightsail",
+  "logs",
+  "macie2",
+  "organizations",
+  "pricing",
+  "ram",
+  "rds",
+  "rds-data",
+  "redshift",
+  "resource-groups",
+  "route53",
+  "route53domains",
+  "route53resolver",
+  "s3",
+  "s3-object-lambda",
+  "sagemaker",
+  "savingsplans",
+  "scheduler",
+  "secretsmanager",
+  "securityhub",
+  "servicecatalog",
+  "servicequotas",
+  "ses",
+  "shield",
+  "signin",
+  "sns",
+  "sqs",
+  "ssm",
+  "ssmmessages",
+  "sso",
+  "sso-directory",
+  "states",
+  "sts",
+  "support",
+  "tag",
+  "transfer",
+  "trustedadvisor",
+  "waf",
+  "waf-regional",
+  "wafv2",
+  "xray"
+]);
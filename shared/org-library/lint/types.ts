@@ -0,0 +1,69 @@
+/**
+ * Rules checked by the policy linter.
+ */
+export enum PolicyLintRule {
+  /** Actions must be `*` or `<service>:<action>`, with wildcards only in the action part. */
+  INVALID_ACTION_SYNTAX = "invalid-action-syntax",
+  /** The service prefix of an action must be a known AWS service. */
+  UNKNOWN_SERVICE_PREFIX = "unknown-service-prefix",
+  /** Deny statements need a Sid so denials can be traced back to them. */
+  DENY_WITHOUT_SID = "deny-without-sid",
+  /** Allow statements must not grant `*` actions on `*` resources. */
+  ALLOW_ALL = "allow-all",
+  /** SCP documents must fit the 5,120-character limit of AWS Organizations. */
+  SCP_SIZE = "scp-size",
+  /** Condition blocks may only use operators IAM supports. */
+  UNSUPPORTED_CONDITION_OPERATOR = "unsupported-condition-operator"
+}
+
+/**
+ * What a finding of a rule does: fail the program, log a warning, or nothing.
+ */
+export enum PolicyLintSeverity {
+  ERROR = "error",
+  WARNING = "warning",
+  OFF = "off"
+}
+
+/**
+ * Kinds of documents the linter knows; some rules only apply to one kind.
+ */
+export enum PolicyDocumentKind {
+  IAM = "iam",
+  SERVICE_CONTROL_POLICY = "scp",
+  TRUST = "trust"
+}
+
+/**
+ * A single rule violation.
+ */
+export interface PolicyLintFinding {
+  rule: PolicyLintRule;
+  severity: PolicyLintSeverity;
+  /** Location of the offending value, e.g. `policies.prod[0].document.Statement[1].Action[0]`. */
+  path: string;
+  message: string;
+  /** Reason of the accepted finding in the lint settings; accepted errors are reported as warnings. */
+  accepted?: string;
+}
+
+/**
+ * A finding reviewed and accepted, e.g. a deployed policy kept as is until
+ * its owner signs off on a change.
+ */
+export interface AcceptedPolicyLintFinding {
+  rule: PolicyLintRule;
+  /** Location of the finding, e.g. `policies.sandbox1[0].document.Statement[0]`. */
+  path: string;
+  /** Why the finding is acceptable. */
+  reason: string;
+}
+
+/**
+ * Linter settings: severity overrides per rule, on top of the defaults, and
+ * accepted findings.
+ */
+export interface PolicyLintConfig {
+  severities?: { [rule in PolicyLintRule]?: PolicyLintSeverity };
+  accepted?: AcceptedPolicyLintFinding[];
+}
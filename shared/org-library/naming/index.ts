@@ -0,0 +1,2 @@
+export * from "./logicalName";
+export * from "./types";
@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { PolicyArnInput, ResolvedAttachment } from "./types";
+
+/**
+ * Upper bound for generated logical names. Longer names are truncated and
+ * suffixed with a hash of the full name so they stay unique.
+ */
+export const MAX_LOGICAL_NAME_LENGTH = 100;
+
+/**
+ * Joins name parts into a logical resource name, replacing characters outside
+ * `[A-Za-z0-9._-]` and limiting the result to MAX_LOGICAL_NAME_LENGTH.
+ *
+ * @param parts - Owner name, kind and key, e.g. ("admin", "attach", "ReadOnlyAccess").
+ * @returns The logical name.
+ */
+export function logicalName(...parts: string[]): string {
+  const name = parts
+    .map(part => part.replace(/[^A-Za-z0-9._-]+/g, "-"))
+    .join("-");
+  if (name.length <= MAX_LOGICAL_NAME_LENGTH) {
+    return name;
+  }
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${name.slice(0, MAX_LOGICAL_NAME_LENGTH - hash.length - 1)}-${hash}`;
+}
+
+/**
+ * Derives the attachment key of a literal policy ARN: the policy path and
+ * name, e.g. `job-function/ViewOnlyAccess` for an AWS-managed job function policy.
+ */
+function keyFromArn(arn: string): string {
+  const policyPath = arn.split(":policy/")[1];
+  return policyPath ?? arn.split(":").pop() ?? arn;
+}
+
+/**
+ * Throws if two sources resolve to the same logical name.
+ *
+ * @param owner - Name of the resource owning the named resources, for the error message.
+ * @param entries - Generated names and the input each was derived from.
+ */
+export function assertUniqueNames(owner: string, entries: { name: string; source: string }[]): void {
+  const seen = new Map<string, string>();
+  for (const { name, source } of entries) {
+    const previous = seen.get(name);
+    if (previous !== undefined) {
+      throw new Error(
+        `Resources of "${owner}" collide on logical name "${name}" (from "${previous}" and "${source}"); ` +
+        `give one of them a distinct name`
+      );
+    }
+    seen.set(name, source);
+  }
+}
+
+/**
+ * Resolves the logical names of an owner's policy attachments.
+ * Names are `<owner>-attach-<key>`, where the key is the name of a NamedPolicyArn
+ * or the policy path of a literal ARN, so they never depend on deployment-time values.
+ *
+ * @param owner - Logical name of the group, role or user the policies are attached to.
+ * @param policies - Policies to attach.
+ * @returns The attachments with their logical names, in input order.
+ */
+export function resolveAttachments(owner: string, policies: PolicyArnInput[]): ResolvedAttachment[] {
+  const attachments = policies.map(policy => {
+    const key = typeof policy === "string" ? keyFromArn(policy) : policy.name;
+    return {
+      name: logicalName(owner, "attach", key),
+      arn: typeof policy === "string" ? policy : policy.arn,
+      aliases: typeof policy === "string" ? [] : policy.aliases || [],
+      source: typeof policy === "string" ? policy : policy.name
+    };
+  });
+
+  assertUniqueNames(owner, attachments);
+
+  return attachments.map(({ name, arn, aliases }) => ({ name, arn, aliases }));
+}
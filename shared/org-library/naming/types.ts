@@ -0,0 +1,28 @@
+import { Input } from "@pulumi/pulumi";
+
+/**
+ * A policy to attach together with the key its attachment name is derived from.
+ * Required for ARNs that are only known at deployment time, such as policies
+ * created in the same stack.
+ */
+export interface NamedPolicyArn {
+  /** Stable key used in the attachment's logical name, usually the policy name. */
+  name: string;
+  arn: Input<string>;
+  /** Previous logical names of the attachment, so existing state is adopted. */
+  aliases?: string[];
+}
+
+/**
+ * A policy ARN to attach: a literal ARN or a named reference.
+ */
+export type PolicyArnInput = string | NamedPolicyArn;
+
+/**
+ * An attachment whose logical name has been resolved.
+ */
+export interface ResolvedAttachment {
+  name: string;
+  arn: Input<string>;
+  aliases: string[];
+}
@@ -0,0 +1,225 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions, Input, Output, output } from "@pulumi/pulumi";
+import { childResourceOptions } from "../component";
+import { assertUniqueNames, logicalName } from "../naming";
+import {
+  AiServicesOptOutPolicyOptions,
+  BackupPolicyOptions,
+  DeclarativeEc2PolicyOptions,
+  IAMPolicyOptions,
+  OrganizationsPolicyOptions,
+  PolicyTarget,
+  RCPOptions,
+  SCPOptions,
+  TagPolicyOptions
+} from "./types";
+
+/**
+ * Attaches an Organizations policy to a single target and/or to each of a list
+ * of targets. The first listed target is aliased to the single-target name it
+ * used before targets were supported.
+ */
+function attachPolicy(
+  parent: ComponentResource,
+  name: string,
+  policy: aws.organizations.Policy,
+  targetId: Input<string> | undefined,
+  targets: PolicyTarget[]
+): aws.organizations.PolicyAttachment[] {
+  const attachments: aws.organizations.PolicyAttachment[] = [];
+  if (targetId) {
+    attachments.push(new aws.organizations.PolicyAttachment(logicalName(name, "attachment"), {
+      policyId: policy.id,
+      targetId: targetId
+    }, childResourceOptions(parent)));
+  }
+
+  const targetNames = targets.map(target => ({
+    name: logicalName(name, "attach", target.name),
+    source: target.name
+  }));
+  assertUniqueNames(name, targetNames);
+  targets.forEach((target, index) => {
+    const previousNames = index === 0 && !targetId ? [logicalName(name, "attachment")] : [];
+    attachments.push(new aws.organizations.PolicyAttachment(targetNames[index].name, {
+      policyId: policy.id,
+      targetId: target.targetId
+    }, childResourceOptions(parent, {}, previousNames)));
+  });
+
+  return attachments;
+}
+
+/**
+ * A standard IAM Policy.
+ */
+export class OrgIamPolicy extends ComponentResource {
+  public readonly policy: aws.iam.Policy;
+  public readonly arn: Output<string>;
+  public readonly policyId: Output<string>;
+
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the IAM Policy.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: IAMPolicyOptions, opts?: ComponentResourceOptions) {
+    super("org-library:iam:OrgIamPolicy", name, {}, opts);
+
+    const { description, document, path, tags } = options;
+
+    // Serialize once outputs in the document (e.g. role ARNs) are known
+    this.policy = new aws.iam.Policy(name, {
+      description,
+      policy: output(document).apply(doc => JSON.stringify(doc)),
+      path,
+      tags: {
+        ...tags,
+        Environment: options.environment || tags?.Environment || "all",
+        ManagedBy: "pulumi"
+      }
+    }, childResourceOptions(this));
+
+    this.arn = this.policy.arn;
+    this.policyId = this.policy.id;
+
+    this.registerOutputs({
+      arn: this.arn,
+      policyId: this.policyId
+    });
+  }
+}
+
+/**
+ * Base component of the policies managed by AWS Organizations: the policy
+ * document and one attachment per target.
+ */
+export class OrgOrganizationsPolicy extends ComponentResource {
+  public readonly policy: aws.organizations.Policy;
+  public readonly attachments: aws.organizations.PolicyAttachment[];
+  public readonly arn: Output<string>;
+  public readonly policyId: Output<string>;
+
+  /**
+   * @param type - Pulumi type token of the component.
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the policy.
+   * @param opts - Resource options for the component.
+   */
+  constructor(type: string, name: string, options: OrganizationsPolicyOptions, opts?: ComponentResourceOptions) {
+    super(type, name, {}, opts);
+
+    const { description, document, targetId, targets = [], tags } = options;
+
+    // Create the policy
+    this.policy = new aws.organizations.Policy(name, {
+      content: JSON.stringify(document),
+      description,
+      name,
+      type: options.type,
+      tags
+    }, childResourceOptions(this));
+
+    // Attach the policy to its targets
+    this.attachments = attachPolicy(this, name, this.policy, targetId, targets);
+
+    this.arn = this.policy.arn;
+    this.policyId = this.policy.id;
+
+    this.registerOutputs({
+      arn: this.arn,
+      policyId: this.policyId,
+      attachmentIds: this.attachments.map(attachment => attachment.id)
+    });
+  }
+}
+
+/**
+ * A Service Control Policy attached to one or more targets.
+ */
+export class OrgServiceControlPolicy extends OrgOrganizationsPolicy {
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the SCP.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: SCPOptions, opts?: ComponentResourceOptions) {
+    if (!options.targetId && !options.targets?.length) {
+      throw new Error(`Service control policy "${name}" has no targets`);
+    }
+    super("org-library:organizations:OrgServiceControlPolicy", name, options, opts);
+  }
+}
+
+/**
+ * A Tag Policy, optionally attached to one or more targets.
+ */
+export class OrgTagPolicy extends OrgOrganizationsPolicy {
+  public readonly attachment?: aws.organizations.PolicyAttachment;
+
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the Tag Policy.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: TagPolicyOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgTagPolicy", name, options, opts);
+    this.attachment = this.attachments[0];
+  }
+}
+
+/**
+ * A Backup Policy, optionally attached to one or more targets.
+ */
+export class OrgBackupPolicy extends OrgOrganizationsPolicy {
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the Backup Policy.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: BackupPolicyOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgBackupPolicy", name, options, opts);
+  }
+}
+
+/**
+ * An AI services opt-out Policy, optionally attached to one or more targets.
+ */
+export class OrgAiServicesOptOutPolicy extends OrgOrganizationsPolicy {
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the AI services opt-out Policy.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: AiServicesOptOutPolicyOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgAiServicesOptOutPolicy", name, options, opts);
+  }
+}
+
+/**
+ * A Resource Control Policy, optionally attached to one or more targets.
+ */
+export class OrgResourceControlPolicy extends OrgOrganizationsPolicy {
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the RCP.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: RCPOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgResourceControlPolicy", name, options, opts);
+  }
+}
+
+/**
+ * A declarative policy for EC2, optionally attached to one or more targets.
+ */
+export class OrgDeclarativeEc2Policy extends OrgOrganizationsPolicy {
+  /**
+   * @param name - Logical name for the policy resource.
+   * @param options - Configuration options for the declarative policy.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: DeclarativeEc2PolicyOptions, opts?: ComponentResourceOptions) {
+    super("org-library:organizations:OrgDeclarativeEc2Policy", name, options, opts);
+  }
+}
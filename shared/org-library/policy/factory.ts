@@ -1,122 +1,155 @@
-import * as aws from "@pulumi/aws";
-import { Input } from "@pulumi/pulumi";
+import { ComponentResourceOptions } from "@pulumi/pulumi";
+import {
+  OrgAiServicesOptOutPolicy,
+  OrgBackupPolicy,
+  OrgDeclarativeEc2Policy,
+  OrgIamPolicy,
+  OrgOrganizationsPolicy,
+  OrgResourceControlPolicy,
+  OrgServiceControlPolicy,
+  OrgTagPolicy
+} from "./component";
 import { 
   PolicyOptions, 
   PolicyResult, 
   SCPOptions, 
   TagPolicyOptions,
   PolicyType,
-  IAMPolicyOptions
+  IAMPolicyOptions,
+  BackupPolicyOptions,
+  AiServicesOptOutPolicyOptions,
+  RCPOptions,
+  DeclarativeEc2PolicyOptions
 } from "./types";
 
 /**
- * Creates a standard IAM Policy.
+ * Maps an Organizations policy component to the factory result.
+ */
+function toPolicyResult(component: OrgOrganizationsPolicy): PolicyResult {
+  return {
+    policy: component.policy,
+    arn: component.arn,
+    id: component.policyId,
+    attachmentId: component.attachments[0]?.id,
+    attachmentIds: component.attachments.map(attachment => attachment.id)
+  };
+}
+
+/**
+ * Creates a standard IAM Policy owned by an OrgIamPolicy component.
  * 
  * @param options - Configuration options for the IAM Policy.
+ * @param opts - Resource options for the policy component.
  * @returns The created Policy resource and its identifiers.
  */
-export function createIamPolicy(options: IAMPolicyOptions): PolicyResult {
-  const { name, description, document, path, tags } = options;
-
-  const policy = new aws.iam.Policy(name, {
-    description,
-    policy: JSON.stringify(document),
-    path,
-    tags: {
-      ...tags,
-      Environment: options.environment || "default",
-      ManagedBy: "pulumi"
-    }
-  });
+export function createIamPolicy(options: IAMPolicyOptions, opts?: ComponentResourceOptions): PolicyResult {
+  const component = new OrgIamPolicy(options.name, options, opts);
 
   return {
-    policy,
-    arn: policy.arn,
-    id: policy.id
+    policy: component.policy,
+    arn: component.arn,
+    id: component.policyId
   };
 }
 
 /**
- * Creates a Service Control Policy and attaches it to the specified target.
+ * Creates a Service Control Policy and attaches it to the specified targets.
  * 
  * @param options - Configuration options for the SCP.
+ * @param opts - Resource options for the policy component.
  * @returns The created Policy resource and attachment details.
  */
-export function createServiceControlPolicy(options: SCPOptions): PolicyResult {
-  const { name, description, document, targetId } = options;
-
-  // Create the policy
-  const policy = new aws.organizations.Policy(name, {
-    content: JSON.stringify(document),
-    description,
-    name,
-    type: "SERVICE_CONTROL_POLICY"
-  });
-
-  // Attach the policy to the target
-  const attachment = new aws.organizations.PolicyAttachment(`${name}-attachment`, {
-    policyId: policy.id,
-    targetId: targetId
-  });
-
-  return {
-    policy: policy as unknown as aws.iam.Policy, // Type cast for consistency
-    arn: policy.arn,
-    id: policy.id,
-    attachmentId: attachment.id
-  };
+export function createServiceControlPolicy(options: SCPOptions, opts?: ComponentResourceOptions): PolicyResult {
+  return toPolicyResult(new OrgServiceControlPolicy(options.name, options, opts));
 }
 
 /**
- * Creates a Tag Policy and configures it for the organization.
+ * Creates a Tag Policy and attaches it to the specified targets, if any.
  * 
  * @param options - Configuration options for the Tag Policy.
- * @returns The created Policy resource and its identifiers.
+ * @param opts - Resource options for the policy component.
+ * @returns The created Policy resource and attachment details.
+ */
+export function createTagPolicy(options: TagPolicyOptions, opts?: ComponentResourceOptions): PolicyResult {
+  return toPolicyResult(new OrgTagPolicy(options.name, options, opts));
+}
+
+/**
+ * Creates a Backup Policy and attaches it to the specified targets, if any.
+ * 
+ * @param options - Configuration options for the Backup Policy.
+ * @param opts - Resource options for the policy component.
+ * @returns The created Policy resource and attachment details.
  */
-export function createTagPolicy(options: TagPolicyOptions): PolicyResult {
-  const { name, description, document, targetId } = options;
+export function createBackupPolicy(options: BackupPolicyOptions, opts?: ComponentResourceOptions): PolicyResult {
+  return toPolicyResult(new OrgBackupPolicy(options.name, options, opts));
+}
 
-  // Create the policy with the correct AWS Organizations tag policy format
-  const policy = new aws.organizations.Policy(name, {
-    content: JSON.stringify(document),
-    description,
-    name,
-    type: "TAG_POLICY"
-  });
+/**
+ * Creates an AI services opt-out Policy and attaches it to the specified targets, if any.
+ * 
+ * @param options - Configuration options for the AI services opt-out Policy.
+ * @param opts - Resource options for the policy component.
+ * @returns The created Policy resource and attachment details.
+ */
+export function createAiServicesOptOutPolicy(
+  options: AiServicesOptOutPolicyOptions,
+  opts?: ComponentResourceOptions
+): PolicyResult {
+  return toPolicyResult(new OrgAiServicesOptOutPolicy(options.name, options, opts));
+}
 
-  // Attach the policy to the target if targetId is provided
-  let attachment;
-  if (targetId) {
-    attachment = new aws.organizations.PolicyAttachment(`${name}-attachment`, {
-      policyId: policy.id,
-      targetId: targetId
-    });
-  }
+/**
+ * Creates a Resource Control Policy and attaches it to the specified targets, if any.
+ * 
+ * @param options - Configuration options for the RCP.
+ * @param opts - Resource options for the policy component.
+ * @returns The created Policy resource and attachment details.
+ */
+export function createResourceControlPolicy(options: RCPOptions, opts?: ComponentResourceOptions): PolicyResult {
+  return toPolicyResult(new OrgResourceControlPolicy(options.name, options, opts));
+}
 
-  return {
-    policy: policy as unknown as aws.iam.Policy, // Type cast for consistency
-    arn: policy.arn,
-    id: policy.id,
-    attachmentId: attachment?.id
-  };
+/**
+ * Creates a declarative policy for EC2 and attaches it to the specified targets, if any.
+ * 
+ * @param options - Configuration options for the declarative policy.
+ * @param opts - Resource options for the policy component.
+ * @returns The created Policy resource and attachment details.
+ */
+export function createDeclarativeEc2Policy(
+  options: DeclarativeEc2PolicyOptions,
+  opts?: ComponentResourceOptions
+): PolicyResult {
+  return toPolicyResult(new OrgDeclarativeEc2Policy(options.name, options, opts));
 }
 
 /**
  * Factory function that creates a policy based on its type.
  * 
  * @param options - Configuration options for the policy.
+ * @param opts - Resource options for the policy component.
  * @returns The created Policy resource and its identifiers.
  */
 export function createPolicy(
-  options: PolicyOptions & { type: PolicyType }
+  options: PolicyOptions & { type: PolicyType },
+  opts?: ComponentResourceOptions
 ): PolicyResult {
   switch (options.type) {
     case PolicyType.IAM:
-      return createIamPolicy(options as IAMPolicyOptions);
+      return createIamPolicy(options as IAMPolicyOptions, opts);
     case PolicyType.SERVICE_CONTROL_POLICY:
-      return createServiceControlPolicy(options as SCPOptions);
+      return createServiceControlPolicy(options as SCPOptions, opts);
     case PolicyType.TAG_POLICY:
-      return createTagPolicy(options as TagPolicyOptions);
+      return createTagPolicy(options as TagPolicyOptions, opts);
+    case PolicyType.BACKUP_POLICY:
+      return createBackupPolicy(options as BackupPolicyOptions, opts);
+    case PolicyType.AISERVICES_OPT_OUT_POLICY:
+      return createAiServicesOptOutPolicy(options as AiServicesOptOutPolicyOptions, opts);
+    case PolicyType.RESOURCE_CONTROL_POLICY:
+      return createResourceControlPolicy(options as RCPOptions, opts);
+    case PolicyType.DECLARATIVE_POLICY_EC2:
+      return createDeclarativeEc2Policy(options as DeclarativeEc2PolicyOptions, opts);
     default:
       const _exhaustiveCheck: never = options;
       throw new Error(`Unsupported policy type: ${(options as any).type}`);
@@ -1,5 +1,7 @@
 export * from './types';
+export * from './component';
 export * from './factory';
+export * from './tagValues';
 
 // Re-export specific factory functions for convenience
 export { 
@@ -7,4 +9,8 @@ export {
     createIamPolicy,
     createServiceControlPolicy,
     createTagPolicy,
+    createBackupPolicy,
+    createAiServicesOptOutPolicy,
+    createResourceControlPolicy,
+    createDeclarativeEc2Policy,
 } from './factory'; 
\ No newline at end of file
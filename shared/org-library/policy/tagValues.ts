@@ -0,0 +1,38 @@
+import { EnvironmentsConfig, OrganizationalUnitsConfig } from "../config-types";
+
+/**
+ * Value of the Environment tag for resources shared by all environments.
+ */
+export const ALL_ENVIRONMENTS_TAG_VALUE = "all";
+
+/**
+ * Collects the names of all OUs in the hierarchy.
+ */
+function organizationalUnitNames(ous: OrganizationalUnitsConfig): string[] {
+  return Object.values(ous).flatMap(ou => [
+    ou.name,
+    ...(ou.children ? organizationalUnitNames(ou.children) : [])
+  ]);
+}
+
+/**
+ * Derives the allowed values of the Environment tag: the OU names (OUs are
+ * tagged with their own name), the environment names and "all".
+ * Tag policies and config validation both use this list, so adding an OU or
+ * an environment is all it takes to allow a new value.
+ *
+ * @param ous - The organizational unit hierarchy.
+ * @param environments - The environments config.
+ * @returns The allowed values, sorted.
+ */
+export function environmentTagValues(
+  ous: OrganizationalUnitsConfig,
+  environments: EnvironmentsConfig
+): string[] {
+  const values = new Set([
+    ...organizationalUnitNames(ous),
+    ...Object.keys(environments),
+    ALL_ENVIRONMENTS_TAG_VALUE
+  ]);
+  return Array.from(values).sort();
+}
@@ -1,5 +1,6 @@
 import * as aws from "@pulumi/aws";
 import { Input } from "@pulumi/pulumi";
+import { PolicyDocument } from "../policyDocument/types";
 
 /**
  * Types of policies supported by AWS Organizations
@@ -8,9 +9,19 @@ import { Input } from "@pulumi/pulumi";
 export enum PolicyType {
     IAM = "IAM",
     SERVICE_CONTROL_POLICY = "SERVICE_CONTROL_POLICY", 
-    TAG_POLICY = "TAG_POLICY"
+    TAG_POLICY = "TAG_POLICY",
+    BACKUP_POLICY = "BACKUP_POLICY",
+    AISERVICES_OPT_OUT_POLICY = "AISERVICES_OPT_OUT_POLICY",
+    RESOURCE_CONTROL_POLICY = "RESOURCE_CONTROL_POLICY",
+    DECLARATIVE_POLICY_EC2 = "DECLARATIVE_POLICY_EC2"
 }
 
+/**
+ * Policy types that can be enabled on an organization root
+ * (every type except IAM), as plain strings for use in config files
+ */
+export type OrganizationPolicyType = `${Exclude<PolicyType, PolicyType.IAM>}`;
+
 /**
  * Environment types for policies
  */
@@ -19,9 +30,16 @@ export enum PolicyEnvironment {
     STAGING = "staging",
     SANDBOX1 = "sandbox1",
     SANDBOX2 = "sandbox2",
+    QA = "qa",
     DEV = "dev"
 }
 
+/**
+ * An IAM-grammar policy document: the typed model, or the aws.iam shape
+ * when statements contain outputs such as ARNs of other resources
+ */
+export type PolicyDocumentInput = PolicyDocument | aws.iam.PolicyDocument;
+
 /**
  * Base options for all policy types
  */
@@ -38,7 +56,15 @@ export interface BasePolicyOptions {
  */
 export interface IAMPolicyOptions extends BasePolicyOptions {
     type: PolicyType.IAM;
-    document: aws.iam.PolicyDocument;
+    document: PolicyDocumentInput;
+}
+
+/**
+ * A target an Organizations policy is attached to
+ */
+export interface PolicyTarget {
+    name: string;             // Stable key used in the attachment's logical name, e.g. "ou-prod"
+    targetId: Input<string>;  // The Organization root, OU, or Account ID
 }
 
 /**
@@ -46,8 +72,9 @@ export interface IAMPolicyOptions extends BasePolicyOptions {
  */
 export interface SCPOptions extends BasePolicyOptions {
     type: PolicyType.SERVICE_CONTROL_POLICY;
-    document: aws.iam.PolicyDocument;
-    targetId: Input<string>;  // The Organization, OU, or Account ID to attach the policy to
+    document: PolicyDocument;
+    targetId?: Input<string>;  // A single Organization, OU, or Account ID to attach the policy to
+    targets?: PolicyTarget[];  // Targets to attach the policy to, one attachment each
 }
 
 /**
@@ -73,15 +100,177 @@ export interface TagPolicyDocument {
     };
 }
 
+/**
+ * Value setting of a management policy document, with the inheritance
+ * operators child policies may use
+ */
+export interface PolicyValue<T> {
+    "@@assign"?: T;
+    "@@append"?: T;
+    "@@remove"?: T;
+    "@@operators_allowed_for_child_policies"?: string[];
+}
+
+/**
+ * AWS Organizations Backup Policy document structure
+ */
+export interface BackupPolicyDocument {
+    plans: {
+        [planName: string]: {
+            regions?: PolicyValue<string[]>;
+            rules: {
+                [ruleName: string]: {
+                    schedule_expression?: PolicyValue<string>;
+                    start_backup_window_minutes?: PolicyValue<string>;
+                    complete_backup_window_minutes?: PolicyValue<string>;
+                    target_backup_vault_name: PolicyValue<string>;
+                    lifecycle?: {
+                        move_to_cold_storage_after_days?: PolicyValue<string>;
+                        delete_after_days?: PolicyValue<string>;
+                    };
+                    recovery_point_tags?: {
+                        [tagName: string]: {
+                            tag_key: PolicyValue<string>;
+                            tag_value: PolicyValue<string>;
+                        };
+                    };
+                    copy_actions?: {
+                        [targetVaultArn: string]: {
+                            target_backup_vault_arn: PolicyValue<string>;
+                            lifecycle?: {
+                                move_to_cold_storage_after_days?: PolicyValue<string>;
+                                delete_after_days?: PolicyValue<string>;
+                            };
+                        };
+                    };
+                };
+            };
+            selections?: {
+                tags?: {
+                    [selectionName: string]: {
+                        iam_role_arn: PolicyValue<string>;
+                        tag_key: PolicyValue<string>;
+                        tag_value: PolicyValue<string[]>;
+                    };
+                };
+            };
+            advanced_backup_settings?: {
+                [resourceType: string]: {
+                    [setting: string]: PolicyValue<string>;
+                };
+            };
+            backup_plan_tags?: {
+                [tagName: string]: {
+                    tag_key: PolicyValue<string>;
+                    tag_value: PolicyValue<string>;
+                };
+            };
+        };
+    };
+}
+
+/**
+ * AWS Organizations AI services opt-out policy document structure.
+ * Service keys are AI service names or "default" for all services.
+ */
+export interface AiServicesOptOutPolicyDocument {
+    services: {
+        [serviceName: string]: {
+            opt_out_policy: PolicyValue<"optIn" | "optOut">;
+        };
+    };
+}
+
+/**
+ * AWS Organizations declarative policy for EC2 document structure
+ */
+export interface DeclarativeEc2PolicyDocument {
+    ec2_attributes: {
+        image_block_public_access?: {
+            state: PolicyValue<"unblocked" | "block_new_sharing">;
+        };
+        snapshot_block_public_access?: {
+            state: PolicyValue<"unblocked" | "block_new_sharing" | "block_all_sharing">;
+        };
+        serial_console_access?: {
+            status: PolicyValue<"enabled" | "disabled">;
+        };
+        instance_metadata_defaults?: {
+            http_tokens?: PolicyValue<"no_preference" | "required" | "optional">;
+            http_put_response_hop_limit?: PolicyValue<string>;
+            http_endpoint?: PolicyValue<"no_preference" | "enabled" | "disabled">;
+            instance_metadata_tags?: PolicyValue<"no_preference" | "enabled" | "disabled">;
+        };
+        vpc_block_public_access?: {
+            internet_gateway_block: {
+                mode: PolicyValue<"off" | "block_ingress" | "block_bidirectional">;
+                exclusions_allowed?: PolicyValue<"enabled" | "disabled">;
+            };
+        };
+        allowed_images_settings?: {
+            state: PolicyValue<"disabled" | "audit_mode" | "enabled">;
+            image_criteria?: {
+                [criteriaName: string]: {
+                    allowed_image_providers?: PolicyValue<string[]>;
+                };
+            };
+        };
+        exception_message?: PolicyValue<string>;
+    };
+}
+
 /**
  * Options for Tag Policies
  */
 export interface TagPolicyOptions extends BasePolicyOptions {
     type: PolicyType.TAG_POLICY;
     document: TagPolicyDocument;
-    targetId?: Input<string>; // The Organization, OU, or Account ID to attach the policy to
+    targetId?: Input<string>;  // A single Organization, OU, or Account ID to attach the policy to
+    targets?: PolicyTarget[];  // Targets to attach the policy to, one attachment each
+}
+
+/**
+ * Options for Backup Policies.
+ * The organization needs trusted access for backup.amazonaws.com.
+ */
+export interface BackupPolicyOptions extends BasePolicyOptions {
+    type: PolicyType.BACKUP_POLICY;
+    document: BackupPolicyDocument;
+    targetId?: Input<string>;  // A single Organization, OU, or Account ID to attach the policy to
+    targets?: PolicyTarget[];  // Targets to attach the policy to, one attachment each
+}
+
+/**
+ * Options for AI services opt-out Policies
+ */
+export interface AiServicesOptOutPolicyOptions extends BasePolicyOptions {
+    type: PolicyType.AISERVICES_OPT_OUT_POLICY;
+    document: AiServicesOptOutPolicyDocument;
+    targetId?: Input<string>;  // A single Organization, OU, or Account ID to attach the policy to
+    targets?: PolicyTarget[];  // Targets to attach the policy to, one attachment each
 }
 
+/**
+ * Options for Resource Control Policies.
+ * RCPs use the IAM policy grammar, but only Deny statements take effect.
+ */
+export interface RCPOptions extends BasePolicyOptions {
+    type: PolicyType.RESOURCE_CONTROL_POLICY;
+    document: PolicyDocument;
+    targetId?: Input<string>;  // A single Organization, OU, or Account ID to attach the policy to
+    targets?: PolicyTarget[];  // Targets to attach the policy to, one attachment each
+}
+
+/**
+ * Options for declarative policies for EC2.
+ * The organization needs trusted access for declarative-policies.ec2.amazonaws.com.
+ */
+export interface DeclarativeEc2PolicyOptions extends BasePolicyOptions {
+    type: PolicyType.DECLARATIVE_POLICY_EC2;
+    document: DeclarativeEc2PolicyDocument;
+    targetId?: Input<string>;  // A single Organization, OU, or Account ID to attach the policy to
+    targets?: PolicyTarget[];  // Targets to attach the policy to, one attachment each
+}
 
 /**
  * Union type for all policy options
@@ -90,6 +279,15 @@ export type PolicyOptions =
     | IAMPolicyOptions 
     | SCPOptions 
     | TagPolicyOptions
+    | BackupPolicyOptions
+    | AiServicesOptOutPolicyOptions
+    | RCPOptions
+    | DeclarativeEc2PolicyOptions
+
+/**
+ * Options for the policy types managed by AWS Organizations
+ */
+export type OrganizationsPolicyOptions = Exclude<PolicyOptions, IAMPolicyOptions>;
 
 /**
  * Return type for policy creation functions
@@ -99,4 +297,5 @@ export interface PolicyResult {
     arn: Input<string>;
     id: Input<string>;
     attachmentId?: Input<string>;  // For Organization policies that are attached
+    attachmentIds?: Input<string>[];  // For Organization policies attached to several targets
 }
\ No newline at end of file
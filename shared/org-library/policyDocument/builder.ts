@@ -0,0 +1,149 @@
+import {
+  ConditionBlock,
+  ConditionKey,
+  ConditionOperator,
+  OneOrMany,
+  PolicyDocument,
+  PolicyEffect,
+  PolicyStatement,
+  Principal
+} from "./types";
+
+/**
+ * Composes a PolicyStatement step by step. Every setter returns the builder,
+ * and `build` checks that the statement has exactly one of Action/NotAction.
+ *
+ * @example
+ * allow("sts:AssumeRole")
+ *   .sid("TrustAccounts")
+ *   .principal({ AWS: "arn:aws:iam::111111111111:root" })
+ *   .condition("Bool", "aws:MultiFactorAuthPresent", "true")
+ *   .build();
+ */
+export class PolicyStatementBuilder {
+  private statementSid?: string;
+  private actionList: string[] = [];
+  private notActionList: string[] = [];
+  private resourceList: string[] = [];
+  private notResourceList: string[] = [];
+  private statementPrincipal?: Principal;
+  private statementNotPrincipal?: Principal;
+  private conditions: ConditionBlock = {};
+
+  constructor(private readonly effect: PolicyEffect) {}
+
+  /** Sets the statement ID. */
+  sid(sid: string): this {
+    this.statementSid = sid;
+    return this;
+  }
+
+  /** Adds actions the statement applies to. */
+  actions(...actions: string[]): this {
+    this.actionList.push(...actions);
+    return this;
+  }
+
+  /** Adds actions the statement applies to all but. */
+  notActions(...actions: string[]): this {
+    this.notActionList.push(...actions);
+    return this;
+  }
+
+  /** Adds resources the statement applies to. */
+  resources(...resources: string[]): this {
+    this.resourceList.push(...resources);
+    return this;
+  }
+
+  /** Adds resources the statement applies to all but. */
+  notResources(...resources: string[]): this {
+    this.notResourceList.push(...resources);
+    return this;
+  }
+
+  /** Sets the principal of a trust or resource-based policy statement. */
+  principal(principal: Principal): this {
+    this.statementPrincipal = principal;
+    return this;
+  }
+
+  /** Sets the principal a trust or resource-based policy statement excludes. */
+  notPrincipal(principal: Principal): this {
+    this.statementNotPrincipal = principal;
+    return this;
+  }
+
+  /** Adds a condition test; tests on the same operator are combined. */
+  condition(operator: ConditionOperator, key: ConditionKey, value: OneOrMany<string>): this {
+    this.conditions[operator] = { ...this.conditions[operator], [key]: value };
+    return this;
+  }
+
+  /**
+   * @returns The statement, with single-entry lists collapsed to strings.
+   */
+  build(): PolicyStatement {
+    const label = this.statementSid ? `Statement "${this.statementSid}"` : "Statement";
+    if (this.actionList.length > 0 && this.notActionList.length > 0) {
+      throw new Error(`${label} has both Action and NotAction`);
+    }
+    if (this.actionList.length === 0 && this.notActionList.length === 0) {
+      throw new Error(`${label} has neither Action nor NotAction`);
+    }
+    const collapse = (values: string[]): OneOrMany<string> => values.length === 1 ? values[0] : values;
+
+    const actions = this.actionList.length > 0
+      ? { Action: collapse(this.actionList) }
+      : { NotAction: collapse(this.notActionList) };
+    const resources = this.notResourceList.length > 0
+      ? { NotResource: collapse(this.notResourceList) }
+      : this.resourceList.length > 0 ? { Resource: collapse(this.resourceList) } : {};
+    const principals = this.statementNotPrincipal
+      ? { NotPrincipal: this.statementNotPrincipal }
+      : this.statementPrincipal ? { Principal: this.statementPrincipal } : {};
+
+    return {
+      ...(this.statementSid ? { Sid: this.statementSid } : {}),
+      Effect: this.effect,
+      ...principals,
+      ...actions,
+      ...resources,
+      ...(Object.keys(this.conditions).length > 0 ? { Condition: this.conditions } : {})
+    };
+  }
+}
+
+/**
+ * Starts an Allow statement.
+ *
+ * @param actions - Actions the statement allows.
+ * @returns A builder for the statement.
+ */
+export function allow(...actions: string[]): PolicyStatementBuilder {
+  return new PolicyStatementBuilder("Allow").actions(...actions);
+}
+
+/**
+ * Starts a Deny statement.
+ *
+ * @param actions - Actions the statement denies.
+ * @returns A builder for the statement.
+ */
+export function deny(...actions: string[]): PolicyStatementBuilder {
+  return new PolicyStatementBuilder("Deny").actions(...actions);
+}
+
+/**
+ * Assembles a 2012-10-17 policy document from statements or statement builders.
+ *
+ * @param statements - The statements, in order.
+ * @returns The policy document.
+ */
+export function policyDocument(...statements: (PolicyStatement | PolicyStatementBuilder)[]): PolicyDocument {
+  return {
+    Version: "2012-10-17",
+    Statement: statements.map(statement =>
+      statement instanceof PolicyStatementBuilder ? statement.build() : statement)
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * A value that may be given once or as a list.
+ */
+export type OneOrMany<T> = T | T[];
+
+/**
+ * Versions of the IAM policy language.
+ */
+export type PolicyVersion = "2008-10-17" | "2012-10-17";
+
+/**
+ * Whether a statement allows or denies access.
+ */
+export type PolicyEffect = "Allow" | "Deny";
+
+/**
+ * The principal a resource-based or trust policy statement applies to.
+ */
+export type Principal =
+  | "*"
+  | { AWS: OneOrMany<string> }
+  | { Service: OneOrMany<string> }
+  | { Federated: OneOrMany<string> };
+
+/**
+ * Condition operators without the IfExists suffix and set qualifiers.
+ */
+export type BaseConditionOperator =
+  | "StringEquals" | "StringNotEquals" | "StringEqualsIgnoreCase" | "StringNotEqualsIgnoreCase"
+  | "StringLike" | "StringNotLike"
+  | "NumericEquals" | "NumericNotEquals" | "NumericLessThan" | "NumericLessThanEquals"
+  | "NumericGreaterThan" | "NumericGreaterThanEquals"
+  | "DateEquals" | "DateNotEquals" | "DateLessThan" | "DateLessThanEquals"
+  | "DateGreaterThan" | "DateGreaterThanEquals"
+  | "Bool" | "BinaryEquals" | "IpAddress" | "NotIpAddress"
+  | "ArnEquals" | "ArnLike" | "ArnNotEquals" | "ArnNotLike";
+
+/**
+ * Every condition operator IAM supports: the base operators, optionally with
+ * the IfExists suffix and a ForAllValues:/ForAnyValue: qualifier, and Null.
+ */
+export type ConditionOperator =
+  | `${"" | "ForAllValues:" | "ForAnyValue:"}${BaseConditionOperator}${"" | "IfExists"}`
+  | "Null";
+
+/**
+ * Global condition keys, with the tag keys as patterns.
+ */
+export type GlobalConditionKey =
+  | "aws:CurrentTime" | "aws:EpochTime" | "aws:MultiFactorAuthAge" | "aws:MultiFactorAuthPresent"
+  | "aws:PrincipalAccount" | "aws:PrincipalArn" | "aws:PrincipalOrgID" | "aws:PrincipalOrgPaths"
+  | "aws:PrincipalType" | "aws:RequestedRegion" | "aws:SecureTransport" | "aws:SourceAccount"
+  | "aws:SourceArn" | "aws:SourceIp" | "aws:SourceVpc" | "aws:SourceVpce" | "aws:TagKeys"
+  | "aws:userid" | "aws:username" | "aws:ViaAWSService" | "aws:CalledVia"
+  | `aws:PrincipalTag/${string}` | `aws:RequestTag/${string}` | `aws:ResourceTag/${string}`;
+
+/**
+ * A condition key: a global key or a service- or provider-specific key
+ * such as `sts:ExternalId` or `token.actions.githubusercontent.com:sub`.
+ */
+export type ConditionKey = GlobalConditionKey | `${string}:${string}`;
+
+/**
+ * The key/value tests of one condition operator.
+ */
+export interface ConditionValues {
+  [key: `${string}:${string}`]: OneOrMany<string>;
+}
+
+/**
+ * The Condition block of a statement: operators mapped to key/value tests.
+ */
+export type ConditionBlock = {
+  [operator in ConditionOperator]?: ConditionValues;
+};
+
+/**
+ * Action or NotAction; a statement has exactly one of them.
+ */
+export type StatementActions =
+  | { Action: OneOrMany<string>; NotAction?: never }
+  | { NotAction: OneOrMany<string>; Action?: never };
+
+/**
+ * Resource or NotResource; trust policies have neither.
+ */
+export type StatementResources =
+  | { Resource?: OneOrMany<string>; NotResource?: never }
+  | { NotResource: OneOrMany<string>; Resource?: never };
+
+/**
+ * Principal or NotPrincipal; identity-based policies have neither.
+ */
+export type StatementPrincipals =
+  | { Principal?: Principal; NotPrincipal?: never }
+  | { NotPrincipal: Principal; Principal?: never };
+
+/**
+ * A single statement of a policy document.
+ */
+export type PolicyStatement = {
+  Sid?: string;
+  Effect: PolicyEffect;
+  Condition?: ConditionBlock;
+} & StatementActions & StatementResources & StatementPrincipals;
+
+/**
+ * An IAM policy document, as used by identity policies, SCPs, RCPs and trust policies.
+ */
+export interface PolicyDocument {
+  Version: PolicyVersion;
+  Id?: string;
+  Statement: PolicyStatement[];
+}
@@ -0,0 +1,76 @@
+import { ConfigSet } from "../config-types";
+import { environmentGroups, environmentUsers } from "../environment/membership";
+import { resolveRolePolicies, resolveUserPolicies, SimulationOptions } from "../simulator";
+import { AWS_MANAGED_POLICY_ACCESS, classifyPolicyDocument, highestAccess } from "./classify";
+import { AccessLevel, EnvironmentAccessReport, ReportedPolicy, UserAccessEntry } from "./types";
+
+/**
+ * Looks up the document of a policy resolved by the simulator and classifies it.
+ * Policies the simulator cannot resolve are classified by AWS_MANAGED_POLICY_ACCESS,
+ * or as UNKNOWN.
+ */
+function reportPolicy(
+  name: string,
+  via: string,
+  resolved: { name: string; source: string; document: ReportedPolicy["document"] }[]
+): ReportedPolicy {
+  const document = resolved.find(policy => policy.name === name && policy.source === via)?.document;
+  return {
+    name,
+    via,
+    access: document ? classifyPolicyDocument(document) : AWS_MANAGED_POLICY_ACCESS[name] ?? AccessLevel.UNKNOWN,
+    document
+  };
+}
+
+/**
+ * Builds the access report of one environment: every user the environment
+ * stack creates, with the policies it gets through its groups, directly and
+ * through the roles it can assume.
+ *
+ * @param config - The configuration set.
+ * @param environment - Name of the environment, a key of the environments config.
+ * @param options - Simulator options, e.g. documents of further AWS-managed policies.
+ * @returns The environment's access report.
+ */
+export function buildAccessReport(
+  config: ConfigSet,
+  environment: string,
+  options: SimulationOptions = {}
+): EnvironmentAccessReport {
+  const envConfig = config.environments[environment];
+  if (!envConfig) {
+    throw new Error(`Unknown environment "${environment}"`);
+  }
+  const groups = environmentGroups(config, environment);
+  const roleNames = new Set((config.roles[environment] || []).map(role => role.name));
+
+  const users = environmentUsers(config, environment).map((user): UserAccessEntry => {
+    const resolved = resolveUserPolicies(config, environment, user.username, options).identity;
+    const userGroups = groups.filter(group => user.groups?.includes(group.name));
+    const directPolicies = user.managedPolicies || [];
+    const assumableRoles = (user.assumeRoles || []).filter(role => roleNames.has(role));
+
+    const policies: ReportedPolicy[] = [
+      ...userGroups.flatMap(group => [...(group.policyArns || []), ...(group.policies || [])]
+        .map(policy => reportPolicy(policy, `group ${group.name}`, resolved))),
+      ...directPolicies.map(policy => reportPolicy(policy, `user ${user.username}`, resolved)),
+      ...assumableRoles.flatMap(roleName => {
+        const rolePolicies = resolveRolePolicies(config, environment, roleName, options).identity;
+        const role = config.roles[environment].find(candidate => candidate.name === roleName)!;
+        return (role.policyArns || []).map(policy => reportPolicy(policy, `role ${roleName}`, rolePolicies));
+      })
+    ];
+
+    return {
+      username: user.username,
+      groups: userGroups.map(group => group.name),
+      directPolicies,
+      assumableRoles,
+      policies,
+      access: highestAccess(policies.map(policy => policy.access))
+    };
+  });
+
+  return { environment, displayName: envConfig.displayName, users };
+}
@@ -0,0 +1,60 @@
+import { PolicyDocument } from "../policyDocument/types";
+import { AccessLevel } from "./types";
+
+/**
+ * Access levels of AWS-managed policies whose documents are not in the
+ * simulator's catalog.
+ */
+export const AWS_MANAGED_POLICY_ACCESS: { [arn: string]: AccessLevel } = {
+  "arn:aws:iam::aws:policy/ReadOnlyAccess": AccessLevel.READ,
+  "arn:aws:iam::aws:policy/SecurityAudit": AccessLevel.READ,
+  "arn:aws:iam::aws:policy/job-function/ViewOnlyAccess": AccessLevel.READ
+};
+
+const READ_ONLY_VERBS = ["Get", "List", "Describe", "Head", "View", "Search", "Query", "Scan", "Select", "BatchGet", "Lookup", "Filter"];
+
+/**
+ * Whether an action pattern only covers read-only actions, e.g. `s3:Get*`
+ * or `logs:FilterLogEvents`. Service-wide patterns such as `s3:*` are not.
+ */
+function isReadOnlyAction(action: string): boolean {
+  const name = action.split(":")[1] ?? "";
+  return READ_ONLY_VERBS.some(verb => name.startsWith(verb));
+}
+
+const ORDER = [AccessLevel.NONE, AccessLevel.UNKNOWN, AccessLevel.READ, AccessLevel.WRITE, AccessLevel.ADMIN];
+
+/**
+ * Returns the higher of the given access levels.
+ */
+export function highestAccess(levels: AccessLevel[]): AccessLevel {
+  return levels.reduce(
+    (highest, level) => ORDER.indexOf(level) > ORDER.indexOf(highest) ? level : highest,
+    AccessLevel.NONE
+  );
+}
+
+/**
+ * Classifies a policy document by its Allow statements. Conditions are not
+ * taken into account, so the result is an upper bound.
+ *
+ * @param document - The policy document.
+ * @returns ADMIN for `*` or `iam:*` on `*`, WRITE for any other non-read-only action,
+ *   READ if all allowed actions are read-only, NONE without Allow statements.
+ */
+export function classifyPolicyDocument(document: PolicyDocument): AccessLevel {
+  const levels = document.Statement
+    .filter(statement => statement.Effect === "Allow")
+    .map(statement => {
+      const resources = statement.Resource === undefined ? [] : [statement.Resource].flat();
+      if (statement.NotAction !== undefined) {
+        return AccessLevel.WRITE;
+      }
+      const actions = [statement.Action].flat();
+      if (resources.includes("*") && actions.some(action => action === "*" || action === "iam:*")) {
+        return AccessLevel.ADMIN;
+      }
+      return actions.every(isReadOnlyAction) ? AccessLevel.READ : AccessLevel.WRITE;
+    });
+  return highestAccess(levels);
+}
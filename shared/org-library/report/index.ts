@@ -0,0 +1,4 @@
+export * from "./build";
+export * from "./classify";
+export * from "./render";
+export * from "./types";
@@ -0,0 +1,75 @@
+import { EnvironmentAccessReport } from "./types";
+
+/**
+ * Quotes a CSV field if it contains a separator, quote or line break.
+ */
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Renders an access report as Markdown: a summary table of users, then each
+ * user's policies with their documents.
+ *
+ * @param report - The environment's access report.
+ * @returns The Markdown document.
+ */
+export function renderAccessReportMarkdown(report: EnvironmentAccessReport): string {
+  const lines = [
+    `# Access report: ${report.displayName} (${report.environment})`,
+    "",
+    "| User | Groups | Direct policies | Assumable roles | Highest access |",
+    "|------|--------|-----------------|-----------------|----------------|",
+    ...report.users.map(user =>
+      `| ${user.username} | ${user.groups.join(", ") || "-"} | ${user.directPolicies.join(", ") || "-"} | ` +
+      `${user.assumableRoles.join(", ") || "-"} | ${user.access} |`)
+  ];
+
+  for (const user of report.users) {
+    lines.push("", `## ${user.username}`, "");
+    if (user.policies.length === 0) {
+      lines.push("No policies.");
+      continue;
+    }
+    lines.push("| Policy | Via | Access |", "|--------|-----|--------|");
+    lines.push(...user.policies.map(policy => `| ${policy.name} | ${policy.via} | ${policy.access} |`));
+    for (const policy of user.policies.filter(candidate => candidate.document)) {
+      lines.push(
+        "",
+        `<details><summary>${policy.name} (${policy.via})</summary>`,
+        "",
+        "```json",
+        JSON.stringify(policy.document, null, 2),
+        "```",
+        "",
+        "</details>"
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Renders an access report as CSV with one row per user and policy.
+ * Users without policies get a single row with empty policy columns.
+ *
+ * @param report - The environment's access report.
+ * @returns The CSV document, with a header row.
+ */
+export function renderAccessReportCsv(report: EnvironmentAccessReport): string {
+  const header = ["environment", "user", "groups", "assumable_roles", "policy", "via", "access", "document"];
+  const rows = report.users.flatMap(user => {
+    const userFields = [report.environment, user.username, user.groups.join(";"), user.assumableRoles.join(";")];
+    if (user.policies.length === 0) {
+      return [[...userFields, "", "", "", ""]];
+    }
+    return user.policies.map(policy => [
+      ...userFields,
+      policy.name,
+      policy.via,
+      policy.access,
+      policy.document ? JSON.stringify(policy.document) : ""
+    ]);
+  });
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,52 @@
+import { PolicyDocument } from "../policyDocument/types";
+
+/**
+ * How much a policy lets its holder do, from most to least.
+ */
+export enum AccessLevel {
+  /** Full access: `*` or `iam:*` on all resources. */
+  ADMIN = "admin",
+  /** Any action that is not read-only. */
+  WRITE = "write",
+  /** Only read-only actions (Get, List, Describe, ...). */
+  READ = "read",
+  /** No Allow statements, e.g. a policy of guardrail Denies. */
+  NONE = "none",
+  /** The document is not known offline. */
+  UNKNOWN = "unknown"
+}
+
+/**
+ * A policy that applies to a user, and how it reaches the user.
+ */
+export interface ReportedPolicy {
+  /** Policy name or ARN. */
+  name: string;
+  /** `group <name>`, `user <name>` or `role <name>`. */
+  via: string;
+  access: AccessLevel;
+  /** The resolved document; undefined for AWS-managed policies not known offline. */
+  document?: PolicyDocument;
+}
+
+/**
+ * Access of one user in one environment.
+ */
+export interface UserAccessEntry {
+  username: string;
+  groups: string[];
+  directPolicies: string[];
+  assumableRoles: string[];
+  policies: ReportedPolicy[];
+  /** Highest access level over all policies, including those of assumable roles. */
+  access: AccessLevel;
+}
+
+/**
+ * Access of every user an environment stack creates.
+ */
+export interface EnvironmentAccessReport {
+  environment: string;
+  displayName: string;
+  users: UserAccessEntry[];
+}
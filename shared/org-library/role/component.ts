@@ -0,0 +1,78 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions, Input, Output, output } from "@pulumi/pulumi";
+import { childResourceOptions } from "../component";
+import { assertUniqueNames, logicalName, resolveAttachments } from "../naming";
+import { PolicyDocumentInput } from "../policy/types";
+import { RoleOptions } from "./types";
+
+/**
+ * Serializes a policy document unless it is already a JSON string.
+ */
+function toPolicyJson(policy: Input<string> | PolicyDocumentInput): Input<string> {
+  return typeof policy === "object" && "Statement" in policy
+    ? output(policy).apply(document => JSON.stringify(document))
+    : policy as Input<string>;
+}
+
+/**
+ * An IAM Role together with its managed policy attachments and inline policies.
+ */
+export class OrgIamRole extends ComponentResource {
+  public readonly role: aws.iam.Role;
+  public readonly attachments: aws.iam.RolePolicyAttachment[];
+  public readonly inlinePolicies: aws.iam.RolePolicy[];
+  public readonly arn: Output<string>;
+  public readonly roleName: Output<string>;
+
+  /**
+   * @param name - Logical name for the IAM Role resource.
+   * @param options - Configuration options for the IAM Role.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: RoleOptions, opts?: ComponentResourceOptions) {
+    super("org-library:iam:OrgIamRole", name, {}, opts);
+
+    const {
+      assumeRolePolicy,
+      managedPolicyArns = [],
+      inlinePolicies = [],
+      ...roleArgs
+    } = options;
+
+    // Create the role
+    this.role = new aws.iam.Role(name, {
+      ...roleArgs,
+      assumeRolePolicy: toPolicyJson(assumeRolePolicy)
+    }, childResourceOptions(this));
+
+    // Attach managed policies; attachments used to be keyed by position
+    this.attachments = resolveAttachments(name, managedPolicyArns).map((attachment, index) =>
+      new aws.iam.RolePolicyAttachment(attachment.name, {
+        role: this.role.name,
+        policyArn: attachment.arn,
+      }, childResourceOptions(this, {}, [...attachment.aliases, `${name}-policy-${index}`]))
+    );
+
+    // Create inline policies
+    const inlineNames = inlinePolicies.map(({ name: policyName }) => ({
+      name: logicalName(name, "inline", policyName),
+      source: policyName
+    }));
+    assertUniqueNames(name, inlineNames);
+    this.inlinePolicies = inlinePolicies.map(({ name: policyName, policy }, index) =>
+      new aws.iam.RolePolicy(inlineNames[index].name, {
+        role: this.role.name,
+        name: policyName,
+        policy: toPolicyJson(policy),
+      }, childResourceOptions(this))
+    );
+
+    this.arn = this.role.arn;
+    this.roleName = this.role.name;
+
+    this.registerOutputs({
+      arn: this.arn,
+      roleName: this.roleName
+    });
+  }
+}
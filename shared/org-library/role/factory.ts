@@ -1,51 +1,20 @@
-import * as aws from "@pulumi/aws";
-import { Input, output } from "@pulumi/pulumi";
+import { ComponentResourceOptions } from "@pulumi/pulumi";
 import { RoleOptions, RoleResult } from "./types";
+import { OrgIamRole } from "./component";
 
 /**
- * Creates an IAM Role with an assume-role policy, managed, and inline policies.
+ * Creates an IAM Role with an assume-role policy, managed policy attachments,
+ * inline policies and an optional permissions boundary.
  *
+ * All child resources are registered up front by an OrgIamRole component with
+ * names derived from the role's logical name, so several roles can live in one
+ * stack and previews show every attachment.
+ *
+ * @param name - Logical name for the IAM Role resource.
  * @param options - Configuration options for the IAM Role.
+ * @param opts - Resource options for the component, e.g. the provider of the account to create it in.
  * @returns The created Role resource.
  */
-export function createIamRole(options: RoleOptions): RoleResult {
-  const { assumeRolePolicy, managedPolicyArns = [], inlinePolicies = [], ...roleArgs } = options;
-
-  // Create the role
-  const role = new aws.iam.Role("role", {
-    ...roleArgs,
-    assumeRolePolicy: typeof assumeRolePolicy === 'string' 
-      ? assumeRolePolicy 
-      : JSON.stringify(assumeRolePolicy)
-  });
-
-  // Attach managed policies
-  output(managedPolicyArns).apply(arns => {
-    if (arns) {
-      arns.forEach(arn => {
-        if (arn) {
-          new aws.iam.RolePolicyAttachment(`role-attach-${arn.split('/').pop()}`, {
-            role: role.name,
-            policyArn: arn,
-          });
-        }
-      });
-    }
-  });
-
-  // Create inline policies
-  output(inlinePolicies).apply(policies => {
-    if (policies) {
-      policies.forEach(({ name: policyName, policy }) => {
-        if (policyName && policy) {
-          new aws.iam.RolePolicy(`role-inline-${policyName}`, {
-            role: role.name,
-            policy: typeof policy === 'string' ? policy : JSON.stringify(policy),
-          });
-        }
-      });
-    }
-  });
-
-  return role;
-} 
\ No newline at end of file
+export function createIamRole(name: string, options: RoleOptions, opts?: ComponentResourceOptions): RoleResult {
+  return new OrgIamRole(name, options, opts).role;
+}
@@ -1,2 +1,4 @@
+export * from "./component";
 export * from "./factory";
-export * from "./types"; 
\ No newline at end of file
+export * from "./trustPolicy";
+export * from "./types";
@@ -0,0 +1,124 @@
+import { all, Output } from "@pulumi/pulumi";
+import { RoleConfig, UserConfig } from "../config-types";
+import { allow, deny, PolicyDocument, policyDocument, PolicyStatementBuilder } from "../policyDocument";
+import { ResolvedTrustPolicyContext, TrustPolicyContext } from "./types";
+
+/**
+ * Resolves the usernames trusted by a role: users that list the role in
+ * assumeRoles, users named in the trust config and members of trusted groups.
+ */
+function trustedUsernames(role: RoleConfig, users: UserConfig[]): string[] {
+  const trust = role.trust || {};
+  const usernames = new Set<string>(trust.users || []);
+  for (const user of users) {
+    if (user.assumeRoles?.includes(role.name)) {
+      usernames.add(user.username);
+    }
+    if (user.groups?.some(group => trust.groups?.includes(group))) {
+      usernames.add(user.username);
+    }
+  }
+  return Array.from(usernames).sort();
+}
+
+/**
+ * Builds the trust policy document of a role once account IDs are known.
+ *
+ * @param role - The role configuration declaring the trusted principals.
+ * @param context - Resolved account IDs and the users of the configuration set.
+ * @returns The trust policy document.
+ */
+export function trustPolicyDocument(
+  role: RoleConfig,
+  context: ResolvedTrustPolicyContext
+): PolicyDocument {
+  const { accountId, accounts } = context;
+  const trust = role.trust || {};
+  const conditions = trust.conditions || {};
+  const usernames = trustedUsernames(role, context.users);
+  const statements: PolicyStatementBuilder[] = [];
+
+  // Users and principals of trusted accounts must have authenticated with MFA
+  const withMfa = (statement: PolicyStatementBuilder) => conditions.mfaRequired
+    ? statement.condition("Bool", "aws:MultiFactorAuthPresent", "true")
+    : statement;
+
+  if (usernames.length > 0) {
+    statements.push(withMfa(allow("sts:AssumeRole")
+      .sid("TrustUsers")
+      .principal({ AWS: `arn:aws:iam::${accountId}:root` })
+      .condition("ArnEquals", "aws:PrincipalArn",
+        usernames.map(username => `arn:aws:iam::${accountId}:user/users/${username}`))));
+  }
+
+  if (trust.accounts?.length) {
+    const accountRoots = trust.accounts.map(name => {
+      const account = accounts[name];
+      if (!account) {
+        throw new Error(`Role "${role.name}" trusts account "${name}", which is not exported by the foundation stack`);
+      }
+      return `arn:aws:iam::${account.id}:root`;
+    });
+    const statement = withMfa(allow("sts:AssumeRole")
+      .sid("TrustAccounts")
+      .principal({ AWS: accountRoots }));
+    if (conditions.externalId) {
+      statement.condition("StringEquals", "sts:ExternalId", conditions.externalId);
+    }
+    statements.push(statement);
+  }
+
+  if (trust.services?.length) {
+    statements.push(allow("sts:AssumeRole")
+      .sid("TrustServices")
+      .principal({ Service: trust.services }));
+  }
+
+  (trust.oidcProviders || []).forEach((provider, index) => {
+    const statement = allow("sts:AssumeRoleWithWebIdentity")
+      .sid(`TrustOidcProvider${index}`)
+      .principal({ Federated: `arn:aws:iam::${accountId}:oidc-provider/${provider.url}` });
+    if (provider.audiences?.length) {
+      statement.condition("StringEquals", `${provider.url}:aud`, provider.audiences);
+    }
+    if (provider.subjects?.length) {
+      statement.condition("StringLike", `${provider.url}:sub`, provider.subjects);
+    }
+    statements.push(statement);
+  });
+
+  // Trusted groups may have no members yet; IAM needs a statement all the same
+  if (statements.length === 0) {
+    statements.push(deny("sts:AssumeRole")
+      .sid("NoTrustedPrincipals")
+      .principal({ AWS: `arn:aws:iam::${accountId}:root` }));
+  }
+
+  return policyDocument(...statements);
+}
+
+/**
+ * Builds a least-privilege assume-role policy from a role's trust configuration.
+ *
+ * Same-account users are trusted through the account root restricted by
+ * `aws:PrincipalArn`, so the document does not depend on the users existing yet.
+ * Accounts are resolved by name from the foundation stack's accounts output.
+ * A role trusting only groups without members trusts nobody until they get some.
+ *
+ * @param role - The role configuration declaring the trusted principals.
+ * @param context - Account and user information used to resolve principals.
+ * @returns The trust policy document as a JSON string.
+ */
+export function buildTrustPolicy(role: RoleConfig, context: TrustPolicyContext): Output<string> {
+  const trust = role.trust || {};
+  const usernames = trustedUsernames(role, context.users);
+
+  if (usernames.length === 0 && !trust.groups?.length && !trust.accounts?.length && !trust.services?.length && !trust.oidcProviders?.length) {
+    throw new Error(
+      `Role "${role.name}" has no trusted principals; declare a trust section or reference it from a user's assumeRoles`
+    );
+  }
+
+  return all([context.accountId, context.accounts]).apply(([accountId, accounts]) =>
+    JSON.stringify(trustPolicyDocument(role, { accountId, accounts, users: context.users })));
+}
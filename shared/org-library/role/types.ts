@@ -1,11 +1,51 @@
 import * as aws from "@pulumi/aws";
+import { Input } from "@pulumi/pulumi";
+import { UserConfig } from "../config-types";
+import { PolicyArnInput } from "../naming";
+import { PolicyDocumentInput } from "../policy/types";
+
+/**
+ * Inline policy embedded in a role.
+ */
+export interface RoleInlinePolicy {
+  name: string;
+  policy: Input<string> | PolicyDocumentInput;
+}
 
 /**
  * Options for createIamRole.
+ * Managed and inline policies are created as separate resources instead of
+ * the exclusive `managedPolicyArns`/`inlinePolicies` role arguments.
  */
-export type RoleOptions = aws.iam.RoleArgs;
+export interface RoleOptions extends Omit<aws.iam.RoleArgs, "assumeRolePolicy" | "managedPolicyArns" | "inlinePolicies"> {
+  assumeRolePolicy: Input<string> | PolicyDocumentInput;
+  managedPolicyArns?: PolicyArnInput[];
+  inlinePolicies?: RoleInlinePolicy[];
+}
 
 /**
  * Return type for createIamRole.
  */
-export type RoleResult = aws.iam.Role; 
\ No newline at end of file
+export type RoleResult = aws.iam.Role;
+
+/**
+ * Values needed to resolve the principals of a role's trust configuration.
+ */
+export interface TrustPolicyContext {
+  /** ID of the account the role is created in. */
+  accountId: Input<string>;
+  /** Accounts exported by the foundation stack, keyed by account name. */
+  accounts: Input<{ [name: string]: { id: string } }>;
+  /** Users from the configuration set, used to resolve assumeRoles and group members. */
+  users: UserConfig[];
+}
+
+/**
+ * TrustPolicyContext with the account values resolved, for building the
+ * trust policy document outside of an apply.
+ */
+export interface ResolvedTrustPolicyContext {
+  accountId: string;
+  accounts: { [name: string]: { id: string } };
+  users: UserConfig[];
+}
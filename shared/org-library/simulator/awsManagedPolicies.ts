@@ -0,0 +1,68 @@
+import { PolicyDocument } from "../policyDocument/types";
+
+/**
+ * Documents of the AWS-managed policies the simulator knows offline. Large
+ * policies such as ReadOnlyAccess are not included; pass them through
+ * SimulationOptions.awsManagedPolicies when a simulation depends on them.
+ */
+export const AWS_MANAGED_POLICY_DOCUMENTS: { [arn: string]: PolicyDocument } = {
+  "arn:aws:iam::aws:policy/AdministratorAccess": {
+    Version: "2012-10-17",
+    Statement: [
+      { Effect: "Allow", Action: "*", Resource: "*" }
+    ]
+  },
+  "arn:aws:iam::aws:policy/PowerUserAccess": {
+    Version: "2012-10-17",
+    Statement: [
+      {
+        Effect: "Allow",
+        NotAction: ["iam:*", "organizations:*", "account:*"],
+        Resource: "*"
+      },
+      {
+        Effect: "Allow",
+        Action: [
+          "iam:CreateServiceLinkedRole",
+          "iam:DeleteServiceLinkedRole",
+          "iam:ListRoles",
+          "organizations:DescribeOrganization",
+          "account:ListRegions",
+          "account:GetAccountInformation"
+        ],
+        Resource: "*"
+      }
+    ]
+  },
+  "arn:aws:iam::aws:policy/IAMUserChangePassword": {
+    Version: "2012-10-17",
+    Statement: [
+      {
+        Effect: "Allow",
+        Action: ["iam:ChangePassword"],
+        Resource: ["arn:aws:iam::*:user/${aws:username}"]
+      },
+      {
+        Effect: "Allow",
+        Action: ["iam:GetAccountPasswordPolicy"],
+        Resource: "*"
+      }
+    ]
+  }
+};
+
+/**
+ * ARN of FullAWSAccess, the SCP AWS Organizations attaches to the root and to
+ * every new OU and account.
+ */
+export const FULL_AWS_ACCESS_ARN = "arn:aws:organizations::aws:policy/service_control_policy/p-FullAWSAccess";
+
+/**
+ * Document of the FullAWSAccess SCP.
+ */
+export const FULL_AWS_ACCESS_DOCUMENT: PolicyDocument = {
+  Version: "2012-10-17",
+  Statement: [
+    { Effect: "Allow", Action: "*", Resource: "*" }
+  ]
+};
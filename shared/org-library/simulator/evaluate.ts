@@ -0,0 +1,239 @@
+import { ConditionBlock, OneOrMany, PolicyStatement } from "../policyDocument/types";
+import {
+  MatchedStatement,
+  NamedPolicyDocument,
+  PolicyLayer,
+  PrincipalEvaluation,
+  RequestContext,
+  ResolvedPrincipalPolicies,
+  SimulationDecision
+} from "./types";
+
+/**
+ * The parts of a request the statements are matched against.
+ */
+export interface EvaluationRequest {
+  action: string;
+  resource: string;
+  context: RequestContext;
+}
+
+const toList = (value: OneOrMany<string> | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Matches a value against an IAM wildcard pattern (`*` and `?`).
+ */
+export function matchesWildcard(pattern: string, value: string, ignoreCase = false): boolean {
+  const source = pattern
+    .split("")
+    .map(char => char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "").test(value);
+}
+
+/**
+ * Replaces policy variables such as `${aws:username}` with request context values.
+ */
+function substituteVariables(value: string, context: RequestContext): string {
+  return value.replace(/\$\{([^}]+)\}/g, (variable, key: string) => {
+    const contextValue = context[key];
+    return typeof contextValue === "string" ? contextValue : variable;
+  });
+}
+
+/**
+ * Compares one request value with one policy value for a base operator.
+ * Returns undefined for operators the simulator does not evaluate.
+ */
+function compareValue(operator: string, requestValue: string, policyValue: string): boolean | undefined {
+  switch (operator) {
+    case "StringEquals":
+    case "ArnEquals":
+      return requestValue === policyValue;
+    case "StringEqualsIgnoreCase":
+      return requestValue.toLowerCase() === policyValue.toLowerCase();
+    case "StringLike":
+    case "ArnLike":
+      return matchesWildcard(policyValue, requestValue);
+    case "Bool":
+      return requestValue.toLowerCase() === policyValue.toLowerCase();
+    case "NumericEquals":
+      return Number(requestValue) === Number(policyValue);
+    case "NumericLessThan":
+      return Number(requestValue) < Number(policyValue);
+    case "NumericLessThanEquals":
+      return Number(requestValue) <= Number(policyValue);
+    case "NumericGreaterThan":
+      return Number(requestValue) > Number(policyValue);
+    case "NumericGreaterThanEquals":
+      return Number(requestValue) >= Number(policyValue);
+    default:
+      return undefined;
+  }
+}
+
+const NEGATED_OPERATORS: { [operator: string]: string } = {
+  StringNotEquals: "StringEquals",
+  StringNotEqualsIgnoreCase: "StringEqualsIgnoreCase",
+  StringNotLike: "StringLike",
+  ArnNotEquals: "ArnEquals",
+  ArnNotLike: "ArnLike",
+  NumericNotEquals: "NumericEquals"
+};
+
+/**
+ * Evaluates a Condition block against the request context. Every operator
+ * and key must match. Operators the simulator does not evaluate (IP address,
+ * date and binary) are reported through `unsupported` and treated as not matching.
+ */
+function conditionsMatch(condition: ConditionBlock | undefined, context: RequestContext, unsupported: Set<string>): boolean {
+  return Object.entries(condition || {}).every(([qualifiedOperator, tests]) => {
+    const setQualifier = qualifiedOperator.match(/^(ForAllValues|ForAnyValue):/)?.[1];
+    let operator = qualifiedOperator.replace(/^(ForAllValues|ForAnyValue):/, "");
+    const ifExists = operator.endsWith("IfExists");
+    operator = ifExists ? operator.slice(0, -"IfExists".length) : operator;
+
+    return Object.entries(tests || {}).every(([key, policyValues]) => {
+      const contextValue = context[key];
+      const requestValues = contextValue === undefined ? [] : toList(contextValue);
+      const values = toList(policyValues).map(value => substituteVariables(value, context));
+
+      if (operator === "Null") {
+        return values.some(value => (value === "true") === (contextValue === undefined));
+      }
+      if (contextValue === undefined) {
+        // Missing keys satisfy IfExists and negated operators, and ForAllValues vacuously
+        return ifExists || operator in NEGATED_OPERATORS || setQualifier === "ForAllValues";
+      }
+
+      const negated = operator in NEGATED_OPERATORS;
+      const baseOperator = negated ? NEGATED_OPERATORS[operator] : operator;
+      const matchesAny = (requestValue: string) => {
+        const results = values.map(value => compareValue(baseOperator, requestValue, value));
+        if (results.some(result => result === undefined)) {
+          unsupported.add(qualifiedOperator);
+          return undefined;
+        }
+        return results.some(result => result);
+      };
+
+      const perValue = requestValues.map(matchesAny);
+      if (perValue.some(result => result === undefined)) {
+        return false;
+      }
+      const positive = setQualifier === "ForAllValues" ? perValue.every(Boolean) : perValue.some(Boolean);
+      return negated ? !positive : positive;
+    });
+  });
+}
+
+/**
+ * Decides whether a statement applies to the request: action, resource and conditions.
+ */
+export function statementMatches(
+  statement: PolicyStatement,
+  request: EvaluationRequest,
+  unsupported: Set<string> = new Set()
+): boolean {
+  const actionMatches = statement.Action !== undefined
+    ? toList(statement.Action).some(pattern => matchesWildcard(pattern, request.action, true))
+    : !toList(statement.NotAction).some(pattern => matchesWildcard(pattern, request.action, true));
+  if (!actionMatches) {
+    return false;
+  }
+
+  const resourcePatterns = (patterns: OneOrMany<string> | undefined) =>
+    toList(patterns).map(pattern => substituteVariables(pattern, request.context));
+  const resourceMatches = statement.NotResource !== undefined
+    ? !resourcePatterns(statement.NotResource).some(pattern => matchesWildcard(pattern, request.resource))
+    : statement.Resource === undefined ||
+      resourcePatterns(statement.Resource).some(pattern => matchesWildcard(pattern, request.resource));
+  if (!resourceMatches) {
+    return false;
+  }
+
+  return conditionsMatch(statement.Condition, request.context, unsupported);
+}
+
+/**
+ * Lists the statements of the given policies that apply to the request.
+ */
+function matchingStatements(
+  policies: NamedPolicyDocument[],
+  request: EvaluationRequest,
+  unsupported: Set<string>
+): MatchedStatement[] {
+  return policies.flatMap(policy => policy.document.Statement
+    .filter(statement => statementMatches(statement, request, unsupported))
+    .map(statement => ({
+      policy: policy.name,
+      source: policy.source,
+      layer: policy.layer,
+      ...(policy.target ? { target: policy.target } : {}),
+      sid: statement.Sid,
+      effect: statement.Effect
+    })));
+}
+
+/**
+ * Evaluates a request against a principal's policies in AWS order:
+ * an explicit Deny in any policy wins; otherwise an SCP on each of the
+ * principal's SCP targets (root, OUs and account), the permissions boundary
+ * and the identity policies must each allow the request.
+ *
+ * @param policies - The principal's resolved policies.
+ * @param request - Action, resource and request context.
+ * @returns The decision and the statements that produced it.
+ */
+export function evaluatePolicies(
+  policies: ResolvedPrincipalPolicies,
+  request: EvaluationRequest
+): PrincipalEvaluation {
+  const unsupported = new Set<string>();
+  const all = [
+    ...policies.serviceControlPolicies,
+    ...(policies.boundary ? [policies.boundary] : []),
+    ...policies.identity
+  ];
+  const matches = matchingStatements(all, request, unsupported);
+  const unresolved = [
+    ...policies.unresolved,
+    ...Array.from(unsupported).map(operator => `condition operator ${operator}`)
+  ];
+  const result = (decision: SimulationDecision, reason: string, matchedStatements: MatchedStatement[]) => ({
+    principal: policies.principal,
+    decision,
+    reason,
+    matchedStatements,
+    unresolved
+  });
+
+  const denies = matches.filter(match => match.effect === "Deny");
+  if (denies.length > 0) {
+    return result(SimulationDecision.EXPLICIT_DENY, "explicitly denied", denies);
+  }
+
+  const allows = (layer: PolicyLayer) => matches.filter(match => match.effect === "Allow" && match.layer === layer);
+
+  const scpAllows = allows(PolicyLayer.SERVICE_CONTROL_POLICY);
+  const scpTarget = policies.serviceControlPolicyTargets.find(target =>
+    !scpAllows.some(match => match.target === target));
+  if (scpTarget !== undefined) {
+    return result(SimulationDecision.IMPLICIT_DENY, `no SCP on ${scpTarget} allows the request`, []);
+  }
+
+  if (policies.boundary && allows(PolicyLayer.PERMISSIONS_BOUNDARY).length === 0) {
+    return result(SimulationDecision.IMPLICIT_DENY, `not allowed by permissions boundary ${policies.boundary.name}`, []);
+  }
+
+  const identityAllows = allows(PolicyLayer.IDENTITY);
+  if (identityAllows.length === 0) {
+    return result(SimulationDecision.IMPLICIT_DENY, "no identity policy allows the request", []);
+  }
+
+  return result(SimulationDecision.ALLOWED, "allowed by identity policy", [
+    ...identityAllows,
+    ...allows(PolicyLayer.PERMISSIONS_BOUNDARY)
+  ]);
+}
@@ -0,0 +1,5 @@
+export * from "./awsManagedPolicies";
+export * from "./evaluate";
+export * from "./resolve";
+export * from "./simulate";
+export * from "./types";
@@ -0,0 +1,209 @@
+import { ConfigSet, OrganizationalUnitsConfig, PolicyTargetConfig, RoleConfig } from "../config-types";
+import { allow, PolicyDocument, policyDocument } from "../policyDocument";
+import { environmentGroups } from "../environment/membership";
+import { AWS_MANAGED_POLICY_DOCUMENTS, FULL_AWS_ACCESS_ARN, FULL_AWS_ACCESS_DOCUMENT } from "./awsManagedPolicies";
+import { NamedPolicyDocument, PolicyLayer, ResolvedPrincipalPolicies, SimulationOptions } from "./types";
+
+/**
+ * Finds the slash-separated path of an OU by name, e.g. `dev/sandbox1`.
+ */
+function findOrganizationalUnitPath(
+  ous: OrganizationalUnitsConfig,
+  name: string,
+  parentPath?: string
+): string | undefined {
+  for (const ou of Object.values(ous)) {
+    const path = parentPath ? `${parentPath}/${ou.name}` : ou.name;
+    if (ou.name === name) {
+      return path;
+    }
+    const childPath = ou.children && findOrganizationalUnitPath(ou.children, name, path);
+    if (childPath) {
+      return childPath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves policy names and ARNs the way the environment stacks do: ARNs
+ * from the AWS-managed catalog, names from the managed policies or the
+ * environment's policy set.
+ */
+class PolicyResolver {
+  private readonly catalog: { [arn: string]: PolicyDocument };
+  readonly unresolved = new Set<string>();
+
+  constructor(private readonly config: ConfigSet, private readonly environment: string, options: SimulationOptions) {
+    this.catalog = { ...AWS_MANAGED_POLICY_DOCUMENTS, ...options.awsManagedPolicies };
+  }
+
+  resolve(policy: string, source: string, layer: PolicyLayer): NamedPolicyDocument | undefined {
+    if (policy.startsWith("arn:")) {
+      const document = this.catalog[policy];
+      if (!document) {
+        this.unresolved.add(policy);
+        return undefined;
+      }
+      return { name: policy, source, layer, document };
+    }
+    const policySet = this.config.environments[this.environment]?.policySet;
+    const config = [
+      ...(this.config.policies.managedPolicies || []),
+      ...(policySet ? this.config.policies[policySet] || [] : [])
+    ].find(candidate => candidate.name === policy);
+    if (!config) {
+      this.unresolved.add(policy);
+      return undefined;
+    }
+    return { name: policy, source, layer, document: config.document };
+  }
+}
+
+/**
+ * Lists the root, the environment's OU and its ancestors, and the OU's member
+ * accounts, each with the SCPs attached to it and, unless disabled, FullAWSAccess.
+ * The environment stacks deploy into every member account, so the SCPs of
+ * all of them apply.
+ */
+function resolveServiceControlPolicies(
+  config: ConfigSet,
+  environment: string,
+  options: SimulationOptions
+): Pick<ResolvedPrincipalPolicies, "serviceControlPolicies" | "serviceControlPolicyTargets"> {
+  const ouName = config.environments[environment]?.ou ?? environment;
+  const ouPath = findOrganizationalUnitPath(config.organizationalUnits, ouName);
+  const segments = ouPath ? ouPath.split("/") : [];
+
+  const targets: { label: string; matches: (target: PolicyTargetConfig) => boolean }[] = [
+    { label: "root", matches: target => target === "root" },
+    ...segments.map((_, i) => segments.slice(0, i + 1).join("/")).map(path => ({
+      label: `OU ${path}`,
+      matches: (target: PolicyTargetConfig) => typeof target === "object" && "ou" in target && target.ou === path
+    })),
+    ...(config.accounts[ouName] || []).map(account => ({
+      label: `account ${account.name}`,
+      matches: (target: PolicyTargetConfig) => typeof target === "object" && "account" in target && target.account === account.name
+    }))
+  ];
+
+  const serviceControlPolicies = targets.flatMap(({ label, matches }): NamedPolicyDocument[] => [
+    ...(options.fullAwsAccess === false ? [] : [{
+      name: FULL_AWS_ACCESS_ARN,
+      source: `SCP on ${label}`,
+      layer: PolicyLayer.SERVICE_CONTROL_POLICY,
+      target: label,
+      document: FULL_AWS_ACCESS_DOCUMENT
+    }]),
+    ...config.serviceControlPolicies
+      .filter(scp => scp.targets.some(matches))
+      .map(scp => ({
+        name: scp.name,
+        source: `SCP on ${label}`,
+        layer: PolicyLayer.SERVICE_CONTROL_POLICY,
+        target: label,
+        document: scp.document
+      }))
+  ]);
+
+  return { serviceControlPolicies, serviceControlPolicyTargets: targets.map(target => target.label) };
+}
+
+/**
+ * Resolves the policies of a role of the environment.
+ *
+ * @param config - The configuration set.
+ * @param environment - The environment the role is created in.
+ * @param roleName - Name of the role.
+ * @param options - Simulator options.
+ * @returns The role's policies by layer.
+ */
+export function resolveRolePolicies(
+  config: ConfigSet,
+  environment: string,
+  roleName: string,
+  options: SimulationOptions = {}
+): ResolvedPrincipalPolicies {
+  const role: RoleConfig | undefined = (config.roles[environment] || []).find(candidate => candidate.name === roleName);
+  if (!role) {
+    throw new Error(`Role "${roleName}" is not defined in environment "${environment}"`);
+  }
+  const resolver = new PolicyResolver(config, environment, options);
+  const source = `role ${role.name}`;
+
+  const identity = (role.policyArns || [])
+    .map(policy => resolver.resolve(policy, source, PolicyLayer.IDENTITY))
+    .filter((policy): policy is NamedPolicyDocument => policy !== undefined);
+  const boundary = role.permissionsBoundary
+    ? resolver.resolve(role.permissionsBoundary, `${source} boundary`, PolicyLayer.PERMISSIONS_BOUNDARY)
+    : undefined;
+
+  return {
+    principal: source,
+    identity,
+    boundary,
+    ...resolveServiceControlPolicies(config, environment, options),
+    unresolved: Array.from(resolver.unresolved)
+  };
+}
+
+/**
+ * Resolves the policies of a user in an environment: the policies of its
+ * groups in the environment and its direct managed policies. Roles the user
+ * can assume are resolved separately with resolveRolePolicies.
+ *
+ * @param config - The configuration set.
+ * @param environment - The environment stack the user is created by.
+ * @param username - Name of the user.
+ * @param options - Simulator options.
+ * @returns The user's policies by layer.
+ */
+export function resolveUserPolicies(
+  config: ConfigSet,
+  environment: string,
+  username: string,
+  options: SimulationOptions = {}
+): ResolvedPrincipalPolicies {
+  const user = config.users.find(candidate => candidate.username === username);
+  if (!user) {
+    throw new Error(`User "${username}" is not defined`);
+  }
+  const resolver = new PolicyResolver(config, environment, options);
+  const identity: NamedPolicyDocument[] = [];
+
+  const groups = environmentGroups(config, environment).filter(group => user.groups?.includes(group.name));
+  for (const group of groups) {
+    const source = `group ${group.name}`;
+    for (const policy of [...(group.policyArns || []), ...(group.policies || [])]) {
+      const resolved = resolver.resolve(policy, source, PolicyLayer.IDENTITY);
+      if (resolved) {
+        identity.push(resolved);
+      }
+    }
+  }
+
+  for (const policy of user.managedPolicies || []) {
+    const resolved = resolver.resolve(policy, `user ${user.username}`, PolicyLayer.IDENTITY);
+    if (resolved) {
+      identity.push(resolved);
+    }
+  }
+
+  // The environment stack gives users a policy to assume each of their roles
+  const environmentRoles = new Set((config.roles[environment] || []).map(role => role.name));
+  for (const roleName of (user.assumeRoles || []).filter(role => environmentRoles.has(role))) {
+    identity.push({
+      name: `${user.username}-assume-${roleName}-policy`,
+      source: `user ${user.username}`,
+      layer: PolicyLayer.IDENTITY,
+      document: policyDocument(allow("sts:AssumeRole").resources(`arn:aws:iam::*:role/${roleName}`))
+    });
+  }
+
+  return {
+    principal: `user ${user.username}`,
+    identity,
+    ...resolveServiceControlPolicies(config, environment, options),
+    unresolved: Array.from(resolver.unresolved)
+  };
+}
@@ -0,0 +1,129 @@
+import { ConfigSet, RoleConfig } from "../config-types";
+import { trustPolicyDocument } from "../role/trustPolicy";
+import { evaluatePolicies, EvaluationRequest, statementMatches } from "./evaluate";
+import { resolveRolePolicies, resolveUserPolicies } from "./resolve";
+import {
+  AssumedRoleEvaluation,
+  PrincipalEvaluation,
+  ResolvedPrincipalPolicies,
+  SimulationDecision,
+  SimulationOptions,
+  SimulationRequest,
+  SimulationResult
+} from "./types";
+
+/**
+ * Placeholder account ID the simulated principals and roles live in.
+ */
+const SIMULATION_ACCOUNT_ID = "000000000000";
+
+/**
+ * Evaluates whether a user may assume a role: the user's own policies must
+ * allow sts:AssumeRole on the role and the role's trust policy must trust
+ * the user in the given request context.
+ */
+function evaluateAssumeRole(
+  config: ConfigSet,
+  username: string,
+  userPolicies: ResolvedPrincipalPolicies,
+  role: RoleConfig,
+  context: EvaluationRequest["context"]
+): PrincipalEvaluation {
+  const request: EvaluationRequest = {
+    action: "sts:AssumeRole",
+    resource: `arn:aws:iam::${SIMULATION_ACCOUNT_ID}:role/${role.name}`,
+    context: { ...context, "aws:PrincipalArn": `arn:aws:iam::${SIMULATION_ACCOUNT_ID}:user/users/${username}` }
+  };
+  const evaluation = evaluatePolicies(userPolicies, request);
+  if (evaluation.decision !== SimulationDecision.ALLOWED) {
+    return evaluation;
+  }
+
+  const accounts = Object.fromEntries(
+    Object.values(config.accounts).flat().map(account => [account.name, { id: SIMULATION_ACCOUNT_ID }]));
+  const trust = trustPolicyDocument(role, { accountId: SIMULATION_ACCOUNT_ID, accounts, users: config.users });
+  if (!trust.Statement.some(statement => statementMatches(statement, request))) {
+    return {
+      ...evaluation,
+      decision: SimulationDecision.IMPLICIT_DENY,
+      reason: `trust policy of role ${role.name} does not trust the user in this context`,
+      matchedStatements: []
+    };
+  }
+  return evaluation;
+}
+
+/**
+ * Simulates a request offline against the configuration set: resolves the
+ * groups, managed policies, permissions boundary and SCPs that apply to the
+ * user or role in the environment and evaluates them in AWS order. Users are
+ * also evaluated through every role of the environment they list in
+ * assumeRoles; a role counts only if the user may assume it.
+ *
+ * Requests are evaluated with the given context only; keys such as
+ * `aws:MultiFactorAuthPresent` are absent unless passed in.
+ *
+ * @param config - The configuration set.
+ * @param request - Principal, environment, action, resource and context.
+ * @param options - Additional AWS-managed policy documents.
+ * @returns The decision, directly and through each assumable role.
+ */
+export function simulate(
+  config: ConfigSet,
+  request: SimulationRequest,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const { environment, principal } = request;
+  if (!config.environments[environment]) {
+    throw new Error(`Unknown environment "${environment}"`);
+  }
+
+  const baseRequest: EvaluationRequest = {
+    action: request.action,
+    resource: request.resource ?? "*",
+    context: request.context ?? {}
+  };
+
+  if ("role" in principal) {
+    const direct = evaluatePolicies(resolveRolePolicies(config, environment, principal.role, options), baseRequest);
+    return {
+      decision: direct.decision,
+      allowed: direct.decision === SimulationDecision.ALLOWED,
+      direct,
+      viaRoles: []
+    };
+  }
+
+  const userRequest = {
+    ...baseRequest,
+    context: { "aws:username": principal.user, ...baseRequest.context }
+  };
+  const userPolicies = resolveUserPolicies(config, environment, principal.user, options);
+  const direct = evaluatePolicies(userPolicies, userRequest);
+
+  const user = config.users.find(candidate => candidate.username === principal.user)!;
+  const viaRoles: AssumedRoleEvaluation[] = (config.roles[environment] || [])
+    .filter(role => user.assumeRoles?.includes(role.name))
+    .map(role => ({
+      assume: evaluateAssumeRole(config, user.username, userPolicies, role, userRequest.context),
+      role: evaluatePolicies(resolveRolePolicies(config, environment, role.name, options), baseRequest)
+    }));
+
+  const isAllowed = (evaluation: PrincipalEvaluation) => evaluation.decision === SimulationDecision.ALLOWED;
+  const outcomes = [
+    direct.decision,
+    ...viaRoles.filter(via => isAllowed(via.assume)).map(via => via.role.decision)
+  ];
+  const decision = outcomes.includes(SimulationDecision.ALLOWED)
+    ? SimulationDecision.ALLOWED
+    : outcomes.includes(SimulationDecision.EXPLICIT_DENY)
+      ? SimulationDecision.EXPLICIT_DENY
+      : SimulationDecision.IMPLICIT_DENY;
+
+  return {
+    decision,
+    allowed: decision === SimulationDecision.ALLOWED,
+    direct,
+    viaRoles
+  };
+}
@@ -0,0 +1,139 @@
+import { PolicyDocument, PolicyEffect } from "../policyDocument/types";
+
+/**
+ * The principal whose permissions are simulated.
+ */
+export type SimulationPrincipal = { user: string } | { role: string };
+
+/**
+ * Values of the request context, keyed by condition key (e.g. `aws:MultiFactorAuthPresent`).
+ */
+export interface RequestContext {
+  [key: string]: string | string[];
+}
+
+/**
+ * A request to evaluate: can the principal perform the action on the resource?
+ */
+export interface SimulationRequest {
+  principal: SimulationPrincipal;
+  /** Environment whose groups, roles and policies apply, a key of the environments config. */
+  environment: string;
+  action: string;
+  /** Resource ARN; defaults to `*`. */
+  resource?: string;
+  context?: RequestContext;
+}
+
+/**
+ * Outcome of evaluating a request, in AWS terms.
+ */
+export enum SimulationDecision {
+  ALLOWED = "allowed",
+  EXPLICIT_DENY = "explicit-deny",
+  IMPLICIT_DENY = "implicit-deny"
+}
+
+/**
+ * Where a policy sits in the evaluation order.
+ */
+export enum PolicyLayer {
+  SERVICE_CONTROL_POLICY = "scp",
+  PERMISSIONS_BOUNDARY = "boundary",
+  IDENTITY = "identity"
+}
+
+/**
+ * A policy document together with where it comes from.
+ */
+export interface NamedPolicyDocument {
+  /** Policy name or ARN, e.g. `prod-restricted-access` or `arn:aws:iam::aws:policy/AdministratorAccess`. */
+  name: string;
+  /** How the policy reaches the principal, e.g. `group prod-readonly`. */
+  source: string;
+  layer: PolicyLayer;
+  /** For SCPs, the root, OU or account the policy is attached to, e.g. `OU dev/sandbox1`. */
+  target?: string;
+  document: PolicyDocument;
+}
+
+/**
+ * The policies that apply to one principal, by layer.
+ */
+export interface ResolvedPrincipalPolicies {
+  /** Principal description, e.g. `user system-admin` or `role prod-system-role`. */
+  principal: string;
+  identity: NamedPolicyDocument[];
+  boundary?: NamedPolicyDocument;
+  serviceControlPolicies: NamedPolicyDocument[];
+  /**
+   * The root, OUs and accounts above the principal, from the root down, e.g.
+   * `["root", "OU dev", "account dev-main"]`. Each needs an SCP allowing the request.
+   */
+  serviceControlPolicyTargets: string[];
+  /** Policies whose documents are not known offline (AWS-managed policies missing from the catalog). */
+  unresolved: string[];
+}
+
+/**
+ * A statement that matched the request.
+ */
+export interface MatchedStatement {
+  policy: string;
+  source: string;
+  layer: PolicyLayer;
+  /** For SCPs, the root, OU or account the policy is attached to. */
+  target?: string;
+  sid?: string;
+  effect: PolicyEffect;
+}
+
+/**
+ * Result of evaluating a request for one principal.
+ */
+export interface PrincipalEvaluation {
+  principal: string;
+  decision: SimulationDecision;
+  /** Human-readable explanation of the decision. */
+  reason: string;
+  /** The statements that decided the result: the denying or allowing statements. */
+  matchedStatements: MatchedStatement[];
+  unresolved: string[];
+}
+
+/**
+ * Evaluation of a request through a role the user can assume.
+ */
+export interface AssumedRoleEvaluation {
+  /** Whether the user may call sts:AssumeRole on the role, including the role's trust policy. */
+  assume: PrincipalEvaluation;
+  /** Whether the role may perform the request. */
+  role: PrincipalEvaluation;
+}
+
+/**
+ * Result of a simulation. For users, the roles they can assume are evaluated
+ * too; the request is allowed if the user, or a role the user is allowed to
+ * assume, is allowed.
+ */
+export interface SimulationResult {
+  decision: SimulationDecision;
+  allowed: boolean;
+  /** The user's or role's own evaluation. */
+  direct: PrincipalEvaluation;
+  /** Evaluations through the roles the user lists in assumeRoles in the environment. */
+  viaRoles: AssumedRoleEvaluation[];
+}
+
+/**
+ * Options for the simulator.
+ */
+export interface SimulationOptions {
+  /** Documents of AWS-managed policies, keyed by ARN, added to the built-in catalog. */
+  awsManagedPolicies?: { [arn: string]: PolicyDocument };
+  /**
+   * Whether FullAWSAccess, the SCP AWS Organizations attaches by default, is
+   * still attached to the root, every OU and every account; defaults to true.
+   */
+  fullAwsAccess?: boolean;
+}
@@ -0,0 +1,53 @@
+import * as aws from "@pulumi/aws";
+import { ComponentResource, ComponentResourceOptions, Output } from "@pulumi/pulumi";
+import { childResourceOptions } from "../component";
+import { logicalName, resolveAttachments } from "../naming";
+import { UserOptions } from "./types";
+
+/**
+ * An IAM User together with its group memberships and managed policy attachments.
+ */
+export class OrgIamUser extends ComponentResource {
+  public readonly user: aws.iam.User;
+  public readonly groupMembership?: aws.iam.UserGroupMembership;
+  public readonly attachments: aws.iam.UserPolicyAttachment[];
+  public readonly arn: Output<string>;
+  public readonly userName: Output<string>;
+
+  /**
+   * @param name - Logical name for the IAM user resource.
+   * @param options - Configuration options for the IAM user.
+   * @param opts - Resource options for the component.
+   */
+  constructor(name: string, options: UserOptions, opts?: ComponentResourceOptions) {
+    super("org-library:iam:OrgIamUser", name, {}, opts);
+
+    const { groups = [], managedPolicyArns = [], ...userArgs } = options;
+
+    this.user = new aws.iam.User(name, userArgs, childResourceOptions(this));
+
+    // Add the user to its groups
+    if (groups.length > 0) {
+      this.groupMembership = new aws.iam.UserGroupMembership(logicalName(name, "groups"), {
+        user: this.user.name,
+        groups
+      }, childResourceOptions(this));
+    }
+
+    // Attach managed policies
+    this.attachments = resolveAttachments(name, managedPolicyArns).map(attachment =>
+      new aws.iam.UserPolicyAttachment(attachment.name, {
+        user: this.user.name,
+        policyArn: attachment.arn
+      }, childResourceOptions(this, {}, attachment.aliases))
+    );
+
+    this.arn = this.user.arn;
+    this.userName = this.user.name;
+
+    this.registerOutputs({
+      arn: this.arn,
+      userName: this.userName
+    });
+  }
+}
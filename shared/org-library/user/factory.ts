@@ -1,16 +1,20 @@
-import * as aws from "@pulumi/aws";
+import { ComponentResourceOptions } from "@pulumi/pulumi";
 import { UserOptions, UserResult } from "./types";
+import { OrgIamUser } from "./component";
 
 /**
- * Creates an IAM User.
+ * Creates an IAM User with optional group memberships and managed policy
+ * attachments, owned by an OrgIamUser component.
  *
  * @param name - Logical name for the IAM user resource.
  * @param options - Configuration options for the IAM user.
+ * @param opts - Resource options for the component, e.g. the provider of the account to create it in.
  * @returns The created User resource.
  */
 export function createIamUser(
   name: string,
-  options: UserOptions
+  options: UserOptions,
+  opts?: ComponentResourceOptions
 ): UserResult {
-  return new aws.iam.User(name, options);
-} 
\ No newline at end of file
+  return new OrgIamUser(name, options, opts).user;
+}
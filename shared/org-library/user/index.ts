@@ -1,2 +1,3 @@
+export * from "./component";
 export * from "./factory";
-export * from "./types"; 
\ No newline at end of file
+export * from "./types";
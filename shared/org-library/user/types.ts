@@ -1,11 +1,18 @@
 import * as aws from "@pulumi/aws";
+import { Input } from "@pulumi/pulumi";
+import { PolicyArnInput } from "../naming";
 
 /**
  * Options for createIamUser.
  */
-export type UserOptions = aws.iam.UserArgs;
+export interface UserOptions extends aws.iam.UserArgs {
+  /** IAM group names the user is a member of. */
+  groups?: Input<string>[];
+  /** Managed policies attached directly to the user. */
+  managedPolicyArns?: PolicyArnInput[];
+}
 
 /**
  * Return type for createIamUser.
  */
-export type UserResult = aws.iam.User; 
\ No newline at end of file
+export type UserResult = aws.iam.User;
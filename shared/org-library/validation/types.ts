@@ -0,0 +1,23 @@
+/**
+ * Categories of problems found while validating a configuration set.
+ */
+export enum ConfigIssueKind {
+  DANGLING_REFERENCE = "dangling-reference",
+  DUPLICATE_NAME = "duplicate-name",
+  UNKNOWN_ENVIRONMENT = "unknown-environment",
+  DISABLED_POLICY_TYPE = "disabled-policy-type",
+  /** A value does not match the configuration schema. */
+  INVALID_VALUE = "invalid-value",
+  /** A required configuration section has no file. */
+  MISSING_SECTION = "missing-section"
+}
+
+/**
+ * A single problem found in the configuration set.
+ */
+export interface ConfigIssue {
+  kind: ConfigIssueKind;
+  /** Location of the offending value, e.g. `users[3].groups[1]`. */
+  path: string;
+  message: string;
+}
@@ -0,0 +1,385 @@
+import { ConfigSet, OrganizationalUnitsConfig, PolicyTargetConfig } from "../config-types";
+import { environmentTagValues } from "../policy/tagValues";
+import { OrganizationPolicyType } from "../policy/types";
+import { resolveAccountBaseline } from "../account/baseline";
+import { accountEmailProblem, resolveAccountEmail } from "../account/email";
+import { ConfigIssue, ConfigIssueKind } from "./types";
+
+/**
+ * Thrown when a configuration set has unresolved or conflicting entries.
+ * The message lists every issue so they can be fixed in one pass.
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Configuration is invalid (${issues.length} issue${issues.length === 1 ? "" : "s"}):\n` +
+      issues.map(issue => `  - ${issue.path}: ${issue.message}`).join("\n")
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * Records the first path of every name and reports later occurrences as duplicates.
+ */
+function checkDuplicates(
+  issues: ConfigIssue[],
+  entries: { name: string; path: string }[],
+  label: string
+): Set<string> {
+  const firstSeen = new Map<string, string>();
+  for (const { name, path } of entries) {
+    const previous = firstSeen.get(name);
+    if (previous) {
+      issues.push({
+        kind: ConfigIssueKind.DUPLICATE_NAME,
+        path,
+        message: `${label} "${name}" is already defined at ${previous}`
+      });
+    } else {
+      firstSeen.set(name, path);
+    }
+  }
+  return new Set(firstSeen.keys());
+}
+
+/**
+ * Flattens the OU hierarchy into name/path pairs, along with each OU's
+ * slash-separated position in the hierarchy (e.g. `dev/sandbox1`).
+ */
+function collectOrganizationalUnits(
+  ous: OrganizationalUnitsConfig,
+  basePath: string,
+  parentOuPath?: string
+): { name: string; path: string; ouPath: string }[] {
+  return Object.entries(ous).flatMap(([key, ou]) => {
+    const path = `${basePath}.${key}`;
+    const ouPath = parentOuPath ? `${parentOuPath}/${ou.name}` : ou.name;
+    return [
+      { name: ou.name, path, ouPath },
+      ...(ou.children ? collectOrganizationalUnits(ou.children, `${path}.children`, ouPath) : [])
+    ];
+  });
+}
+
+/**
+ * Resolves every cross-reference in the configuration set and reports
+ * dangling names, duplicate names and unknown environments.
+ *
+ * @param config - The configuration set to validate.
+ * @returns All issues found; empty when the configuration is consistent.
+ */
+export function validateConfig(config: ConfigSet): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  const dangling = (path: string, message: string) =>
+    issues.push({ kind: ConfigIssueKind.DANGLING_REFERENCE, path, message });
+
+  const environments = new Set(Object.keys(config.environments));
+  const checkEnvironment = (path: string, environment: string | undefined) => {
+    if (environment !== undefined && environment !== "all" && !environments.has(environment)) {
+      issues.push({
+        kind: ConfigIssueKind.UNKNOWN_ENVIRONMENT,
+        path,
+        message: `environment "${environment}" is not defined in the environments config`
+      });
+    }
+  };
+
+  // Environment tags must use one of the values allowed by the tag policies
+  const tagValues = new Set(environmentTagValues(config.organizationalUnits, config.environments));
+  const checkEnvironmentTag = (path: string, value: string | undefined) => {
+    if (value !== undefined && !tagValues.has(value)) {
+      issues.push({
+        kind: ConfigIssueKind.UNKNOWN_ENVIRONMENT,
+        path,
+        message: `Environment tag "${value}" is not one of ${Array.from(tagValues).join(", ")}`
+      });
+    }
+  };
+
+  // Organizational units and accounts
+  const organizationalUnits = collectOrganizationalUnits(config.organizationalUnits, "organizationalUnits");
+  const ouNames = checkDuplicates(issues, organizationalUnits, "Organizational unit");
+  const ouPaths = new Set(organizationalUnits.map(ou => ou.ouPath));
+
+  for (const ouName of Object.keys(config.accounts)) {
+    if (!ouNames.has(ouName)) {
+      dangling(`accounts.${ouName}`, `organizational unit "${ouName}" is not defined`);
+    }
+  }
+  const accountNames = checkDuplicates(
+    issues,
+    Object.entries(config.accounts).flatMap(([ouName, accounts]) =>
+      accounts.map((account, i) => ({ name: account.name, path: `accounts.${ouName}[${i}]` }))),
+    "Account"
+  );
+  checkDuplicates(
+    issues,
+    Object.entries(config.accounts).flatMap(([ouName, accounts]) =>
+      accounts.flatMap((account, i) => account.id ? [{ name: account.id, path: `accounts.${ouName}[${i}].id` }] : [])),
+    "Account ID"
+  );
+
+  // Account aliases are the OU baseline's prefix followed by the account name
+  for (const [ouName, accounts] of Object.entries(config.accounts)) {
+    const aliasPrefix = resolveAccountBaseline(config.organizationalUnits, ouName)?.aliasPrefix;
+    if (aliasPrefix === undefined) {
+      continue;
+    }
+    accounts.forEach((account, i) => {
+      const alias = `${aliasPrefix}${account.name}`;
+      if (!/^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/.test(alias)) {
+        issues.push({
+          kind: ConfigIssueKind.INVALID_VALUE,
+          path: `accounts.${ouName}[${i}].name`,
+          message: `account alias "${alias}" must be 3 to 63 lowercase letters, digits and hyphens`
+        });
+      }
+    });
+  }
+
+  // Each account needs an email address of its own: AWS allows one account
+  // per address, so two entries resolving to the same one cannot both be created
+  const emailTemplate = config.organization.accountEmailTemplate;
+  const accountEmails = new Map<string, string>();
+  for (const [ouName, accounts] of Object.entries(config.accounts)) {
+    accounts.forEach((account, i) => {
+      const path = `accounts.${ouName}[${i}].email`;
+      const email = resolveAccountEmail(account, ouName, emailTemplate);
+      if (email === undefined) {
+        issues.push({
+          kind: ConfigIssueKind.INVALID_VALUE,
+          path,
+          message: "account has no email and organization.accountEmailTemplate is not set"
+        });
+        return;
+      }
+      const label = account.email === undefined ? `email "${email}" (from the template)` : `email "${email}"`;
+      const problem = accountEmailProblem(email);
+      if (problem) {
+        issues.push({ kind: ConfigIssueKind.INVALID_VALUE, path, message: `${label} ${problem}` });
+      }
+      // Addresses are compared without case, like AWS does
+      const previous = accountEmails.get(email.toLowerCase());
+      if (previous) {
+        issues.push({
+          kind: ConfigIssueKind.DUPLICATE_NAME,
+          path,
+          message: `${label} is already used by ${previous}`
+        });
+      } else {
+        accountEmails.set(email.toLowerCase(), `accounts.${ouName}[${i}] (${account.name})`);
+      }
+    });
+  }
+
+  // Alternate contacts of member accounts can only be managed with trusted access
+  const accountTrustedAccess = config.organization.orgArgs.awsServiceAccessPrincipals.includes("account.amazonaws.com");
+  for (const [ouName, accounts] of Object.entries(config.accounts)) {
+    accounts.forEach((account, i) => {
+      checkEnvironmentTag(`accounts.${ouName}[${i}].tags.Environment`, account.tags?.Environment);
+      if (account.alternateContacts && !accountTrustedAccess) {
+        issues.push({
+          kind: ConfigIssueKind.INVALID_VALUE,
+          path: `accounts.${ouName}[${i}].alternateContacts`,
+          message: "alternate contacts require account.amazonaws.com in organization.orgArgs.awsServiceAccessPrincipals"
+        });
+      }
+      if (account.imported && !account.id) {
+        issues.push({
+          kind: ConfigIssueKind.INVALID_VALUE,
+          path: `accounts.${ouName}[${i}].imported`,
+          message: "only accounts with an id are imported"
+        });
+      }
+    });
+  }
+
+  // Policies
+  const policySets = new Set(Object.keys(config.policies));
+  checkDuplicates(
+    issues,
+    Object.entries(config.policies).flatMap(([policySet, policies]) =>
+      (policies || []).map((policy, i) => ({ name: policy.name, path: `policies.${policySet}[${i}]` }))),
+    "Policy"
+  );
+  const managedPolicies = new Set((config.policies.managedPolicies || []).map(policy => policy.name));
+  const policySetNames = (environment: string) => {
+    const policySet = config.environments[environment]?.policySet;
+    return new Set((policySet ? config.policies[policySet] || [] : []).map(policy => policy.name));
+  };
+
+  // Organizations policies: service control policies and tag policies
+  const checkPolicyTarget = (path: string, target: PolicyTargetConfig) => {
+    if (target === "root") {
+      return;
+    }
+    if ("ou" in target && !ouPaths.has(target.ou)) {
+      dangling(path, `organizational unit path "${target.ou}" is not defined`);
+    }
+    if ("account" in target && !accountNames.has(target.account)) {
+      dangling(path, `account "${target.account}" is not defined`);
+    }
+  };
+  const organizationsPolicies: {
+    key: string;
+    label: string;
+    type: OrganizationPolicyType;
+    policies: ConfigSet["serviceControlPolicies"] | ConfigSet["tagPolicies"];
+  }[] = [
+    { key: "serviceControlPolicies", label: "Service control policy", type: "SERVICE_CONTROL_POLICY", policies: config.serviceControlPolicies },
+    { key: "tagPolicies", label: "Tag policy", type: "TAG_POLICY", policies: config.tagPolicies }
+  ];
+  const enabledPolicyTypes = new Set(config.organization.orgArgs.awsManagedPolicyTypes);
+  for (const { key, label, type, policies } of organizationsPolicies) {
+    if (policies.length > 0 && !enabledPolicyTypes.has(type)) {
+      issues.push({
+        kind: ConfigIssueKind.DISABLED_POLICY_TYPE,
+        path: key,
+        message: `policy type ${type} is not enabled in organization.orgArgs.awsManagedPolicyTypes`
+      });
+    }
+    checkDuplicates(
+      issues,
+      policies.map((policy, i) => ({ name: policy.name, path: `${key}[${i}]` })),
+      label
+    );
+    policies.forEach((policy, i) => {
+      checkEnvironmentTag(`${key}[${i}].tags.Environment`, policy.tags?.Environment);
+      policy.targets.forEach((target, j) => checkPolicyTarget(`${key}[${i}].targets[${j}]`, target));
+    });
+  }
+
+  // Environments
+  for (const [name, environment] of Object.entries(config.environments)) {
+    // Without an ou the environment deploys into the OU named after it
+    const ou = environment.ou ?? name;
+    if (!ouNames.has(ou)) {
+      dangling(`environments.${name}${environment.ou === undefined ? "" : ".ou"}`, `organizational unit "${ou}" is not defined`);
+    }
+    if (environment.policySet !== undefined && !policySets.has(environment.policySet)) {
+      dangling(`environments.${name}.policySet`, `policy set "${environment.policySet}" is not defined`);
+    }
+  }
+
+  // Roles
+  for (const [environment, roles] of Object.entries(config.roles)) {
+    checkEnvironment(`roles.${environment}`, environment);
+    const environmentPolicies = policySetNames(environment);
+    roles.forEach((role, i) => {
+      checkEnvironmentTag(`roles.${environment}[${i}].tags.Environment`, role.tags.Environment);
+      const boundary = role.permissionsBoundary;
+      if (boundary && !boundary.startsWith("arn:") && !managedPolicies.has(boundary) && !environmentPolicies.has(boundary)) {
+        dangling(
+          `roles.${environment}[${i}].permissionsBoundary`,
+          `policy "${boundary}" is neither a managed policy nor in the policy set of environment "${environment}"`
+        );
+      }
+    });
+  }
+  const roleNames = checkDuplicates(
+    issues,
+    Object.entries(config.roles).flatMap(([environment, roles]) =>
+      roles.map((role, i) => ({ name: role.name, path: `roles.${environment}[${i}]` }))),
+    "Role"
+  );
+
+  // Groups
+  const groupNames = checkDuplicates(
+    issues,
+    config.groups.map((group, i) => ({ name: group.name, path: `groups[${i}]` })),
+    "Group"
+  );
+  config.groups.forEach((group, i) => {
+    checkEnvironment(`groups[${i}].environment`, group.environment);
+    checkEnvironmentTag(`groups[${i}].tags.Environment`, group.tags.Environment);
+
+    // Groups can use managed policies and the policy set of their own environment
+    const environmentPolicies = policySetNames(group.environment);
+    (group.policies || []).forEach((policy, j) => {
+      if (!managedPolicies.has(policy) && !environmentPolicies.has(policy)) {
+        dangling(
+          `groups[${i}].policies[${j}]`,
+          `policy "${policy}" is neither a managed policy nor in the policy set of environment "${group.environment}"`
+        );
+      }
+    });
+  });
+
+  // Role trust relationships
+  const usernames = new Set(config.users.map(user => user.username));
+  for (const [environment, roles] of Object.entries(config.roles)) {
+    roles.forEach((role, i) => {
+      const path = `roles.${environment}[${i}].trust`;
+      (role.trust?.users || []).forEach((user, j) => {
+        if (!usernames.has(user)) {
+          dangling(`${path}.users[${j}]`, `user "${user}" is not defined`);
+        }
+      });
+      (role.trust?.groups || []).forEach((group, j) => {
+        if (!groupNames.has(group)) {
+          dangling(`${path}.groups[${j}]`, `group "${group}" is not defined`);
+        }
+      });
+      (role.trust?.accounts || []).forEach((account, j) => {
+        if (!accountNames.has(account)) {
+          dangling(`${path}.accounts[${j}]`, `account "${account}" is not defined`);
+        }
+      });
+    });
+  }
+
+  // Users
+  const userNames = checkDuplicates(
+    issues,
+    config.users.map((user, i) => ({ name: user.username, path: `users[${i}]` })),
+    "User"
+  );
+  config.users.forEach((user, i) => {
+    const path = `users[${i}]`;
+    checkEnvironment(`${path}.environment`, user.environment);
+    checkEnvironmentTag(`${path}.tags.Environment`, user.tags.Environment);
+    (user.groups || []).forEach((group, j) => {
+      if (!groupNames.has(group)) {
+        dangling(`${path}.groups[${j}]`, `group "${group}" is not defined`);
+      }
+    });
+    (user.assumeRoles || []).forEach((role, j) => {
+      if (!roleNames.has(role)) {
+        dangling(`${path}.assumeRoles[${j}]`, `role "${role}" is not defined`);
+      }
+    });
+    (user.managedPolicies || []).forEach((policy, j) => {
+      if (!managedPolicies.has(policy)) {
+        dangling(`${path}.managedPolicies[${j}]`, `managed policy "${policy}" is not defined`);
+      }
+    });
+  });
+
+  // Accepted escalation paths must start at a defined user or role
+  (config.privilegeEscalation?.accepted || []).forEach((acceptance, i) => {
+    const path = `privilegeEscalation.accepted[${i}]`;
+    checkEnvironment(`${path}.environment`, acceptance.environment);
+    const [kind, name] = acceptance.principal.split(" ");
+    const names = kind === "user" ? userNames : kind === "role" ? roleNames : undefined;
+    if (!names?.has(name)) {
+      dangling(`${path}.principal`, `principal "${acceptance.principal}" is not a "user <name>" or "role <name>" of the config`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates the configuration set and throws a ConfigValidationError listing
+ * every issue. Call this before registering any resources.
+ *
+ * @param config - The configuration set to validate.
+ */
+export function assertValidConfig(config: ConfigSet): void {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
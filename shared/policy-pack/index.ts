@@ -0,0 +1,21 @@
+/**
+ * Organization guardrails policy pack
+ *
+ * Enforces the organization's conventions on every stack:
+ *   pulumi preview --stack prod --policy-pack shared/policy-pack
+ *
+ * Production environments are those marked `production` in the
+ * environments config.
+ */
+
+import { PolicyPack } from "@pulumi/policy";
+import configSet from "../config";
+import { orgGuardrailPolicies } from "./policies";
+
+const productionEnvironments = Object.entries(configSet.environments)
+  .filter(([, environment]) => environment.production)
+  .map(([name]) => name);
+
+new PolicyPack("org-guardrails", {
+  policies: orgGuardrailPolicies({ productionEnvironments })
+});
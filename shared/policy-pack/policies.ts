@@ -0,0 +1,66 @@
+import { EnforcementLevel, Policies, ReportViolation } from "@pulumi/policy";
+import {
+  checkIamTags,
+  checkProductionForceDestroy,
+  checkProductionUserMfa,
+  checkScpAttachments,
+  checkTrustPrincipal,
+  GuardrailOptions,
+  GuardrailViolation
+} from "./rules";
+
+/**
+ * Reports guardrail violations to CrossGuard.
+ */
+function report(violations: GuardrailViolation[], reportViolation: ReportViolation): void {
+  for (const violation of violations) {
+    reportViolation(violation.message, violation.urn);
+  }
+}
+
+/**
+ * Builds the CrossGuard policies of the organization guardrails.
+ *
+ * @param options - Guardrail settings.
+ * @param enforcementLevel - Enforcement level of every policy; defaults to mandatory.
+ * @returns The policies, for a PolicyPack.
+ */
+export function orgGuardrailPolicies(
+  options: GuardrailOptions,
+  enforcementLevel: EnforcementLevel = "mandatory"
+): Policies {
+  return [
+    {
+      name: "iam-required-tags",
+      description: "Taggable IAM resources carry the Environment and ManagedBy tags.",
+      enforcementLevel,
+      validateResource: (args, reportViolation) => report(checkIamTags(args), reportViolation)
+    },
+    {
+      name: "no-wildcard-trust-principal",
+      description: "Role trust policies do not trust the \"*\" principal.",
+      enforcementLevel,
+      validateResource: (args, reportViolation) => report(checkTrustPrincipal(args), reportViolation)
+    },
+    {
+      name: "no-force-destroy-production-users",
+      description: "Production IAM users do not set forceDestroy.",
+      enforcementLevel,
+      validateResource: (args, reportViolation) =>
+        report(checkProductionForceDestroy(args, options), reportViolation)
+    },
+    {
+      name: "scp-attached",
+      description: "Every service control policy is attached to at least one target.",
+      enforcementLevel,
+      validateStack: (args, reportViolation) => report(checkScpAttachments(args.resources), reportViolation)
+    },
+    {
+      name: "production-users-mfa",
+      description: "Production IAM users get a policy denying requests made without MFA.",
+      enforcementLevel,
+      validateStack: (args, reportViolation) =>
+        report(checkProductionUserMfa(args.resources, options), reportViolation)
+    }
+  ];
+}
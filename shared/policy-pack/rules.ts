@@ -0,0 +1,250 @@
+import { PolicyDocument, PolicyStatement } from "../org-library/policyDocument/types";
+
+/**
+ * The parts of a resource the guardrails look at. Both the CrossGuard
+ * `PolicyResource` and resources recorded by Pulumi mocks fit this shape.
+ */
+export interface GuardrailResource {
+  type: string;
+  /** Logical name. */
+  name: string;
+  urn: string;
+  props: Record<string, any>;
+  /** Resources each input property depends on; lets references resolve while values are unknown. */
+  propertyDependencies?: Record<string, { urn: string }[]>;
+}
+
+/**
+ * A guardrail violation and the resource it is reported on.
+ */
+export interface GuardrailViolation {
+  /** Name of the guardrail policy, e.g. `iam-required-tags`. */
+  policy: string;
+  message: string;
+  urn: string;
+}
+
+/**
+ * Settings of the guardrails.
+ */
+export interface GuardrailOptions {
+  /** Values of the Environment tag that mark production resources. */
+  productionEnvironments: string[];
+}
+
+/**
+ * Tags every taggable IAM resource must carry.
+ */
+export const REQUIRED_IAM_TAGS = ["Environment", "ManagedBy"];
+
+/**
+ * IAM resource types that support tags. Groups and attachments cannot be tagged.
+ */
+export const TAGGABLE_IAM_TYPES = [
+  "aws:iam/instanceProfile:InstanceProfile",
+  "aws:iam/openIdConnectProvider:OpenIdConnectProvider",
+  "aws:iam/policy:Policy",
+  "aws:iam/role:Role",
+  "aws:iam/samlProvider:SamlProvider",
+  "aws:iam/serverCertificate:ServerCertificate",
+  "aws:iam/user:User",
+  "aws:iam/virtualMfaDevice:VirtualMfaDevice"
+];
+
+/**
+ * Parses a JSON policy document property; undefined while the value is unknown.
+ */
+function parseDocument(value: unknown): PolicyDocument | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as PolicyDocument;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a property of a resource refers to the target resource, by
+ * dependency or by one of the target's identifying values.
+ */
+function refersTo(resource: GuardrailResource, property: string, target: GuardrailResource, values: unknown[]): boolean {
+  if (resource.propertyDependencies?.[property]?.some(dependency => dependency.urn === target.urn)) {
+    return true;
+  }
+  const value = resource.props[property];
+  return value !== undefined && values.includes(value);
+}
+
+/**
+ * Whether a statement denies requests made without MFA, e.g. the EnforceMFA
+ * statement of prod-restricted-access.
+ */
+function enforcesMfa(statement: PolicyStatement): boolean {
+  if (statement.Effect !== "Deny") {
+    return false;
+  }
+  const condition = statement.Condition || {};
+  return [condition.Bool, condition.BoolIfExists]
+    .some(tests => [tests?.["aws:MultiFactorAuthPresent"]].flat().includes("false"));
+}
+
+/**
+ * Checks that a taggable IAM resource carries the required tags.
+ *
+ * @param resource - Any resource; other types are ignored.
+ * @returns A violation per missing tag.
+ */
+export function checkIamTags(resource: GuardrailResource): GuardrailViolation[] {
+  if (!TAGGABLE_IAM_TYPES.includes(resource.type)) {
+    return [];
+  }
+  const tags: Record<string, string> = resource.props.tags || {};
+  return REQUIRED_IAM_TAGS
+    .filter(tag => !tags[tag])
+    .map(tag => ({
+      policy: "iam-required-tags",
+      message: `${resource.type} "${resource.name}" is missing the ${tag} tag`,
+      urn: resource.urn
+    }));
+}
+
+/**
+ * Checks that a role's trust policy does not trust the `*` principal.
+ * Trust policies not known yet (during preview) are skipped.
+ *
+ * @param resource - Any resource; only roles are checked.
+ * @returns A violation per statement trusting `*`.
+ */
+export function checkTrustPrincipal(resource: GuardrailResource): GuardrailViolation[] {
+  if (resource.type !== "aws:iam/role:Role") {
+    return [];
+  }
+  const document = parseDocument(resource.props.assumeRolePolicy);
+  return (document?.Statement || [])
+    .filter(statement => {
+      const principal = statement.Principal ?? statement.NotPrincipal;
+      return principal === "*" || (principal !== undefined && "AWS" in principal && [principal.AWS].flat().includes("*"));
+    })
+    .map(statement => ({
+      policy: "no-wildcard-trust-principal",
+      message: `Role "${resource.name}" trusts the "*" principal${statement.Sid ? ` in statement "${statement.Sid}"` : ""}`,
+      urn: resource.urn
+    }));
+}
+
+/**
+ * Checks that every SCP of the stack is attached to at least one target.
+ *
+ * @param resources - All resources of the stack.
+ * @returns A violation per unattached SCP.
+ */
+export function checkScpAttachments(resources: GuardrailResource[]): GuardrailViolation[] {
+  const attachments = resources.filter(resource => resource.type === "aws:organizations/policyAttachment:PolicyAttachment");
+  return resources
+    .filter(resource => resource.type === "aws:organizations/policy:Policy" && resource.props.type === "SERVICE_CONTROL_POLICY")
+    .filter(scp => !attachments.some(attachment => refersTo(attachment, "policyId", scp, [scp.props.id])))
+    .map(scp => ({
+      policy: "scp-attached",
+      message: `SCP "${scp.name}" is not attached to any root, OU or account`,
+      urn: scp.urn
+    }));
+}
+
+/**
+ * Whether a user is tagged with one of the production environments.
+ */
+function isProductionUser(resource: GuardrailResource, options: GuardrailOptions): boolean {
+  return resource.type === "aws:iam/user:User" &&
+    options.productionEnvironments.includes(resource.props.tags?.Environment);
+}
+
+/**
+ * Checks that production users are not created with `forceDestroy: true`,
+ * which deletes their access keys, MFA devices and login profile on removal.
+ *
+ * @param resource - Any resource; only production users are checked.
+ * @param options - Guardrail settings.
+ * @returns A violation if the user sets forceDestroy.
+ */
+export function checkProductionForceDestroy(resource: GuardrailResource, options: GuardrailOptions): GuardrailViolation[] {
+  if (!isProductionUser(resource, options) || resource.props.forceDestroy !== true) {
+    return [];
+  }
+  return [{
+    policy: "no-force-destroy-production-users",
+    message: `Production user "${resource.name}" sets forceDestroy`,
+    urn: resource.urn
+  }];
+}
+
+/**
+ * Checks that every production user gets a policy denying requests made
+ * without MFA, attached to the user or to one of its groups, managed or inline.
+ * Users with a policy whose document is not known yet (during preview) are skipped.
+ *
+ * @param resources - All resources of the stack.
+ * @param options - Guardrail settings.
+ * @returns A violation per production user without MFA enforcement.
+ */
+export function checkProductionUserMfa(resources: GuardrailResource[], options: GuardrailOptions): GuardrailViolation[] {
+  const ofType = (type: string) => resources.filter(resource => resource.type === type);
+  const managedPolicies = ofType("aws:iam/policy:Policy");
+
+  // Documents of the stack's managed policies attached through the given attachments;
+  // AWS-managed policies are not resources of the stack and cannot enforce MFA
+  const attachedDocuments = (attachments: GuardrailResource[]) => attachments.flatMap(attachment => {
+    const policy = managedPolicies.find(candidate =>
+      refersTo(attachment, "policyArn", candidate, [candidate.props.arn]));
+    return policy ? [parseDocument(policy.props.policy)] : [];
+  });
+
+  return ofType("aws:iam/user:User")
+    .filter(user => isProductionUser(user, options))
+    .filter(user => {
+      const forUser = (type: string) => ofType(type)
+        .filter(resource => refersTo(resource, "user", user, [user.props.name, user.name]));
+      // Groups are referenced by name; logical names match groups created without an explicit name
+      const groupNames: string[] = forUser("aws:iam/userGroupMembership:UserGroupMembership")
+        .flatMap(membership => membership.props.groups || []);
+      const groups = ofType("aws:iam/group:Group")
+        .filter(group => groupNames.includes(group.props.name) || groupNames.includes(group.name));
+      const forGroups = (type: string) => ofType(type)
+        .filter(resource => groups.some(group => refersTo(resource, "group", group, [group.props.name, group.name])));
+
+      const documents = [
+        ...attachedDocuments(forUser("aws:iam/userPolicyAttachment:UserPolicyAttachment")),
+        ...attachedDocuments(forGroups("aws:iam/groupPolicyAttachment:GroupPolicyAttachment")),
+        ...forUser("aws:iam/userPolicy:UserPolicy").map(policy => parseDocument(policy.props.policy)),
+        ...forGroups("aws:iam/groupPolicy:GroupPolicy").map(policy => parseDocument(policy.props.policy))
+      ];
+      return !documents.includes(undefined) &&
+        !documents.some(document => document!.Statement.some(enforcesMfa));
+    })
+    .map(user => ({
+      policy: "production-users-mfa",
+      message: `Production user "${user.name}" has no policy denying requests made without MFA`,
+      urn: user.urn
+    }));
+}
+
+/**
+ * Runs every guardrail over a stack's resources, e.g. resources recorded with
+ * Pulumi mocks, without the CrossGuard engine.
+ *
+ * @param resources - All resources of the stack.
+ * @param options - Guardrail settings.
+ * @returns All violations.
+ */
+export function runGuardrails(resources: GuardrailResource[], options: GuardrailOptions): GuardrailViolation[] {
+  return [
+    ...resources.flatMap(resource => [
+      ...checkIamTags(resource),
+      ...checkTrustPrincipal(resource),
+      ...checkProductionForceDestroy(resource, options)
+    ]),
+    ...checkScpAttachments(resources),
+    ...checkProductionUserMfa(resources, options)
+  ];
+}
@@ -4,22 +4,35 @@
  * This stack creates the core AWS Organization infrastructure:
  * 1. AWS Organization
  * 2. Organizational Units (OUs)
- * 3. Service Control Policies (SCPs) and Tag Policies
- * 4. AWS Accounts in their respective OUs
+ * 3. AWS Accounts in their respective OUs, with the baseline of their OU
+ * 4. Service Control Policies (SCPs) and Tag Policies
  */
 
 import { createOrganization } from "../../shared/org-library/organization";
 import { createOrganizationalUnit } from "../../shared/org-library/organizationalUnit";
+import { resolveAccountBaseline, vendAccount } from "../../shared/org-library/account";
 import { createPolicy } from "../../shared/org-library/policy";
-import { PolicyType, SCPOptions, TagPolicyDocument, TagPolicyOptions } from "../../shared/org-library/policy/types";
+import { PolicyTarget, PolicyType } from "../../shared/org-library/policy/types";
+import { OrganizationalUnitConfig, PolicyTargetConfig } from "../../shared/org-library/config-types";
+import { assertPolicyLint } from "../../shared/org-library/lint";
 import { Input, Output } from "@pulumi/pulumi";
 import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
-// Import configurations
-import organizationConfig from "../../shared/config/organization";
-import ouConfig from "../../shared/config/organizationalUnits";
-import accountsConfig from "../../shared/config/accounts";
+// Load the validated configuration set
+import configSet from "../../shared/config";
+
+const {
+    organization: organizationConfig,
+    organizationalUnits: ouConfig,
+    accounts: accountsConfig,
+    serviceControlPolicies: serviceControlPoliciesConfig,
+    tagPolicies: tagPoliciesConfig
+} = configSet;
+
+// Fail before registering any resources if a policy document has lint errors;
+// the configuration set itself is validated when it is loaded
+assertPolicyLint(configSet);
 
 // =========================================
 // AWS Organization
@@ -33,11 +46,12 @@ const organization = createOrganization(organizationConfig.name, {
     featureSet: organizationConfig.orgArgs.featureSet
 });
 
-// Create Organizational Units
-const organizationalUnits = new Map();
+// Create Organizational Units, by name and by path (e.g. "dev/sandbox1")
+const organizationalUnits = new Map<string, aws.organizations.OrganizationalUnit>();
+const organizationalUnitsByPath = new Map<string, aws.organizations.OrganizationalUnit>();
 
 // Function to recursively create OUs
-const createOUs = (ouDef: any, parentId: Input<string>) => {
+const createOUs = (ouDef: OrganizationalUnitConfig, parentId: Input<string>, parentPath?: string) => {
     const ou = createOrganizationalUnit(ouDef.name, {
         name: ouDef.name,
         parentId,
@@ -47,131 +61,96 @@ const createOUs = (ouDef: any, parentId: Input<string>) => {
             Team: "Platform"
         }
     });
+    const path = parentPath ? `${parentPath}/${ouDef.name}` : ouDef.name;
     organizationalUnits.set(ouDef.name, ou);
+    organizationalUnitsByPath.set(path, ou);
 
     // Recursively create child OUs if they exist
     if (ouDef.children) {
-        Object.values(ouDef.children).forEach((childOu: any) => {
-            createOUs(childOu, ou.id);
+        Object.values(ouDef.children).forEach(childOu => {
+            createOUs(childOu, ou.id, path);
         });
     }
 };
 
 // Create all OUs from config
-Object.values(ouConfig).forEach((ouDef: any) => {
+Object.values(ouConfig).forEach(ouDef => {
     createOUs(ouDef, organization.roots[0].id);
 });
 
-// =========================================
-// Service Control Policies
-// Apply organization-wide controls
-// =========================================
-
-// Create Service Control Policies
-const productionSCPOptions: SCPOptions = {
-    name: "production-scp",
-    path: "/service-control-policies/",
-    description: "Production environment service control policy",
-    type: PolicyType.SERVICE_CONTROL_POLICY,
-    document: {
-        Version: "2012-10-17",
-        Statement: [{
-            Sid: "DenyOrganizationLeave",
-            Effect: "Deny",
-            Action: [
-                "organizations:LeaveOrganization",
-                "organizations:DeleteOrganization",
-                "organizations:RemoveAccountFromOrganization"
-            ],
-            Resource: "*"
-        }]
-    },
-    targetId: organizationalUnits.get("prod")?.id,
-    tags: {
-        Environment: "Production",
-        ManagedBy: "Pulumi",
-        Type: "ServiceControlPolicy"
-    }
-};
-
-const sandboxSCPOptions: SCPOptions = {
-    name: "sandbox-scp",
-    path: "/service-control-policies/",
-    description: "Sandbox environment service control policy",
-    type: PolicyType.SERVICE_CONTROL_POLICY,
-    document: {
-        Version: "2012-10-17",
-        Statement: [{
-            Sid: "DenyOrganizationAndIAMOperations",
-            Effect: "Deny",
-            Action: [
-                "organizations:*",
-                "account:*",
-                "iam:CreateUser",
-                "iam:CreateRole",
-                "iam:CreatePolicy"
-            ],
-            Resource: "*"
-        }]
-    },
-    targetId: organizationalUnits.get("sandbox1")?.id,
-    tags: {
-        Environment: "Sandbox",
-        ManagedBy: "Pulumi",
-        Type: "ServiceControlPolicy"
-    }
-};
-
-// Create Tag Policy
-const tagPolicyOptions: TagPolicyOptions = {
-    name: "resource-tag-policy",
-    path: "/tag-policies/",
-    description: "Enforces tagging standards across the organization",
-    type: PolicyType.TAG_POLICY,
-    document: {
-        "tags": {
-            "Environment": {
-                "tag_value": {
-                    "@@assign": ["prod", "staging", "sandbox"]
-                }
-            },
-            "Owner": {
-                "tag_value": {
-                    "@@assign": ["*gmail.com"]
-                }
-            }
-        }
-    },
-    targetId: organization.roots[0].id,
-    tags: {
-        Type: "TagPolicy",
-        ManagedBy: "Pulumi",
-    },
-};
-
-const productionSCP = createPolicy(productionSCPOptions);
-const sandboxSCP = createPolicy(sandboxSCPOptions);
-const resourceTagPolicy = createPolicy(tagPolicyOptions);
-
 // =========================================
 // AWS Accounts
-// Create accounts in respective OUs
+// Create accounts in respective OUs and provision
+// the baseline of the OU inside each of them
 // =========================================
 
 // Create accounts from config
-const accounts = new Map();
+const accounts = new Map<string, aws.organizations.Account>();
 for (const [ouName, ouAccounts] of Object.entries(accountsConfig)) {
+    const baseline = resolveAccountBaseline(ouConfig, ouName);
     for (const accountConfig of ouAccounts) {
-        const account = new aws.organizations.Account(`${accountConfig.name}-account`, {
-            email: accountConfig.email,
-            name: accountConfig.name,
-            parentId: organizationalUnits.get(ouName)?.id,
-            roleName: "OrganizationAccountAccessRole"
+        const { account } = vendAccount(accountConfig, {
+            parentId: organizationalUnits.get(ouName)!.id,
+            ou: ouName,
+            baseline,
+            emailTemplate: organizationConfig.accountEmailTemplate
         });
         accounts.set(accountConfig.name, account);
     }
 }
 
+// =========================================
+// Service Control Policies
+// Apply organization-wide controls
+// =========================================
+
+// Resolve a configured policy target to the root, OU or account it names
+const resolvePolicyTarget = (target: PolicyTargetConfig): PolicyTarget => {
+    if (target === "root") {
+        return { name: "root", targetId: organization.roots[0].id };
+    }
+    if ("ou" in target) {
+        const ou = organizationalUnitsByPath.get(target.ou);
+        if (!ou) {
+            throw new Error(`Policy target OU "${target.ou}" is not defined`);
+        }
+        return { name: `ou-${target.ou}`, targetId: ou.id };
+    }
+    const account = accounts.get(target.account);
+    if (!account) {
+        throw new Error(`Policy target account "${target.account}" is not defined`);
+    }
+    return { name: `account-${target.account}`, targetId: account.id };
+};
+
+// Create Service Control Policies from config, one attachment per target
+const serviceControlPolicies = new Map();
+for (const scpConfig of serviceControlPoliciesConfig) {
+    const scp = createPolicy({
+        name: scpConfig.name,
+        description: scpConfig.description,
+        type: PolicyType.SERVICE_CONTROL_POLICY,
+        document: scpConfig.document,
+        targets: scpConfig.targets.map(resolvePolicyTarget),
+        tags: scpConfig.tags
+    });
+    serviceControlPolicies.set(scpConfig.name, scp);
+}
+
+// Create Tag Policies from config, one attachment per target
+const tagPolicies = new Map();
+for (const tagPolicyConfig of tagPoliciesConfig) {
+    const tagPolicy = createPolicy({
+        name: tagPolicyConfig.name,
+        description: tagPolicyConfig.description,
+        type: PolicyType.TAG_POLICY,
+        document: tagPolicyConfig.document,
+        targets: tagPolicyConfig.targets.map(resolvePolicyTarget),
+        tags: tagPolicyConfig.tags
+    });
+    tagPolicies.set(tagPolicyConfig.name, tagPolicy);
+}
+
 // =========================================
 // Operational Data in SSM
 // Store important operational values
@@ -243,23 +222,48 @@ export default {
         )
     ),
     
-    // Export all accounts for reference by environment stacks
-    accounts: pulumi.all(Array.from(accounts.entries())).apply(accountEntries =>
-        Object.fromEntries(
-            accountEntries.map(([name, account]) => [
-                name, 
-                {
-                    id: account.id,
-                    arn: account.arn
-                }
-            ])
+    // Export all accounts and their settings for reference by environment stacks
+    accounts: Object.fromEntries(
+        Object.entries(accountsConfig).flatMap(([ouName, ouAccounts]) =>
+            ouAccounts.map(({ name, alternateContacts }) => {
+                const account = accounts.get(name)!;
+                return [
+                    name,
+                    {
+                        id: account.id,
+                        arn: account.arn,
+                        ou: ouName,
+                        email: account.email,
+                        roleName: account.roleName,
+                        iamUserAccessToBilling: account.iamUserAccessToBilling,
+                        closeOnDeletion: account.closeOnDeletion,
+                        tags: account.tags,
+                        alternateContacts
+                    }
+                ];
+            })
         )
     ),
     
     // Export SCPs and policies
     policies: {
-        productionSCP: productionSCP.arn,
-        sandboxSCP: sandboxSCP.arn,
-        resourceTagPolicy: resourceTagPolicy.arn
+        serviceControlPolicies: Object.fromEntries(
+            Array.from(serviceControlPolicies.entries()).map(([name, scp]) => [
+                name,
+                {
+                    arn: scp.arn,
+                    id: scp.id
+                }
+            ])
+        ),
+        tagPolicies: Object.fromEntries(
+            Array.from(tagPolicies.entries()).map(([name, tagPolicy]) => [
+                name,
+                {
+                    arn: tagPolicy.arn,
+                    id: tagPolicy.id
+                }
+            ])
+        )
     }
 }; 
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Resource graph snapshots
+ *
+ * Serializes the resources recorded under the mocks into a stable JSON
+ * document and compares it with the golden file committed under
+ * tests/snapshots/, so a configuration change shows up as a reviewable
+ * diff of what the stacks will register.
+ */
+
+import * as assert from "assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { RecordedResource } from "./mocks";
+
+/**
+ * Set to rewrite the golden files instead of comparing against them.
+ */
+export const UPDATE_SNAPSHOTS = process.env.UPDATE_SNAPSHOTS === "1";
+
+const SNAPSHOT_DIR = path.join(__dirname, "snapshots");
+
+// Marks a secret value deserialized by the mocks
+const SECRET_SIGNATURE = "1b47061264138c4ac30d75fd1eb44270";
+
+/**
+ * A resource in the snapshot.
+ */
+export interface GraphNode {
+  type: string;
+  /** Logical name. */
+  name: string;
+  /** `<type>::<name>` of the parent, absent at the top level. */
+  parent?: string;
+  /** `<type>::<name>` of the provider, absent for the default provider. */
+  provider?: string;
+  inputs: Record<string, unknown>;
+}
+
+/**
+ * Converts a parent URN or a provider reference (`<urn>::<id>`) to
+ * `<type>::<name>`, dropping the stack, project, ID and the types of the
+ * resource's own ancestors.
+ */
+function resourceReference(urn: string): string {
+  const [, , qualifiedType, name] = urn.split("::");
+  return `${qualifiedType.split("$").pop()}::${name}`;
+}
+
+/**
+ * Makes inputs diffable: sorts object keys, marks secrets and expands
+ * serialized JSON documents such as policies into objects.
+ */
+export function normalizeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  if (value && typeof value === "object") {
+    const object = value as Record<string, unknown>;
+    if (Object.values(object).includes(SECRET_SIGNATURE) && "value" in object) {
+      return { secret: normalizeValue(object.value) };
+    }
+    return Object.fromEntries(
+      Object.keys(object).sort().map(key => [key, normalizeValue(object[key])])
+    );
+  }
+  if (typeof value === "string" && /^\s*[{[]/.test(value)) {
+    try {
+      return { json: normalizeValue(JSON.parse(value)) };
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Builds the snapshot of a stack's resources, ordered by parent, type and name
+ * so it does not depend on the order in which registrations complete.
+ *
+ * @param resources - Resources recorded while the stack program ran.
+ */
+export function resourceGraph(resources: RecordedResource[]): GraphNode[] {
+  const nodes: GraphNode[] = resources.map(resource => ({
+    type: resource.type,
+    name: resource.name,
+    ...(resource.parent ? { parent: resourceReference(resource.parent) } : {}),
+    ...(resource.provider ? { provider: resourceReference(resource.provider) } : {}),
+    inputs: normalizeValue(resource.inputs) as Record<string, unknown>
+  }));
+  const key = (node: GraphNode) => `${node.parent ?? ""}\u0000${node.type}\u0000${node.name}`;
+  return nodes.sort((a, b) => key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+}
+
+/**
+ * Compares a value with the golden file `tests/snapshots/<name>.json`,
+ * or rewrites the file when UPDATE_SNAPSHOTS is set.
+ *
+ * @param name - Snapshot name, e.g. the stack name.
+ * @param value - JSON-serializable value to compare.
+ */
+export function assertMatchesSnapshot(name: string, value: unknown): void {
+  const file = path.join(SNAPSHOT_DIR, `${name}.json`);
+  const actual = JSON.stringify(value, null, 2) + "\n";
+
+  if (UPDATE_SNAPSHOTS) {
+    fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+    fs.writeFileSync(file, actual);
+    return;
+  }
+  if (!fs.existsSync(file)) {
+    assert.fail(`Snapshot ${path.relative(process.cwd(), file)} does not exist; run yarn test:update-snapshots to create it`);
+  }
+  assert.deepEqual(
+    JSON.parse(actual),
+    JSON.parse(fs.readFileSync(file, "utf8")),
+    `Snapshot ${name} changed; review the diff and run yarn test:update-snapshots to accept it`
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * Pulumi runtime mocks for the unit tests
+ *
+ * Records every resource registered while a test runs, answers provider
+ * calls and stack references with fixed values, and gives resources
+ * deterministic IDs, names and ARNs so their inputs can be asserted.
+ */
+
+import * as pulumi from "@pulumi/pulumi";
+import configSet from "../shared/config";
+import { OrganizationalUnitsConfig } from "../shared/org-library/config-types";
+
+/**
+ * Account ID returned by aws.getCallerIdentity and used in mocked ARNs.
+ */
+export const MOCK_ACCOUNT_ID = "123456789012";
+
+/**
+ * A resource registered under the mocks.
+ */
+export interface RecordedResource {
+  type: string;
+  /** Logical name. */
+  name: string;
+  inputs: Record<string, any>;
+  /** The state returned to the program: the inputs plus the mocked ID, name and ARN. */
+  state: Record<string, any>;
+  /** False for component resources. */
+  custom: boolean;
+  /** URN of the parent resource; undefined for resources registered at the top level. */
+  parent?: string;
+  /** Reference (`<urn>::<id>`) of the explicit or inherited provider; undefined for the default provider. */
+  provider?: string;
+  /** ID of the existing resource the program imports. */
+  importId?: string;
+}
+
+const recorded: RecordedResource[] = [];
+
+/**
+ * A resource as seen by the stack transformation, before it is registered.
+ */
+interface ConstructedResource {
+  resource: pulumi.Resource;
+  type: string;
+  name: string;
+  /** Explicit parent; undefined for resources at the top level of the stack. */
+  parent?: pulumi.Resource;
+}
+
+// MockResourceArgs leaves out the parent, so it is taken from the resource options
+const constructed: ConstructedResource[] = [];
+
+const ROOT_STACK_TYPE = "pulumi:pulumi:Stack";
+
+/**
+ * Lists the names of the configured OUs and their children.
+ */
+function organizationalUnitNames(ous: OrganizationalUnitsConfig): string[] {
+  return Object.values(ous).flatMap(ou => [ou.name, ...organizationalUnitNames(ou.children || {})]);
+}
+
+/**
+ * Outputs of the foundation stack as seen by the environment stacks' StackReference.
+ */
+export const FOUNDATION_OUTPUTS = {
+  organizationalUnits: Object.fromEntries(
+    organizationalUnitNames(configSet.organizationalUnits).map(ou => [
+      ou,
+      { id: `ou-${ou}`, name: ou, arn: `arn:aws:organizations::${MOCK_ACCOUNT_ID}:ou/${ou}` }
+    ])
+  ),
+  accounts: Object.fromEntries(
+    Object.values(configSet.accounts).flat().map((account, index) => [
+      account.name,
+      { id: String(100000000000 + index), arn: `arn:aws:organizations::${MOCK_ACCOUNT_ID}:account/${account.name}` }
+    ])
+  )
+};
+
+/**
+ * Returns the mocked state of a new resource.
+ */
+function mockState(args: pulumi.runtime.MockResourceArgs): Record<string, any> {
+  if (args.type === "pulumi:pulumi:StackReference") {
+    return { name: args.inputs.name, outputs: FOUNDATION_OUTPUTS };
+  }
+  const service = args.type.split(":")[1].split("/")[0];
+  const state: Record<string, any> = {
+    ...args.inputs,
+    // Physical names default to the logical name instead of a random suffix
+    name: args.inputs.name ?? args.name,
+    arn: `arn:aws:${service}::${MOCK_ACCOUNT_ID}:${args.name}`
+  };
+  if (args.type === "aws:organizations/organization:Organization") {
+    state.roots = [{ id: "r-root", arn: `arn:aws:organizations::${MOCK_ACCOUNT_ID}:root/r-root`, name: "Root" }];
+  }
+  return state;
+}
+
+/**
+ * Installs the mocks and a root stack whose transformation sees every
+ * resource created afterwards. Call before importing a stack program or
+ * creating resources.
+ *
+ * @param stack - Name of the stack the program runs as.
+ * @param program - Creates the stack's resources and returns its outputs.
+ * @returns The resolved outputs of the program.
+ */
+export async function setupMocks(stack = "test", program: () => unknown = () => undefined): Promise<any> {
+  pulumi.runtime.setMocks({
+    newResource: args => {
+      const state = mockState(args);
+      if (args.type === ROOT_STACK_TYPE) {
+        return { id: undefined, state };
+      }
+      recorded.push({
+        type: args.type,
+        name: args.name,
+        inputs: args.inputs,
+        state,
+        custom: args.custom !== false,
+        provider: args.provider || undefined,
+        // Stack references are read by their name rather than imported
+        importId: args.type === "pulumi:pulumi:StackReference" ? undefined : args.id || undefined
+      });
+      // Read and imported resources keep the ID they are looked up by
+      return { id: args.id || `${args.name}-id`, state };
+    },
+    call: args => {
+      if (args.token === "aws:index/getCallerIdentity:getCallerIdentity") {
+        return { accountId: MOCK_ACCOUNT_ID, arn: `arn:aws:iam::${MOCK_ACCOUNT_ID}:user/test`, userId: "AIDTEST" };
+      }
+      return args.inputs;
+    }
+  }, "aws-org-infrastructure", stack, false);
+
+  return pulumi.runtime.runInPulumiStack(async () => {
+    pulumi.runtime.registerStackTransformation(args => {
+      constructed.push({ resource: args.resource, type: args.type, name: args.name, parent: args.opts.parent });
+      return undefined;
+    });
+    return program();
+  });
+}
+
+/**
+ * Forgets the resources recorded so far.
+ */
+export function resetResources(): void {
+  recorded.length = 0;
+  constructed.length = 0;
+}
+
+/**
+ * Waits until every resource created so far is registered, including
+ * children created meanwhile, then records the URN of each one's parent.
+ */
+export async function settle(): Promise<void> {
+  for (let settled = 0; settled < constructed.length;) {
+    const pending = constructed.slice(settled);
+    settled = constructed.length;
+    await Promise.all(pending.map(({ resource }) => resolve(resource.urn)));
+  }
+
+  for (const { type, name, parent } of constructed) {
+    const matches = recorded.filter(resource => resource.type === type && resource.name === name);
+    if (matches.length > 1) {
+      throw new Error(`Several ${type} resources are named "${name}"; their parents cannot be told apart`);
+    }
+    if (matches.length === 1 && parent) {
+      matches[0].parent = await resolve(parent.urn);
+    }
+  }
+}
+
+/**
+ * Runs a stack program under the mocks, even if an earlier test already ran it.
+ *
+ * @param program - Path of the stack program relative to the repository root, e.g. `stacks/foundation`.
+ * @param stack - Name of the stack the program runs as.
+ * @returns The resolved stack outputs, once every resource is registered.
+ */
+export async function runStack(program: string, stack: string): Promise<any> {
+  resetResources();
+  const modulePath = require.resolve(`../${program}`);
+  delete require.cache[modulePath];
+  const outputs = await setupMocks(stack, () => require(modulePath).default);
+  await settle();
+  return outputs;
+}
+
+/**
+ * Lists the recorded resources, optionally of one type.
+ *
+ * @param type - Pulumi type token, e.g. `aws:iam/user:User`.
+ */
+export function recordedResources(type?: string): RecordedResource[] {
+  return recorded.filter(resource => type === undefined || resource.type === type);
+}
+
+/**
+ * Finds a recorded resource by type and logical name.
+ *
+ * @param type - Pulumi type token.
+ * @param name - Logical name.
+ * @returns The resource; throws if it was not registered.
+ */
+export function recordedResource(type: string, name: string): RecordedResource {
+  const resource = recorded.find(candidate => candidate.type === type && candidate.name === name);
+  if (!resource) {
+    throw new Error(`No ${type} named "${name}" was registered; registered: ` +
+      recordedResources(type).map(candidate => candidate.name).join(", "));
+  }
+  return resource;
+}
+
+/**
+ * Logical names of the recorded resources of a type, sorted.
+ */
+export function recordedNames(type: string): string[] {
+  return recordedResources(type).map(resource => resource.name).sort();
+}
+
+/**
+ * Resolves an output to its value.
+ */
+export function resolve<T>(value: pulumi.Input<T>): Promise<pulumi.Unwrap<T>> {
+  return new Promise(resolvePromise => pulumi.output(value).apply(resolvePromise));
+}
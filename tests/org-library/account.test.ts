@@ -0,0 +1,366 @@
+import * as assert from "assert/strict";
+import {
+  createAccount,
+  createAccountBaseline,
+  createAccountProviders,
+  AccountPlanAction,
+  accountEmailProblem,
+  foundationAccountId,
+  OrgAccount,
+  planAccounts,
+  resolveAccountBaseline,
+  resolveAccountEmail,
+  unknownEmailPlaceholders,
+  vendAccount
+} from "../../shared/org-library/account";
+import { OrganizationalUnitsConfig } from "../../shared/org-library/config-types";
+import { recordedNames, recordedResource, recordedResources, resetResources, resolve, settle, setupMocks } from "../mocks";
+
+describe("createAccount", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("creates the account inside an OrgAccount component", async () => {
+    const account = createAccount("dev-main", {
+      name: "dev-main",
+      email: "dev-main@example.com",
+      parentId: "ou-dev",
+      roleName: "OrganizationAccountAccessRole"
+    });
+    await settle();
+
+    assert.equal(recordedResource("org-library:organizations:OrgAccount", "dev-main").custom, false);
+    assert.deepEqual(recordedResource("aws:organizations/account:Account", "dev-main").inputs, {
+      name: "dev-main",
+      email: "dev-main@example.com",
+      parentId: "ou-dev",
+      roleName: "OrganizationAccountAccessRole"
+    });
+    assert.equal(await resolve(account.id), "dev-main-id");
+  });
+
+  it("ignores the inputs an existing account lacks until it is imported", async () => {
+    /**
+     * The ignored changes of the Account resource, read by a transformation
+     * the component passes on to its children.
+     */
+    const ignoredChanges = async (imported?: boolean): Promise<string[] | undefined> => {
+      let ignoreChanges: string[] | undefined;
+      new OrgAccount(`legacy-${imported}`, {
+        name: "legacy",
+        email: "legacy@example.com",
+        importId: "210987654321",
+        imported,
+        tags: { ManagedBy: "pulumi" },
+        closeOnDeletion: true
+      }, {
+        transformations: [args => {
+          if (args.type === "aws:organizations/account:Account") {
+            ignoreChanges = args.opts.ignoreChanges;
+          }
+          return undefined;
+        }]
+      });
+      await settle();
+      return ignoreChanges;
+    };
+
+    assert.deepEqual(await ignoredChanges(), ["roleName", "iamUserAccessToBilling", "tags", "closeOnDeletion"]);
+    assert.deepEqual(await ignoredChanges(true), ["roleName", "iamUserAccessToBilling"]);
+  });
+});
+
+describe("createAccountBaseline", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("creates the settings through a provider assuming the access role in the account", async () => {
+    const baseline = createAccountBaseline("qa-main-baseline", {
+      accountId: "210987654321",
+      region: "eu-west-1",
+      alias: "org-qa-main",
+      passwordPolicy: { minimumPasswordLength: 14, requireSymbols: true },
+      ebsDefaultEncryption: true,
+      s3PublicAccessBlock: true,
+      restrictDefaultVpc: true
+    });
+    await settle();
+
+    const provider = recordedResource("pulumi:providers:aws", "qa-main-baseline-provider");
+    assert.equal(provider.inputs.region, "eu-west-1");
+    assert.equal(JSON.parse(provider.inputs.assumeRole).roleArn,
+      "arn:aws:iam::210987654321:role/OrganizationAccountAccessRole");
+
+    assert.equal(recordedResource("aws:iam/accountAlias:AccountAlias", "qa-main-baseline-alias").inputs.accountAlias,
+      "org-qa-main");
+    assert.deepEqual(recordedResource("aws:iam/accountPasswordPolicy:AccountPasswordPolicy", "qa-main-baseline-password-policy")
+      .inputs, { minimumPasswordLength: 14, requireSymbols: true });
+    assert.deepEqual(recordedResource("aws:ebs/encryptionByDefault:EncryptionByDefault", "qa-main-baseline-ebs-encryption")
+      .inputs, { enabled: true });
+    assert.deepEqual(recordedResource("aws:s3/accountPublicAccessBlock:AccountPublicAccessBlock", "qa-main-baseline-s3-public-access-block")
+      .inputs, { blockPublicAcls: true, blockPublicPolicy: true, ignorePublicAcls: true, restrictPublicBuckets: true });
+
+    const securityGroup = recordedResource("aws:ec2/defaultSecurityGroup:DefaultSecurityGroup", "qa-main-baseline-default-security-group");
+    assert.deepEqual(securityGroup.inputs.ingress, []);
+    assert.deepEqual(securityGroup.inputs.egress, []);
+    assert.equal(securityGroup.inputs.vpcId, "qa-main-baseline-default-vpc-id");
+    assert.ok(baseline.defaultVpc);
+  });
+
+  it("only creates the settings it is given", async () => {
+    createAccountBaseline("sandbox-baseline", { accountId: "210987654321", roleName: "PlatformAccess", ebsDefaultEncryption: true });
+    await settle();
+
+    assert.deepEqual(recordedResources().filter(resource => resource.custom).map(resource => resource.type).sort(), [
+      "aws:ebs/encryptionByDefault:EncryptionByDefault",
+      "pulumi:providers:aws"
+    ]);
+    const provider = recordedResource("pulumi:providers:aws", "sandbox-baseline-provider");
+    assert.equal(JSON.parse(provider.inputs.assumeRole).roleArn, "arn:aws:iam::210987654321:role/PlatformAccess");
+  });
+});
+
+describe("vendAccount", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("creates the account and provisions its baseline in it", async () => {
+    const { account, baseline } = vendAccount({ name: "qa-main", email: "qa-main@example.com" }, {
+      parentId: "ou-qa",
+      baseline: { aliasPrefix: "org-", s3PublicAccessBlock: true }
+    });
+    await settle();
+
+    assert.deepEqual(recordedResource("aws:organizations/account:Account", "qa-main-account").inputs, {
+      name: "qa-main",
+      email: "qa-main@example.com",
+      parentId: "ou-qa",
+      roleName: "OrganizationAccountAccessRole",
+      tags: { ManagedBy: "pulumi" }
+    });
+    assert.equal(recordedResource("aws:iam/accountAlias:AccountAlias", "qa-main-baseline-alias").inputs.accountAlias, "org-qa-main");
+    const provider = recordedResource("pulumi:providers:aws", "qa-main-baseline-provider");
+    assert.equal(JSON.parse(provider.inputs.assumeRole).roleArn, "arn:aws:iam::qa-main-account-id:role/OrganizationAccountAccessRole");
+    assert.equal(await resolve(account.id), "qa-main-account-id");
+    assert.ok(baseline?.s3PublicAccessBlock);
+  });
+
+  it("applies the settings, access role and alternate contacts of the account", async () => {
+    const { account } = vendAccount({
+      name: "prod-main",
+      email: "prod-main@example.com",
+      tags: { Environment: "prod" },
+      closeOnDeletion: true,
+      iamUserAccessToBilling: "DENY",
+      roleName: "PlatformAccess",
+      alternateContacts: {
+        security: { name: "Security Team", title: "CISO", emailAddress: "security@example.com", phoneNumber: "+1 555 0100" }
+      }
+    }, { parentId: "ou-prod", baseline: { ebsDefaultEncryption: true } });
+    await settle();
+
+    const { inputs } = recordedResource("aws:organizations/account:Account", "prod-main-account");
+    assert.equal(inputs.roleName, "PlatformAccess");
+    assert.equal(inputs.closeOnDeletion, true);
+    assert.equal(inputs.iamUserAccessToBilling, "DENY");
+    assert.deepEqual(inputs.tags, { Environment: "prod", ManagedBy: "pulumi" });
+
+    assert.deepEqual(recordedNames("aws:account/alternativeContact:AlternativeContact"), ["prod-main-account-contact-security"]);
+    assert.deepEqual(recordedResource("aws:account/alternativeContact:AlternativeContact", "prod-main-account-contact-security").inputs, {
+      accountId: "prod-main-account-id",
+      alternateContactType: "SECURITY",
+      name: "Security Team",
+      title: "CISO",
+      emailAddress: "security@example.com",
+      phoneNumber: "+1 555 0100"
+    });
+    assert.equal(await resolve(account.roleName), "PlatformAccess");
+
+    // The baseline assumes the account's own access role
+    const provider = recordedResource("pulumi:providers:aws", "prod-main-baseline-provider");
+    assert.equal(JSON.parse(provider.inputs.assumeRole).roleArn, "arn:aws:iam::prod-main-account-id:role/PlatformAccess");
+  });
+
+  it("imports accounts with the ID of an existing account", async () => {
+    const { account } = vendAccount({ name: "legacy-prod", email: "legacy@example.com", id: "210987654321" }, {
+      parentId: "ou-prod",
+      baseline: { ebsDefaultEncryption: true }
+    });
+    await settle();
+
+    const imported = recordedResource("aws:organizations/account:Account", "legacy-prod-account");
+    assert.equal(imported.importId, "210987654321");
+    assert.equal(imported.inputs.parentId, "ou-prod");
+    assert.equal(await resolve(account.id), "210987654321");
+    const provider = recordedResource("pulumi:providers:aws", "legacy-prod-baseline-provider");
+    assert.equal(JSON.parse(provider.inputs.assumeRole).roleArn, "arn:aws:iam::210987654321:role/OrganizationAccountAccessRole");
+  });
+
+  it("declares the configured inputs of imported accounts", async () => {
+    vendAccount({
+      name: "legacy-prod",
+      email: "legacy@example.com",
+      id: "210987654321",
+      tags: { Environment: "prod" },
+      closeOnDeletion: true,
+      roleName: "PlatformAccess"
+    }, { parentId: "ou-prod" });
+    await settle();
+
+    const imported = recordedResource("aws:organizations/account:Account", "legacy-prod-account");
+    assert.equal(imported.importId, "210987654321");
+    assert.deepEqual(imported.inputs, {
+      name: "legacy-prod",
+      email: "legacy@example.com",
+      parentId: "ou-prod",
+      roleName: "PlatformAccess",
+      closeOnDeletion: true,
+      tags: { Environment: "prod", ManagedBy: "pulumi" }
+    });
+  });
+
+  it("fills the email template for accounts without an email", async () => {
+    vendAccount({ name: "qa-main" }, { parentId: "ou-qa", ou: "qa", emailTemplate: "aws+{ou}-{name}@example.com" });
+    await settle();
+
+    assert.equal(recordedResource("aws:organizations/account:Account", "qa-main-account").inputs.email,
+      "aws+qa-qa-main@example.com");
+    assert.throws(() => vendAccount({ name: "qa-tools" }, { parentId: "ou-qa" }),
+      /Account "qa-tools" has no email and no email template is set/);
+  });
+
+  it("creates only the account when the OU has no baseline", async () => {
+    const { baseline } = vendAccount({ name: "qa-main", email: "qa-main@example.com" }, { parentId: "ou-qa" });
+    await settle();
+
+    assert.equal(baseline, undefined);
+    assert.deepEqual(recordedNames("org-library:organizations:OrgAccountBaseline"), []);
+  });
+});
+
+describe("createAccountProviders", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  const accounts = {
+    "dev-main": { id: "111111111111", arn: "arn:aws:organizations::123456789012:account/dev-main" },
+    "dev-tools": { id: "222222222222", arn: "arn:aws:organizations::123456789012:account/dev-tools" }
+  };
+
+  it("creates a provider assuming the role in each named account", async () => {
+    const providers = createAccountProviders(accounts, ["dev-main", "dev-tools"], {
+      roleName: "PlatformAccess",
+      region: "eu-west-1",
+      sessionName: "pulumi-dev"
+    });
+    await settle();
+
+    assert.deepEqual(Array.from(providers.keys()), ["dev-main", "dev-tools"]);
+    const provider = recordedResource("pulumi:providers:aws", "dev-tools-provider");
+    assert.equal(provider.inputs.region, "eu-west-1");
+    assert.deepEqual(JSON.parse(provider.inputs.assumeRole), {
+      roleArn: "arn:aws:iam::222222222222:role/PlatformAccess",
+      sessionName: "pulumi-dev"
+    });
+  });
+
+  it("assumes the access role each account exports unless one is given", async () => {
+    createAccountProviders({
+      "prod-main": { id: "333333333333", arn: "arn:aws:organizations::123456789012:account/prod-main", roleName: "PlatformAccess" }
+    }, ["prod-main"]);
+    await settle();
+
+    const provider = recordedResource("pulumi:providers:aws", "prod-main-provider");
+    assert.equal(JSON.parse(provider.inputs.assumeRole).roleArn, "arn:aws:iam::333333333333:role/PlatformAccess");
+  });
+
+  it("looks up account IDs in the foundation stack outputs", async () => {
+    assert.equal(await resolve(foundationAccountId(accounts, "dev-tools")), "222222222222");
+  });
+});
+
+describe("account emails", () => {
+  it("uses the email of the entry or fills the template with the OU and account name", () => {
+    const template = "aws+{ou}-{name}@example.com";
+    assert.equal(resolveAccountEmail({ name: "dev-main", email: "dev@example.com" }, "dev", template), "dev@example.com");
+    assert.equal(resolveAccountEmail({ name: "dev-main" }, "dev", template), "aws+dev-dev-main@example.com");
+    assert.equal(resolveAccountEmail({ name: "dev-main" }, "dev"), undefined);
+  });
+
+  it("lists unknown placeholders of a template", () => {
+    assert.deepEqual(unknownEmailPlaceholders("aws+{ou}-{name}@example.com"), []);
+    assert.deepEqual(unknownEmailPlaceholders("aws+{env}-{name}-{}@example.com"), ["env", ""]);
+  });
+
+  it("checks the format and length AWS accepts", () => {
+    assert.equal(accountEmailProblem("aws+dev-main@example.com"), undefined);
+    assert.equal(accountEmailProblem("aws+dev-main"), "is not an email address");
+    assert.equal(accountEmailProblem(`${"a".repeat(60)}@example.com`), "must be 6 to 64 characters long");
+  });
+});
+
+describe("planAccounts", () => {
+  const accounts = {
+    dev: [
+      { name: "dev-main", email: "dev-main@example.com" },
+      { name: "dev-tools", email: "dev-tools@example.com" }
+    ],
+    prod: [
+      { name: "legacy-prod", email: "legacy@example.com", id: "210987654321" },
+      { name: "prod-main", email: "prod-main@example.com" }
+    ]
+  };
+
+  it("creates and imports every account before the first deployment", () => {
+    assert.deepEqual(planAccounts(accounts).map(entry => [entry.account, entry.action, entry.id]), [
+      ["dev-main", AccountPlanAction.CREATE, undefined],
+      ["dev-tools", AccountPlanAction.CREATE, undefined],
+      ["legacy-prod", AccountPlanAction.IMPORT, "210987654321"],
+      ["prod-main", AccountPlanAction.CREATE, undefined]
+    ]);
+  });
+
+  it("compares the configured OUs with the accounts the stack exports", () => {
+    const plan = planAccounts(accounts, {
+      "dev-main": { id: "111111111111", arn: "arn:dev-main", ou: "dev" },
+      "prod-main": { id: "333333333333", arn: "arn:prod-main", ou: "qa" },
+      "legacy-prod": { id: "210987654321", arn: "arn:legacy-prod", ou: "prod" },
+      "old-tools": { id: "444444444444", arn: "arn:old-tools", ou: "qa", closeOnDeletion: true }
+    });
+    assert.deepEqual(plan, [
+      { account: "dev-main", ou: "dev", action: AccountPlanAction.UNCHANGED, id: "111111111111" },
+      { account: "dev-tools", ou: "dev", action: AccountPlanAction.CREATE },
+      { account: "legacy-prod", ou: "prod", action: AccountPlanAction.UNCHANGED, id: "210987654321" },
+      { account: "prod-main", ou: "prod", action: AccountPlanAction.MOVE, id: "333333333333", currentOu: "qa" },
+      { account: "old-tools", ou: "qa", action: AccountPlanAction.REMOVE, id: "444444444444", closes: true }
+    ]);
+  });
+});
+
+describe("resolveAccountBaseline", () => {
+  const ous: OrganizationalUnitsConfig = {
+    dev: {
+      name: "dev",
+      baseline: { aliasPrefix: "org-", ebsDefaultEncryption: true, passwordPolicy: { minimumPasswordLength: 14 } },
+      children: {
+        sandbox1: { name: "sandbox1", baseline: { ebsDefaultEncryption: false } },
+        sandbox2: { name: "sandbox2" }
+      }
+    },
+    qa: { name: "qa" }
+  };
+
+  it("inherits the baseline of the parent OUs, overriding single settings", () => {
+    assert.deepEqual(resolveAccountBaseline(ous, "sandbox1"), {
+      aliasPrefix: "org-",
+      ebsDefaultEncryption: false,
+      passwordPolicy: { minimumPasswordLength: 14 }
+    });
+    assert.deepEqual(resolveAccountBaseline(ous, "sandbox2"), ous.dev.baseline);
+  });
+
+  it("returns undefined for OUs without a baseline", () => {
+    assert.equal(resolveAccountBaseline(ous, "qa"), undefined);
+    assert.equal(resolveAccountBaseline(ous, "unknown"), undefined);
+  });
+});
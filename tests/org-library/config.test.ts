@@ -0,0 +1,344 @@
+import * as assert from "assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import configSet from "../../shared/config";
+import {
+  applyConfigOverlays,
+  copyConfigSections,
+  loadConfig,
+  parseConfigSet,
+  readStackConfigOverlays
+} from "../../shared/org-library/config";
+import { ConfigIssue, ConfigIssueKind, ConfigValidationError } from "../../shared/org-library/validation";
+
+/**
+ * A deep copy of the repository's configuration set, safe to modify.
+ */
+function copyConfig(): any {
+  return JSON.parse(JSON.stringify(configSet));
+}
+
+/**
+ * The issues of the ConfigValidationError thrown by `load`.
+ */
+function issuesOf(load: () => unknown): { kind: string; path: string; message: string }[] {
+  try {
+    load();
+  } catch (error) {
+    assert.ok(error instanceof ConfigValidationError, String(error));
+    return error.issues;
+  }
+  assert.fail("expected a ConfigValidationError");
+}
+
+describe("parseConfigSet", () => {
+  it("accepts the repository configuration", () => {
+    assert.deepEqual(parseConfigSet(copyConfig()), copyConfig());
+  });
+
+  it("reports invalid values with their path", () => {
+    const config = copyConfig();
+    config.users[2].groups[1] = 42;
+    config.roles.prod[0].trust.conditions = { maxSessionDuration: 60 };
+    config.environments.prod.production = "yes";
+
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => issue.path), [
+      "environments.prod.production",
+      "roles.prod[0].trust.conditions.maxSessionDuration",
+      "users[2].groups[1]"
+    ]);
+  });
+
+  it("reports missing and misspelled properties", () => {
+    const config = copyConfig();
+    delete config.groups[0].tags.Environment;
+    config.groups[0].polices = config.groups[0].policies;
+
+    const issues = issuesOf(() => parseConfigSet(config));
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.path]), [
+      [ConfigIssueKind.INVALID_VALUE, "groups[0].polices"],
+      [ConfigIssueKind.INVALID_VALUE, "groups[0].tags.Environment"]
+    ]);
+    assert.match(issues[0].message, /unknown property/);
+  });
+
+  it("checks policy statements", () => {
+    const config = copyConfig();
+    config.policies.prod[0].document.Statement[0].Action = "s3:GetObject";
+    config.serviceControlPolicies[0].targets.push({ organizationalUnit: "prod" });
+
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.path, issue.message]), [
+      ["policies.prod[0].document.Statement[0]", "a statement cannot have both Action and NotAction"],
+      ["serviceControlPolicies[0].targets[1]", `expected "root" | object with ou | object with account, got an object`]
+    ]);
+  });
+
+  it("checks the settings and alternate contacts of accounts", () => {
+    const config = copyConfig();
+    const contact = { name: "Security Team", title: "CISO", emailAddress: "security@example.com", phoneNumber: "+1 555 0100" };
+    config.accounts.dev.push(
+      { name: "dev-tools", email: "dev-tools@example.com", iamUserAccessToBilling: "NO", roleName: "Platform Access", id: "12345" },
+      { name: "dev-data", email: "dev-data@example.com", alternateContacts: { security: { ...contact, emailAddress: "security" } } }
+    );
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => issue.path), [
+      "accounts.dev[1].id",
+      "accounts.dev[1].iamUserAccessToBilling",
+      "accounts.dev[1].roleName",
+      "accounts.dev[2].alternateContacts.security.emailAddress"
+    ]);
+
+    // Contacts are managed through trusted access for the account management service
+    config.accounts.dev.splice(1, 2, { name: "dev-data", email: "dev-data@example.com", alternateContacts: { security: contact } });
+    config.accounts.dev[0].tags.Environment = "development";
+    config.accounts.dev[0].imported = true;
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.kind, issue.path]), [
+      [ConfigIssueKind.UNKNOWN_ENVIRONMENT, "accounts.dev[0].tags.Environment"],
+      [ConfigIssueKind.INVALID_VALUE, "accounts.dev[0].imported"],
+      [ConfigIssueKind.INVALID_VALUE, "accounts.dev[1].alternateContacts"]
+    ]);
+    delete config.accounts.dev[0].imported;
+    config.accounts.dev[0].tags.Environment = "dev";
+    config.organization.orgArgs.awsServiceAccessPrincipals.push("account.amazonaws.com");
+    assert.doesNotThrow(() => parseConfigSet(config));
+
+    // An existing account can only be imported once
+    config.accounts.dev[0].id = "210987654321";
+    config.accounts.dev[1].id = "210987654321";
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.kind, issue.path]), [
+      [ConfigIssueKind.DUPLICATE_NAME, "accounts.dev[1].id"]
+    ]);
+  });
+
+  it("resolves account emails from the template and requires them to be unique", () => {
+    const config = copyConfig();
+    config.accounts.dev.push({ name: "dev-tools" }, { name: "dev-data", email: "AWS+dev-dev-tools@example.com" });
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.path, issue.message]), [
+      ["accounts.dev[1].email", "account has no email and organization.accountEmailTemplate is not set"]
+    ]);
+
+    config.organization.accountEmailTemplate = "aws+{ou}-{name}@example.com";
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.kind, issue.path, issue.message]), [
+      [ConfigIssueKind.DUPLICATE_NAME, "accounts.dev[2].email",
+        `email "AWS+dev-dev-tools@example.com" is already used by accounts.dev[1] (dev-tools)`]
+    ]);
+
+    config.accounts.dev[2].email = "dev-data";
+    config.accounts.dev[1].name = `dev-tools-${"x".repeat(40)}`;
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => issue.message), [
+      `email "aws+dev-dev-tools-${"x".repeat(40)}@example.com" (from the template) must be 6 to 64 characters long`,
+      `email "dev-data" is not an email address`
+    ]);
+  });
+
+  it("checks the placeholders of the account email template", () => {
+    const config = copyConfig();
+    config.organization.accountEmailTemplate = "aws+{env}-{name}";
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.path, issue.message]), [
+      ["organization.accountEmailTemplate", "unknown placeholder {env}; expected {ou}, {name}"],
+      ["organization.accountEmailTemplate", `template "aws+{env}-{name}" does not produce an email address`]
+    ]);
+  });
+
+  it("checks cross-references once the values are valid", () => {
+    const config = copyConfig();
+    config.users[0].groups.push("no-such-group");
+
+    const issues = issuesOf(() => parseConfigSet(config));
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.path]), [
+      [ConfigIssueKind.DANGLING_REFERENCE, "users[0].groups[1]"]
+    ]);
+  });
+
+  it("requires the OU of each environment, named after it by default", () => {
+    const config = copyConfig();
+    config.environments.prod.ou = "prdo";
+    config.environments.preview = { name: "preview", displayName: "Preview" };
+
+    assert.deepEqual(issuesOf(() => parseConfigSet(config)).map(issue => [issue.path, issue.message]), [
+      ["environments.prod.ou", `organizational unit "prdo" is not defined`],
+      ["environments.preview", `organizational unit "preview" is not defined`]
+    ]);
+  });
+});
+
+describe("loadConfig", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "org-config-"));
+  });
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  /**
+   * Writes every section of the repository configuration, as YAML unless listed in `json`.
+   */
+  function writeSections(json: string[] = []): void {
+    for (const [section, value] of Object.entries(copyConfig())) {
+      if (json.includes(section)) {
+        fs.writeFileSync(path.join(directory, `${section}.json`), JSON.stringify(value, null, 2));
+      } else {
+        fs.writeFileSync(path.join(directory, `${section}.yaml`), yaml.safeDump(value));
+      }
+    }
+  }
+
+  it("loads the sections from TypeScript modules", () => {
+    assert.deepEqual(loadConfig(path.join(__dirname, "../../shared/config")), configSet);
+  });
+
+  it("loads the sections from YAML and JSON files", () => {
+    writeSections(["users", "roles"]);
+    assert.deepEqual(loadConfig(directory), copyConfig());
+  });
+
+  it("loads YAML and JSON sections copied next to the compiled modules", () => {
+    const source = path.join(directory, "shared");
+    const output = path.join(directory, "bin");
+    fs.mkdirSync(source);
+    fs.mkdirSync(output);
+    const config = copyConfig();
+    for (const [section, value] of Object.entries(config)) {
+      if (section === "users") {
+        fs.writeFileSync(path.join(source, "users.yaml"), yaml.safeDump(value));
+      } else {
+        // Stands in for the module tsc emits for a TypeScript section
+        fs.writeFileSync(path.join(source, `${section}.ts`), "");
+        fs.writeFileSync(path.join(output, `${section}.js`), `module.exports = ${JSON.stringify(value)};`);
+      }
+    }
+    fs.writeFileSync(path.join(output, "users.js"), "module.exports = [];");
+    fs.writeFileSync(path.join(output, "groups.json"), "[]");
+
+    assert.deepEqual(copyConfigSections(source, output), ["users.yaml"]);
+    assert.ok(!fs.existsSync(path.join(output, "users.js")));
+    assert.ok(!fs.existsSync(path.join(output, "groups.json")));
+    assert.deepEqual(loadConfig(output), config);
+  });
+
+  it("validates the configuration with the overlays applied", () => {
+    const overlays = [{ name: "configOverlay", values: { users: [{ username: "system-admin", groups: ["no-such-group"] }] } }];
+
+    const issues = issuesOf(() => loadConfig(path.join(__dirname, "../../shared/config"), { overlays }));
+    assert.deepEqual(issues.map(issue => issue.path), ["users[4].groups[0]"]);
+  });
+
+  it("reports missing sections, sections in several files and unreadable files", () => {
+    writeSections();
+    fs.unlinkSync(path.join(directory, "groups.yaml"));
+    fs.unlinkSync(path.join(directory, "policyLint.yaml"));
+    fs.writeFileSync(path.join(directory, "users.json"), "[]");
+    fs.writeFileSync(path.join(directory, "roles.yaml"), "prod: [");
+
+    const issues = issuesOf(() => loadConfig(directory));
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.path]), [
+      [ConfigIssueKind.INVALID_VALUE, "roles"],
+      [ConfigIssueKind.MISSING_SECTION, "groups"],
+      [ConfigIssueKind.INVALID_VALUE, "users"]
+    ]);
+    assert.match(issues[2].message, /users\.yaml, users\.json/);
+  });
+});
+
+describe("applyConfigOverlays", () => {
+  const apply = (...overlays: unknown[]) => {
+    const issues: ConfigIssue[] = [];
+    const config = applyConfigOverlays(copyConfig(), overlays.map((values, i) => ({ name: `overlay${i}`, values })), issues);
+    return { config: config as any, issues };
+  };
+  const usernames = (config: any) => config.users.map((user: any) => user.username);
+
+  it("merges named entries by name and appends new ones", () => {
+    const newUser = {
+      username: "dev-intern",
+      email: "dev-intern@example.com",
+      description: "Intern with read-only access to dev",
+      groups: ["dev-developers"],
+      environment: "dev",
+      tags: { Environment: "dev" }
+    };
+    const { config, issues } = apply({
+      users: [{ username: "system-admin", description: "Platform administrator" }, newUser]
+    });
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(usernames(config), [...usernames(configSet), "dev-intern"]);
+    const admin = config.users.find((user: any) => user.username === "system-admin");
+    assert.equal(admin.description, "Platform administrator");
+    assert.deepEqual(admin.groups, ["admin"]);
+    assert.doesNotThrow(() => parseConfigSet(config));
+  });
+
+  it("removes entries with $remove and properties with null", () => {
+    const { config, issues } = apply({
+      roles: { staging: [{ name: "staging-access-role", $remove: true }] },
+      users: [{ username: "qa-admin-user", assumeRoles: ["qa-admin-role"] }],
+      environments: { sandbox2: null },
+      privilegeEscalation: null
+    });
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(config.roles.staging, []);
+    assert.equal(config.environments.sandbox2, undefined);
+    assert.equal(config.privilegeEscalation, undefined);
+  });
+
+  it("replaces lists of values and lists wrapped in $replace", () => {
+    const role = { ...copyConfig().roles.dev[0], name: "dev-readonly-role" };
+    const { config } = apply({
+      organization: { orgArgs: { awsServiceAccessPrincipals: ["cloudtrail.amazonaws.com"] } },
+      roles: { dev: { $replace: [role] } }
+    });
+
+    assert.deepEqual(config.organization.orgArgs.awsServiceAccessPrincipals, ["cloudtrail.amazonaws.com"]);
+    assert.equal(config.organization.orgArgs.featureSet, "ALL");
+    assert.deepEqual(config.roles.dev.map((entry: any) => entry.name), ["dev-readonly-role"]);
+  });
+
+  it("applies overlays in order", () => {
+    const { config } = apply(
+      { environments: { dev: { displayName: "Development (shared)" } } },
+      { environments: { dev: { displayName: "Development (team)" } } }
+    );
+    assert.equal(config.environments.dev.displayName, "Development (team)");
+  });
+
+  it("does not modify the base sections", () => {
+    const base = copyConfig();
+    applyConfigOverlays(base, [{ name: "overlay", values: { users: [{ username: "system-admin", $remove: true }] } }], []);
+    assert.deepEqual(base, copyConfig());
+  });
+
+  it("reports overlays that cannot be applied", () => {
+    const { issues } = apply({
+      roles: { dev: [{ name: "no-such-role", $remove: true }] },
+      groups: [{ description: "missing name" }],
+      user: []
+    });
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.path]), [
+      [ConfigIssueKind.INVALID_VALUE, "overlay0.user"],
+      [ConfigIssueKind.DANGLING_REFERENCE, "overlay0.roles.dev[0]"],
+      [ConfigIssueKind.INVALID_VALUE, "overlay0.groups[0]"]
+    ]);
+  });
+
+  it("reads the overlay of a stack config file", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "org-stack-"));
+    try {
+      const file = path.join(directory, "Pulumi.dev.yaml");
+      fs.writeFileSync(file, yaml.safeDump({
+        config: {
+          "aws:region": "us-east-1",
+          "aws-org-infrastructure:configOverlay": { environments: { dev: { displayName: "Dev" } } }
+        }
+      }));
+      assert.deepEqual(readStackConfigOverlays(file, "aws-org-infrastructure"), [
+        { name: "configOverlay", values: { environments: { dev: { displayName: "Dev" } } } }
+      ]);
+      assert.deepEqual(readStackConfigOverlays(file, "other-project"), []);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from "assert/strict";
+import configSet from "../../shared/config";
+import { ConfigSet, UserConfig } from "../../shared/org-library/config-types";
+import { environmentGroups, environmentUsers } from "../../shared/org-library/environment";
+
+/**
+ * A user of the given primary environment, without groups or roles.
+ */
+function user(username: string, environment: string, parts: Partial<UserConfig> = {}): UserConfig {
+  return {
+    username,
+    email: `${username}@example.com`,
+    description: username,
+    environment,
+    tags: { Environment: environment },
+    ...parts
+  };
+}
+
+/**
+ * The repository's configuration set with only the given users.
+ */
+function withUsers(users: UserConfig[]): ConfigSet {
+  return { ...JSON.parse(JSON.stringify(configSet)), users };
+}
+
+/**
+ * Usernames environmentUsers selects for each environment with a stack.
+ */
+function usersByEnvironment(config: ConfigSet): { [environment: string]: string[] } {
+  return Object.fromEntries(["prod", "staging", "dev"].map(environment =>
+    [environment, environmentUsers(config, environment).map(selected => selected.username)]));
+}
+
+describe("environmentGroups", () => {
+  it("lists the environment's groups and the shared ones", () => {
+    assert.deepEqual(environmentGroups(configSet, "prod").map(group => group.name), ["admin", "org-everyone", "prod-readonly"]);
+    assert.deepEqual(environmentGroups(configSet, "staging").map(group => group.name), ["org-everyone", "staging-deployers"]);
+  });
+});
+
+describe("environmentUsers", () => {
+  it("selects users by primary environment, group or role", () => {
+    const config = withUsers([
+      user("prod-user", "prod"),
+      user("deployer", "dev", { groups: ["staging-deployers"] }),
+      user("operator", "dev", { assumeRoles: ["prod-system-role"] }),
+      user("developer", "dev", { groups: ["dev-developers"] })
+    ]);
+
+    assert.deepEqual(usersByEnvironment(config), {
+      prod: ["prod-user", "operator"],
+      staging: ["deployer"],
+      dev: ["deployer", "operator", "developer"]
+    });
+  });
+
+  it("uses the environment field rather than the Environment tag", () => {
+    const config = withUsers([user("tagged", "dev", { tags: { Environment: "prod" } })]);
+    assert.deepEqual(environmentUsers(config, "prod"), []);
+    assert.deepEqual(environmentUsers(config, "dev").map(selected => selected.username), ["tagged"]);
+  });
+
+  // Same as the per-environment stacks this replaced: shared groups exist in
+  // every environment, production included, and so do their members
+  it("creates users of the \"all\" environment and members of shared groups in every environment", () => {
+    const config = withUsers([
+      user("platform-admin", "all"),
+      user("everyone", "dev", { groups: ["org-everyone"] })
+    ]);
+
+    assert.deepEqual(usersByEnvironment(config), {
+      prod: ["platform-admin", "everyone"],
+      staging: ["platform-admin", "everyone"],
+      dev: ["platform-admin", "everyone"]
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import * as assert from "assert/strict";
+import configSet from "../../shared/config";
+import { ConfigSet, PolicyConfig, RoleConfig, UserConfig } from "../../shared/org-library/config-types";
+import {
+  assertNoPrivilegeEscalation,
+  buildEscalationGraph,
+  EscalationPattern,
+  findEscalationPaths,
+  formatEscalationPath,
+  partitionAcceptedEscalations,
+  PrivilegeEscalationError
+} from "../../shared/org-library/escalation";
+import { allow, policyDocument } from "../../shared/org-library/policyDocument";
+
+const ADMINISTRATOR_ACCESS = "arn:aws:iam::aws:policy/AdministratorAccess";
+
+/**
+ * The repository's organization, OUs and accounts with only the given
+ * staging users, roles and managed policies.
+ */
+function stagingConfig(parts: { users?: UserConfig[]; roles?: RoleConfig[]; policies?: PolicyConfig[] }): ConfigSet {
+  const config: ConfigSet = JSON.parse(JSON.stringify(configSet));
+  return {
+    ...config,
+    users: parts.users || [],
+    groups: [],
+    roles: { staging: parts.roles || [] },
+    policies: { managedPolicies: parts.policies || [] },
+    privilegeEscalation: undefined
+  };
+}
+
+/**
+ * A staging user with direct managed policies.
+ */
+function user(username: string, managedPolicies: string[] = [], assumeRoles: string[] = []): UserConfig {
+  return {
+    username,
+    email: `${username}@example.com`,
+    description: username,
+    managedPolicies,
+    assumeRoles,
+    environment: "staging",
+    tags: { Environment: "staging" }
+  };
+}
+
+/**
+ * A managed policy allowing the given actions on every resource.
+ */
+function allowing(name: string, ...actions: string[]): PolicyConfig {
+  return { name, document: policyDocument(allow(...actions).resources("*")) };
+}
+
+/**
+ * Pattern and formatted path of each finding.
+ */
+function paths(config: ConfigSet): [string, string][] {
+  return findEscalationPaths(config, "staging").map(finding => [finding.pattern, formatEscalationPath(finding)]);
+}
+
+describe("findEscalationPaths", () => {
+  it("reports iam:PassRole together with a compute action", () => {
+    const config = stagingConfig({
+      users: [user("builder", ["deploy-functions"]), user("passer", ["pass-only"])],
+      policies: [
+        allowing("deploy-functions", "iam:PassRole", "lambda:CreateFunction"),
+        allowing("pass-only", "iam:PassRole", "s3:PutObject")
+      ]
+    });
+
+    const findings = findEscalationPaths(config, "staging");
+    assert.deepEqual(findings, [{
+      pattern: EscalationPattern.PASS_ROLE_COMPUTE,
+      environment: "staging",
+      principal: "user builder",
+      path: [{
+        from: "user builder",
+        action: "iam:PassRole + lambda:CreateFunction",
+        to: "any role trusted by a compute service",
+        grantedBy: ["deploy-functions (user builder)"]
+      }]
+    }]);
+  });
+
+  it("reports iam:CreatePolicyVersion", () => {
+    const config = stagingConfig({
+      users: [user("editor", ["edit-policies"])],
+      policies: [allowing("edit-policies", "iam:CreatePolicyVersion", "iam:GetPolicy")]
+    });
+
+    assert.deepEqual(paths(config), [
+      [EscalationPattern.CREATE_POLICY_VERSION, "user editor -[iam:CreatePolicyVersion]-> any customer-managed policy"]
+    ]);
+  });
+
+  it("reports attaching or putting policies", () => {
+    const config = stagingConfig({
+      users: [user("attacher", ["attach-user"]), user("putter", ["put-role"])],
+      policies: [allowing("attach-user", "iam:AttachUserPolicy"), allowing("put-role", "iam:PutRolePolicy")]
+    });
+
+    assert.deepEqual(paths(config), [
+      [EscalationPattern.ATTACH_POLICY, "user attacher -[iam:AttachUserPolicy]-> any policy on a user, group or role"],
+      [EscalationPattern.ATTACH_POLICY, "user putter -[iam:PutRolePolicy]-> any policy on a user, group or role"]
+    ]);
+  });
+
+  it("ignores conditions of Allow statements and keeps unconditional Denies", () => {
+    const conditional = {
+      name: "mfa-attach",
+      document: policyDocument(
+        allow("iam:AttachUserPolicy").resources("arn:aws:iam::*:user/self").condition("Bool", "aws:MultiFactorAuthPresent", "true"))
+    };
+    const denied = {
+      name: "attach-denied",
+      document: { Version: "2012-10-17" as const, Statement: [
+        { Effect: "Allow" as const, Action: "iam:AttachUserPolicy", Resource: "*" },
+        { Sid: "NoIam", Effect: "Deny" as const, Action: "iam:*", Resource: "*" }
+      ] }
+    };
+    const config = stagingConfig({
+      users: [user("conditional", ["mfa-attach"]), user("denied", ["attach-denied"])],
+      policies: [conditional, denied]
+    });
+
+    assert.deepEqual(paths(config).map(([, path]) => path.split(" ")[1]), ["conditional"]);
+  });
+
+  it("reports assume-role chains into an admin role", () => {
+    const config = stagingConfig({
+      users: [user("alice", [], ["hop-role"])],
+      roles: [
+        {
+          name: "hop-role",
+          description: "Can assume any role",
+          policyArns: ["assume-any"],
+          tags: { Environment: "staging" }
+        },
+        {
+          name: "admin-role",
+          description: "Administrator",
+          policyArns: [ADMINISTRATOR_ACCESS],
+          trust: { accounts: ["dev-main"] },
+          tags: { Environment: "staging" }
+        }
+      ],
+      policies: [allowing("assume-any", "sts:AssumeRole")]
+    });
+
+    const graph = buildEscalationGraph(config, "staging");
+    // alice's assume-role policy is relaxed to every role, and admin-role trusts the whole account
+    assert.deepEqual(graph.edges.map(edge => [edge.from, edge.to]), [
+      ["user alice", "role hop-role"],
+      ["user alice", "role admin-role"],
+      ["role hop-role", "role admin-role"]
+    ]);
+    assert.equal(graph.nodes.get("role hop-role")!.admin, false);
+    assert.equal(graph.nodes.get("role admin-role")!.admin, true);
+
+    // Paths are the shortest ones and end at the first admin role
+    assert.deepEqual(paths(config), [
+      [EscalationPattern.ASSUME_ROLE_CHAIN, "user alice -[sts:AssumeRole]-> role admin-role"],
+      [EscalationPattern.ASSUME_ROLE_CHAIN, "role hop-role -[sts:AssumeRole]-> role admin-role"]
+    ]);
+    assert.deepEqual(findEscalationPaths(config, "staging")[1].path[0].grantedBy, ["assume-any (role hop-role)"]);
+  });
+
+  it("does not follow roles whose trust policy does not trust the principal", () => {
+    const config = stagingConfig({
+      users: [user("bob", ["assume-any"])],
+      roles: [{
+        name: "admin-role",
+        description: "Administrator",
+        policyArns: [ADMINISTRATOR_ACCESS],
+        trust: { services: ["ec2.amazonaws.com"] },
+        tags: { Environment: "staging" }
+      }],
+      policies: [allowing("assume-any", "sts:AssumeRole")]
+    });
+
+    assert.deepEqual(buildEscalationGraph(config, "staging").edges, []);
+    assert.deepEqual(paths(config), []);
+  });
+});
+
+describe("privilege escalation gating", () => {
+  const config = stagingConfig({
+    users: [user("editor", ["edit-policies"]), user("builder", ["deploy-functions"])],
+    policies: [
+      allowing("edit-policies", "iam:CreatePolicyVersion"),
+      allowing("deploy-functions", "iam:PassRole", "ec2:RunInstances")
+    ]
+  });
+  const accepting = (environment?: string): ConfigSet => ({
+    ...config,
+    privilegeEscalation: {
+      accepted: [{
+        pattern: EscalationPattern.CREATE_POLICY_VERSION,
+        principal: "user editor",
+        environment,
+        reason: "Maintains the customer-managed policies"
+      }]
+    }
+  });
+
+  it("passes the environments of the repository configuration", () => {
+    for (const environment of Object.keys(configSet.environments)) {
+      assert.doesNotThrow(() => assertNoPrivilegeEscalation(configSet, environment), environment);
+    }
+  });
+
+  it("fails on paths that are not accepted, listing every path", () => {
+    assert.throws(() => assertNoPrivilegeEscalation(config, "staging"), (error: unknown) => {
+      assert.ok(error instanceof PrivilegeEscalationError);
+      assert.deepEqual(error.findings.map(finding => finding.principal), ["user editor", "user builder"]);
+      assert.match(error.message, /^Privilege escalation paths found \(2\):/);
+      assert.match(error.message, /staging: \[pass-role-compute\] user builder -\[iam:PassRole \+ ec2:RunInstances\]->/);
+      return true;
+    });
+  });
+
+  it("lets accepted paths through and keeps failing on the others", () => {
+    const findings = findEscalationPaths(config, "staging");
+    const { accepted, unaccepted } = partitionAcceptedEscalations(accepting("staging"), findings);
+    assert.deepEqual(accepted.map(finding => finding.principal), ["user editor"]);
+    assert.deepEqual(unaccepted.map(finding => finding.principal), ["user builder"]);
+
+    assert.throws(() => assertNoPrivilegeEscalation(accepting("staging"), "staging"), (error: unknown) =>
+      error instanceof PrivilegeEscalationError && error.findings.length === 1);
+  });
+
+  it("accepts paths in every environment unless the acceptance names one", () => {
+    const findings = findEscalationPaths(config, "staging");
+    assert.equal(partitionAcceptedEscalations(accepting(), findings).accepted.length, 1);
+    assert.equal(partitionAcceptedEscalations(accepting("prod"), findings).accepted.length, 0);
+
+    const editorOnly = { ...accepting(), users: [user("editor", ["edit-policies"])] };
+    assert.doesNotThrow(() => assertNoPrivilegeEscalation(editorOnly, "staging"));
+  });
+});
@@ -0,0 +1,70 @@
+import * as assert from "assert/strict";
+import { createIamGroup } from "../../shared/org-library/group";
+import { recordedNames, recordedResource, resetResources, resolve, settle, setupMocks } from "../mocks";
+
+describe("createIamGroup", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("creates the group inside an OrgIamGroup component", async () => {
+    const group = createIamGroup("qa-team", { path: "/groups/" });
+    await settle();
+
+    assert.equal(recordedResource("org-library:iam:OrgIamGroup", "qa-team").custom, false);
+    assert.equal(recordedResource("aws:iam/group:Group", "qa-team").inputs.path, "/groups/");
+    assert.equal(await resolve(group.name), "qa-team");
+  });
+
+  it("attaches literal ARNs and named policies under stable logical names", async () => {
+    createIamGroup("admin", {
+      managedPolicyArns: [
+        "arn:aws:iam::aws:policy/job-function/ViewOnlyAccess",
+        { name: "prod-restricted-access", arn: "arn:aws:iam::123456789012:policy/prod-restricted-access" }
+      ]
+    });
+    await settle();
+
+    assert.deepEqual(recordedNames("aws:iam/groupPolicyAttachment:GroupPolicyAttachment"), [
+      "admin-attach-job-function-ViewOnlyAccess",
+      "admin-attach-prod-restricted-access"
+    ]);
+    const attachment = recordedResource("aws:iam/groupPolicyAttachment:GroupPolicyAttachment", "admin-attach-prod-restricted-access");
+    assert.deepEqual(attachment.inputs, {
+      group: "admin",
+      policyArn: "arn:aws:iam::123456789012:policy/prod-restricted-access"
+    });
+  });
+
+  it("keeps the index-based names of literal and named attachments as aliases", async () => {
+    const previousNames: { [name: string]: string[] } = {};
+    createIamGroup("admin", {
+      managedPolicyArns: [
+        "arn:aws:iam::aws:policy/job-function/ViewOnlyAccess",
+        { name: "prod-restricted-access", arn: "arn:aws:iam::123456789012:policy/prod-restricted-access" }
+      ]
+    }, {
+      transformations: [args => {
+        if (args.type === "aws:iam/groupPolicyAttachment:GroupPolicyAttachment") {
+          previousNames[args.name] = Array.from(new Set((args.opts.aliases || []).flatMap(alias =>
+            typeof alias === "object" && "name" in alias && typeof alias.name === "string" ? [alias.name] : [])));
+        }
+        return undefined;
+      }]
+    });
+    await settle();
+
+    assert.deepEqual(previousNames, {
+      "admin-attach-job-function-ViewOnlyAccess": ["admin-attach-0"],
+      "admin-attach-prod-restricted-access": ["admin-attach-1"]
+    });
+  });
+
+  it("rejects policies that resolve to the same logical name", () => {
+    assert.throws(
+      () => createIamGroup("dup", {
+        managedPolicyArns: ["arn:aws:iam::aws:policy/ReadOnlyAccess", { name: "ReadOnlyAccess", arn: "arn:aws:iam::1:policy/x" }]
+      }),
+      /collide on logical name "dup-attach-ReadOnlyAccess"/
+    );
+  });
+});
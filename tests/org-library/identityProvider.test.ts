@@ -0,0 +1,89 @@
+import * as assert from "assert/strict";
+import {
+  createCognitoProvider,
+  createGoogleSSOProvider,
+  createSimpleIdentityProvider
+} from "../../shared/org-library/identityProvider";
+import { recordedResource, recordedResources, resetResources, resolve, settle, setupMocks } from "../mocks";
+
+describe("identity providers", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  describe("createGoogleSSOProvider", () => {
+    it("creates the OIDC provider, the federated role and its policy attachment", async () => {
+      const { role } = createGoogleSSOProvider({
+        name: "google",
+        clientIds: ["client-1"],
+        thumbprintList: ["0000"],
+        assumeRoleArn: "arn:aws:iam::aws:policy/ReadOnlyAccess",
+        assumeRolePolicy: {
+          Version: "2012-10-17",
+          Statement: [{
+            Effect: "Allow",
+            Action: "sts:AssumeRoleWithWebIdentity",
+            Principal: { Federated: "accounts.google.com" }
+          }]
+        },
+        tags: { Environment: "all" }
+      });
+      await settle();
+
+      assert.equal(recordedResource("org-library:identity:OrgGoogleSSOProvider", "google").custom, false);
+      assert.deepEqual(recordedResource("aws:iam/openIdConnectProvider:OpenIdConnectProvider", "google").inputs, {
+        url: "https://accounts.google.com",
+        clientIdLists: ["client-1"],
+        thumbprintLists: ["0000"],
+        tags: { Environment: "all", Provider: "Google", ManagedBy: "pulumi" }
+      });
+      assert.equal(recordedResource("aws:iam/role:Role", "google-role").inputs.name, "google-google-sso-role");
+      assert.deepEqual(recordedResource("aws:iam/rolePolicyAttachment:RolePolicyAttachment", "google-policy-attachment").inputs, {
+        role: "google-google-sso-role",
+        policyArn: "arn:aws:iam::aws:policy/ReadOnlyAccess"
+      });
+      assert.equal(await resolve(role!.name), "google-google-sso-role");
+    });
+
+    it("creates only the provider without an assume-role policy", async () => {
+      const { role } = createGoogleSSOProvider({ name: "google", clientIds: ["client-1"], thumbprintList: ["0000"] });
+      await settle();
+
+      assert.equal(role, undefined);
+      assert.deepEqual(recordedResources("aws:iam/role:Role"), []);
+    });
+  });
+
+  describe("createCognitoProvider", () => {
+    it("creates the user pool and a client with default OAuth settings", async () => {
+      createCognitoProvider({ name: "portal", mfaConfiguration: "ON", tags: { Environment: "prod" } });
+      await settle();
+
+      assert.equal(recordedResource("org-library:identity:OrgCognitoProvider", "portal").custom, false);
+      const pool = recordedResource("aws:cognito/userPool:UserPool", "portal");
+      assert.equal(pool.inputs.name, "portal");
+      assert.equal(pool.inputs.mfaConfiguration, "ON");
+      assert.deepEqual(pool.inputs.tags, { Environment: "prod", ManagedBy: "pulumi" });
+
+      const client = recordedResource("aws:cognito/userPoolClient:UserPoolClient", "portal-client");
+      assert.equal(client.inputs.userPoolId, "portal-id");
+      assert.equal(client.inputs.generateSecret, false);
+      assert.deepEqual(client.inputs.allowedOauthFlows, ["code"]);
+      assert.deepEqual(client.inputs.supportedIdentityProviders, ["COGNITO"]);
+    });
+  });
+
+  describe("createSimpleIdentityProvider", () => {
+    it("creates a user pool with email sign-in and the configured password length", async () => {
+      createSimpleIdentityProvider({ name: "simple", allowEmailSignUp: false, minimumPasswordLength: 12 });
+      await settle();
+
+      assert.equal(recordedResource("org-library:identity:OrgSimpleIdentityProvider", "simple").custom, false);
+      const pool = recordedResource("aws:cognito/userPool:UserPool", "simple");
+      assert.deepEqual(pool.inputs.usernameAttributes, ["email"]);
+      assert.equal(pool.inputs.passwordPolicy.minimumLength, 12);
+      assert.equal(pool.inputs.adminCreateUserConfig.allowAdminCreateUserOnly, true);
+      assert.deepEqual(pool.inputs.tags, { ManagedBy: "pulumi", Type: "simple-auth" });
+      assert.equal(recordedResource("aws:cognito/userPoolClient:UserPoolClient", "simple-client").inputs.userPoolId, "simple-id");
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import * as assert from "assert/strict";
+import configSet from "../../shared/config";
+import {
+  assertPolicyLint,
+  lintConfig,
+  lintPolicyDocument,
+  MAX_SCP_SIZE,
+  PolicyDocumentKind,
+  PolicyLintError,
+  PolicyLintRule,
+  PolicyLintSeverity
+} from "../../shared/org-library/lint";
+import { allow, deny, policyDocument } from "../../shared/org-library/policyDocument";
+import { PolicyDocument } from "../../shared/org-library/policyDocument/types";
+
+/**
+ * Rule and path of each finding for an IAM policy document.
+ */
+function findings(document: PolicyDocument, kind = PolicyDocumentKind.IAM): [string, string][] {
+  return lintPolicyDocument(document, kind, "doc").map(finding => [finding.rule, finding.path]);
+}
+
+describe("lintPolicyDocument", () => {
+  it("accepts well-formed statements", () => {
+    const document = policyDocument(
+      allow("s3:Get*", "logs:FilterLogEvents").resources("*"),
+      deny("iam:*").sid("DenyIam").resources("*").condition("StringNotLikeIfExists", "aws:PrincipalTag/Role", "Admin")
+    );
+    assert.deepEqual(findings(document), []);
+  });
+
+  it("reports actions that are not <service>:<action>", () => {
+    const document = policyDocument(allow("*:Delete*", "s3", "s3:Get/Object", "*").resources("arn:aws:s3:::logs"));
+    assert.deepEqual(findings(document), [
+      [PolicyLintRule.INVALID_ACTION_SYNTAX, "doc.Statement[0].Action[0]"],
+      [PolicyLintRule.INVALID_ACTION_SYNTAX, "doc.Statement[0].Action[1]"],
+      [PolicyLintRule.INVALID_ACTION_SYNTAX, "doc.Statement[0].Action[2]"]
+    ]);
+  });
+
+  it("reports unknown service prefixes in Action and NotAction", () => {
+    const document = policyDocument(
+      allow("ec2:Describe*", "s4:GetObject").resources("*"),
+      deny().notActions("lamda:Invoke*").sid("DenyOthers").resources("*")
+    );
+    assert.deepEqual(findings(document), [
+      [PolicyLintRule.UNKNOWN_SERVICE_PREFIX, "doc.Statement[0].Action[1]"],
+      [PolicyLintRule.UNKNOWN_SERVICE_PREFIX, "doc.Statement[1].NotAction[0]"]
+    ]);
+  });
+
+  it("reports Deny statements without a Sid", () => {
+    const document = policyDocument(deny("s3:DeleteBucket").resources("*"));
+    const [finding] = lintPolicyDocument(document, PolicyDocumentKind.IAM, "doc");
+    assert.equal(finding.rule, PolicyLintRule.DENY_WITHOUT_SID);
+    assert.equal(finding.severity, PolicyLintSeverity.WARNING);
+  });
+
+  it("reports Allow statements granting every action on every resource", () => {
+    const document = policyDocument(
+      allow("*").sid("Admin").resources("*").condition("Bool", "aws:MultiFactorAuthPresent", "true"),
+      allow("*").resources("arn:aws:s3:::logs/*"),
+      deny("*").sid("DenyAll").resources("*")
+    );
+    const [finding, ...rest] = lintPolicyDocument(document, PolicyDocumentKind.IAM, "doc");
+    assert.deepEqual(rest, []);
+    assert.equal(finding.rule, PolicyLintRule.ALLOW_ALL);
+    assert.equal(finding.severity, PolicyLintSeverity.ERROR);
+    assert.equal(finding.path, "doc.Statement[0]");
+    assert.match(finding.message, /"Admin"/);
+  });
+
+  it("reports unsupported condition operators", () => {
+    const document = {
+      Version: "2012-10-17",
+      Statement: [{
+        Effect: "Allow",
+        Action: "s3:GetObject",
+        Resource: "*",
+        Condition: {
+          StringEqualsIfExists: { "aws:ResourceTag/Team": "platform" },
+          "ForAnyValue:StringLike": { "aws:TagKeys": "team-*" },
+          StringContains: { "aws:ResourceTag/Team": "plat" },
+          NullIfExists: { "aws:ResourceTag/Team": "true" }
+        }
+      }]
+    } as unknown as PolicyDocument;
+    assert.deepEqual(findings(document), [
+      [PolicyLintRule.UNSUPPORTED_CONDITION_OPERATOR, "doc.Statement[0].Condition.StringContains"],
+      [PolicyLintRule.UNSUPPORTED_CONDITION_OPERATOR, "doc.Statement[0].Condition.NullIfExists"]
+    ]);
+  });
+
+  it("checks the size of SCPs only", () => {
+    const actions = Array.from({ length: 400 }, (_, i) => `ec2:Action${i}`);
+    const document = policyDocument(deny(...actions).sid("DenyMany").resources("*"));
+    assert.ok(JSON.stringify(document).length > MAX_SCP_SIZE);
+
+    assert.deepEqual(findings(document), []);
+    assert.deepEqual(findings(document, PolicyDocumentKind.SERVICE_CONTROL_POLICY), [[PolicyLintRule.SCP_SIZE, "doc"]]);
+  });
+
+  it("applies severity overrides and drops rules that are off", () => {
+    const document = policyDocument(deny("s4:DeleteBucket").resources("*"));
+    const result = lintPolicyDocument(document, PolicyDocumentKind.IAM, "doc", {
+      severities: {
+        [PolicyLintRule.DENY_WITHOUT_SID]: PolicyLintSeverity.ERROR,
+        [PolicyLintRule.UNKNOWN_SERVICE_PREFIX]: PolicyLintSeverity.OFF
+      }
+    });
+    assert.deepEqual(result.map(finding => [finding.rule, finding.severity]), [
+      [PolicyLintRule.DENY_WITHOUT_SID, PolicyLintSeverity.ERROR]
+    ]);
+  });
+});
+
+describe("lintConfig", () => {
+  it("finds no errors in the repository configuration", () => {
+    const errors = lintConfig(configSet).filter(finding => finding.severity === PolicyLintSeverity.ERROR);
+    assert.deepEqual(errors, []);
+  });
+
+  it("reports accepted findings as warnings with the reason of the acceptance", () => {
+    const accepted = lintConfig(configSet).filter(finding => finding.accepted !== undefined);
+    assert.deepEqual(accepted.map(finding => [finding.rule, finding.severity, finding.path]), [
+      [PolicyLintRule.INVALID_ACTION_SYNTAX, PolicyLintSeverity.WARNING, "policies.prod[0].document.Statement[1].Action[0]"],
+      [PolicyLintRule.INVALID_ACTION_SYNTAX, PolicyLintSeverity.WARNING, "policies.prod[0].document.Statement[1].Action[1]"],
+      [PolicyLintRule.ALLOW_ALL, PolicyLintSeverity.WARNING, "policies.sandbox1[0].document.Statement[0]"]
+    ]);
+
+    // An acceptance only covers its own rule and path
+    const config = JSON.parse(JSON.stringify(configSet));
+    config.policyLint.accepted = [{ ...config.policyLint.accepted[2], rule: PolicyLintRule.INVALID_ACTION_SYNTAX }];
+    const errors = lintConfig(config).filter(finding => finding.severity === PolicyLintSeverity.ERROR);
+    assert.equal(errors.length, 3);
+    assert.ok(errors.every(finding => finding.accepted === undefined));
+  });
+
+  it("lints the IAM policies and SCPs with their paths", () => {
+    const config = JSON.parse(JSON.stringify(configSet));
+    config.policies.prod[0].document.Statement.push({ Effect: "Allow", Action: "*", Resource: "*" });
+    config.serviceControlPolicies[0].document.Statement[0].Action = ["*:Delete*"];
+
+    const paths = lintConfig(config)
+      .filter(finding => finding.severity === PolicyLintSeverity.ERROR)
+      .map(finding => finding.path);
+    const added = config.policies.prod[0].document.Statement.length - 1;
+    assert.deepEqual(paths, [
+      `policies.prod[0].document.Statement[${added}]`,
+      "serviceControlPolicies[0].document.Statement[0].Action[0]"
+    ]);
+  });
+});
+
+describe("assertPolicyLint", () => {
+  it("passes the repository configuration", () => {
+    assert.doesNotThrow(() => assertPolicyLint(configSet));
+  });
+
+  it("throws a PolicyLintError listing every error", () => {
+    const config = JSON.parse(JSON.stringify(configSet));
+    config.policies.prod[0].document.Statement.push({ Effect: "Allow", Action: "*", Resource: "*" });
+    config.policies.prod[0].document.Statement.push({ Effect: "Allow", Action: "s4:Get*", Resource: "*" });
+
+    assert.throws(() => assertPolicyLint(config), (error: unknown) => {
+      assert.ok(error instanceof PolicyLintError);
+      assert.deepEqual(error.findings.map(finding => finding.rule), [
+        PolicyLintRule.ALLOW_ALL,
+        PolicyLintRule.UNKNOWN_SERVICE_PREFIX
+      ]);
+      assert.match(error.message, /^Policy lint failed \(2 errors\):/);
+      return true;
+    });
+  });
+});
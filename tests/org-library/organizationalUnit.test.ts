@@ -0,0 +1,31 @@
+import * as assert from "assert/strict";
+import { createOrganization } from "../../shared/org-library/organization";
+import { createOrganizationalUnit } from "../../shared/org-library/organizationalUnit";
+import { recordedResource, resetResources, resolve, settle, setupMocks } from "../mocks";
+
+describe("createOrganization and createOrganizationalUnit", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("creates OUs under the organization root", async () => {
+    const organization = createOrganization("example-org", {
+      featureSet: "ALL",
+      enabledPolicyTypes: ["SERVICE_CONTROL_POLICY"]
+    });
+    createOrganizationalUnit("dev", {
+      name: "dev",
+      parentId: organization.roots[0].id,
+      tags: { Environment: "dev", ManagedBy: "Pulumi" }
+    });
+    await settle();
+
+    assert.deepEqual(recordedResource("aws:organizations/organization:Organization", "example-org").inputs, {
+      featureSet: "ALL",
+      enabledPolicyTypes: ["SERVICE_CONTROL_POLICY"]
+    });
+    const ou = recordedResource("aws:organizations/organizationalUnit:OrganizationalUnit", "dev");
+    assert.equal(ou.inputs.parentId, "r-root");
+    assert.deepEqual(ou.inputs.tags, { Environment: "dev", ManagedBy: "Pulumi" });
+    assert.equal(await resolve(organization.roots[0].id), "r-root");
+  });
+});
@@ -0,0 +1,154 @@
+import * as assert from "assert/strict";
+import * as pulumi from "@pulumi/pulumi";
+import { createPolicy, PolicyEnvironment, PolicyOptions, PolicyType } from "../../shared/org-library/policy";
+import { allow, deny, policyDocument } from "../../shared/org-library/policyDocument";
+import { recordedNames, recordedResource, recordedResources, resetResources, resolve, settle, setupMocks } from "../mocks";
+
+const ORGANIZATIONS_POLICY = "aws:organizations/policy:Policy";
+const ATTACHMENT = "aws:organizations/policyAttachment:PolicyAttachment";
+
+describe("createPolicy", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  describe("IAM", () => {
+    it("serializes the document and tags the policy with its environment", async () => {
+      const result = createPolicy({
+        name: "read-logs",
+        type: PolicyType.IAM,
+        environment: PolicyEnvironment.PROD,
+        description: "Read logs",
+        path: "/env/prod/",
+        document: policyDocument(allow("logs:Get*").resources("*")),
+        tags: { Environment: "staging", Team: "platform" }
+      });
+      await settle();
+
+      assert.equal(recordedResource("org-library:iam:OrgIamPolicy", "read-logs").custom, false);
+      const { inputs } = recordedResource("aws:iam/policy:Policy", "read-logs");
+      assert.equal(inputs.path, "/env/prod/");
+      assert.deepEqual(JSON.parse(inputs.policy), {
+        Version: "2012-10-17",
+        Statement: [{ Effect: "Allow", Action: "logs:Get*", Resource: "*" }]
+      });
+      assert.deepEqual(inputs.tags, { Environment: "prod", Team: "platform", ManagedBy: "pulumi" });
+      assert.equal(await resolve(result.arn), "arn:aws:iam::123456789012:read-logs");
+    });
+
+    it("serializes documents containing outputs once they are known", async () => {
+      createPolicy({
+        name: "assume-admin",
+        type: PolicyType.IAM,
+        document: {
+          Version: "2012-10-17",
+          Statement: [{
+            Effect: "Allow",
+            Action: "sts:AssumeRole",
+            Resource: pulumi.output(Promise.resolve("arn:aws:iam::123456789012:role/admin"))
+          }]
+        }
+      });
+      await settle();
+
+      const { inputs } = recordedResource("aws:iam/policy:Policy", "assume-admin");
+      assert.equal(JSON.parse(inputs.policy).Statement[0].Resource, "arn:aws:iam::123456789012:role/admin");
+      assert.equal(inputs.tags.Environment, "all");
+    });
+  });
+
+  describe("service control policies", () => {
+    it("attaches the policy once per target", async () => {
+      const result = createPolicy({
+        name: "deny-leave",
+        type: PolicyType.SERVICE_CONTROL_POLICY,
+        document: policyDocument(deny("organizations:LeaveOrganization").sid("DenyLeave").resources("*")),
+        targets: [{ name: "root", targetId: "r-root" }, { name: "ou-prod", targetId: "ou-prod" }]
+      });
+      await settle();
+
+      const { inputs } = recordedResource(ORGANIZATIONS_POLICY, "deny-leave");
+      assert.equal(inputs.type, "SERVICE_CONTROL_POLICY");
+      assert.equal(JSON.parse(inputs.content).Statement[0].Sid, "DenyLeave");
+      assert.deepEqual(recordedNames(ATTACHMENT), ["deny-leave-attach-ou-prod", "deny-leave-attach-root"]);
+      assert.deepEqual(recordedResource(ATTACHMENT, "deny-leave-attach-ou-prod").inputs, {
+        policyId: "deny-leave-id",
+        targetId: "ou-prod"
+      });
+      assert.equal((await resolve(result.attachmentIds!)).length, 2);
+    });
+
+    it("rejects SCPs without targets", () => {
+      assert.throws(
+        () => createPolicy({
+          name: "unattached",
+          type: PolicyType.SERVICE_CONTROL_POLICY,
+          document: policyDocument(deny("*").resources("*"))
+        }),
+        /Service control policy "unattached" has no targets/
+      );
+    });
+  });
+
+  // Each management policy type creates its own component around the policy
+  const managementPolicies = [
+    {
+      type: PolicyType.TAG_POLICY,
+      component: "org-library:organizations:OrgTagPolicy",
+      document: { tags: { Owner: { tag_key: { "@@assign": "Owner" } } } }
+    },
+    {
+      type: PolicyType.BACKUP_POLICY,
+      component: "org-library:organizations:OrgBackupPolicy",
+      document: {
+        plans: {
+          daily: {
+            rules: { daily: { target_backup_vault_name: { "@@assign": "Default" } } }
+          }
+        }
+      }
+    },
+    {
+      type: PolicyType.AISERVICES_OPT_OUT_POLICY,
+      component: "org-library:organizations:OrgAiServicesOptOutPolicy",
+      document: { services: { default: { opt_out_policy: { "@@assign": "optOut" as const } } } }
+    },
+    {
+      type: PolicyType.RESOURCE_CONTROL_POLICY,
+      component: "org-library:organizations:OrgResourceControlPolicy",
+      document: policyDocument(deny("s3:*").sid("DenyInsecureTransport").principal("*").resources("*")
+        .condition("Bool", "aws:SecureTransport", "false"))
+    },
+    {
+      type: PolicyType.DECLARATIVE_POLICY_EC2,
+      component: "org-library:organizations:OrgDeclarativeEc2Policy",
+      document: { ec2_attributes: { serial_console_access: { status: { "@@assign": "disabled" as const } } } }
+    }
+  ];
+
+  for (const { type, component, document } of managementPolicies) {
+    describe(type, () => {
+      it("creates the policy with its type and a single-target attachment", async () => {
+        createPolicy({ name: "example", type, document, targetId: "r-root", tags: { ManagedBy: "Pulumi" } } as PolicyOptions);
+        await settle();
+
+        assert.equal(recordedResource(component, "example").custom, false);
+        const { inputs } = recordedResource(ORGANIZATIONS_POLICY, "example");
+        assert.equal(inputs.type, type);
+        assert.deepEqual(JSON.parse(inputs.content), document);
+        assert.deepEqual(inputs.tags, { ManagedBy: "Pulumi" });
+        assert.deepEqual(recordedResource(ATTACHMENT, "example-attachment").inputs, {
+          policyId: "example-id",
+          targetId: "r-root"
+        });
+      });
+
+      it("can be created without attachments", async () => {
+        createPolicy({ name: "detached", type, document } as PolicyOptions);
+        await settle();
+
+        assert.deepEqual(recordedResources(ATTACHMENT), []);
+      });
+    });
+  }
+});
+
@@ -0,0 +1,105 @@
+import * as assert from "assert/strict";
+import { allow, deny, policyDocument, PolicyStatementBuilder } from "../../shared/org-library/policyDocument";
+
+describe("PolicyStatementBuilder", () => {
+  it("builds an Allow statement and collapses single-entry lists", () => {
+    assert.deepEqual(allow("s3:GetObject").resources("arn:aws:s3:::logs/*").build(), {
+      Effect: "Allow",
+      Action: "s3:GetObject",
+      Resource: "arn:aws:s3:::logs/*"
+    });
+  });
+
+  it("keeps lists with several entries, in order", () => {
+    const statement = deny("s3:DeleteBucket")
+      .actions("s3:DeleteObject")
+      .sid("DenyDeletes")
+      .resources("arn:aws:s3:::logs", "arn:aws:s3:::logs/*")
+      .build();
+
+    assert.deepEqual(statement, {
+      Sid: "DenyDeletes",
+      Effect: "Deny",
+      Action: ["s3:DeleteBucket", "s3:DeleteObject"],
+      Resource: ["arn:aws:s3:::logs", "arn:aws:s3:::logs/*"]
+    });
+  });
+
+  it("builds NotAction and NotResource statements", () => {
+    const statement = new PolicyStatementBuilder("Deny")
+      .notActions("iam:ChangePassword", "iam:GetUser")
+      .resources("*")
+      .notResources("arn:aws:iam::*:user/${aws:username}")
+      .build();
+
+    assert.deepEqual(statement, {
+      Effect: "Deny",
+      NotAction: ["iam:ChangePassword", "iam:GetUser"],
+      NotResource: "arn:aws:iam::*:user/${aws:username}"
+    });
+  });
+
+  it("combines conditions on the same operator", () => {
+    const statement = allow("ec2:StartInstances")
+      .resources("*")
+      .condition("StringEquals", "aws:ResourceTag/Environment", "dev")
+      .condition("StringEquals", "aws:RequestedRegion", ["eu-west-1", "eu-central-1"])
+      .condition("BoolIfExists", "aws:MultiFactorAuthPresent", "true")
+      .build();
+
+    assert.deepEqual(statement.Condition, {
+      StringEquals: {
+        "aws:ResourceTag/Environment": "dev",
+        "aws:RequestedRegion": ["eu-west-1", "eu-central-1"]
+      },
+      BoolIfExists: { "aws:MultiFactorAuthPresent": "true" }
+    });
+  });
+
+  it("sets the principal of trust policy statements", () => {
+    const trusted = allow("sts:AssumeRole")
+      .sid("TrustAccount")
+      .principal({ AWS: "arn:aws:iam::111111111111:root" })
+      .condition("Bool", "aws:MultiFactorAuthPresent", "true")
+      .build();
+    assert.deepEqual(trusted, {
+      Sid: "TrustAccount",
+      Effect: "Allow",
+      Principal: { AWS: "arn:aws:iam::111111111111:root" },
+      Action: "sts:AssumeRole",
+      Condition: { Bool: { "aws:MultiFactorAuthPresent": "true" } }
+    });
+
+    const excluded = deny("sts:AssumeRole").notPrincipal({ Service: "ec2.amazonaws.com" }).build();
+    assert.deepEqual(excluded.NotPrincipal, { Service: "ec2.amazonaws.com" });
+    assert.equal(excluded.Principal, undefined);
+  });
+
+  it("requires exactly one of Action and NotAction", () => {
+    assert.throws(() => allow().resources("*").build(), /^Error: Statement has neither Action nor NotAction$/);
+    assert.throws(() => allow("s3:GetObject").sid("Mixed").notActions("s3:PutObject").build(),
+      /^Error: Statement "Mixed" has both Action and NotAction$/);
+  });
+});
+
+describe("policyDocument", () => {
+  it("assembles builders and plain statements into a 2012-10-17 document", () => {
+    const document = policyDocument(
+      allow("logs:Get*").resources("*"),
+      { Sid: "DenyIam", Effect: "Deny", Action: "iam:*", Resource: "*" }
+    );
+
+    assert.deepEqual(document, {
+      Version: "2012-10-17",
+      Statement: [
+        { Effect: "Allow", Action: "logs:Get*", Resource: "*" },
+        { Sid: "DenyIam", Effect: "Deny", Action: "iam:*", Resource: "*" }
+      ]
+    });
+  });
+
+  it("builds each statement when the document is assembled", () => {
+    assert.throws(() => policyDocument(allow("s3:GetObject").resources("*"), deny().sid("Empty")),
+      /Statement "Empty" has neither Action nor NotAction/);
+  });
+});
@@ -0,0 +1,159 @@
+import * as assert from "assert/strict";
+import configSet from "../../shared/config";
+import { ConfigSet } from "../../shared/org-library/config-types";
+import { allow, deny, policyDocument } from "../../shared/org-library/policyDocument";
+import {
+  AccessLevel,
+  buildAccessReport,
+  classifyPolicyDocument,
+  highestAccess,
+  renderAccessReportCsv,
+  renderAccessReportMarkdown
+} from "../../shared/org-library/report";
+
+const READ_ONLY_ACCESS = "arn:aws:iam::aws:policy/ReadOnlyAccess";
+const ADMINISTRATOR_ACCESS = "arn:aws:iam::aws:policy/AdministratorAccess";
+
+const LOGS_READ = policyDocument(allow("logs:Get*", "logs:FilterLogEvents").resources("*"));
+const DEPLOY = policyDocument(allow("s3:PutObject").sid("Deploy").resources("arn:aws:s3:::artifacts/*"));
+
+/**
+ * A staging environment with two users, a group and a role, next to a group
+ * of another environment.
+ */
+function reportConfig(): ConfigSet {
+  const config: ConfigSet = JSON.parse(JSON.stringify(configSet));
+  return {
+    ...config,
+    users: [
+      {
+        username: "alice",
+        email: "alice@example.com",
+        description: "Deployer",
+        groups: ["deployers", "prod-readers"],
+        managedPolicies: ["logs-read"],
+        assumeRoles: ["ops-role", "prod-role"],
+        environment: "staging",
+        tags: { Environment: "staging" }
+      },
+      {
+        username: "bob",
+        email: "bob@example.com",
+        description: "New joiner",
+        environment: "staging",
+        tags: { Environment: "staging" }
+      }
+    ],
+    groups: [
+      {
+        name: "deployers",
+        description: "Deploy to staging",
+        environment: "staging",
+        policyArns: [READ_ONLY_ACCESS],
+        policies: ["deploy"],
+        tags: { Environment: "staging" }
+      },
+      {
+        name: "prod-readers",
+        description: "Read production",
+        environment: "prod",
+        policyArns: [READ_ONLY_ACCESS],
+        tags: { Environment: "prod" }
+      }
+    ],
+    roles: {
+      staging: [{
+        name: "ops-role",
+        description: "Operations",
+        policyArns: [ADMINISTRATOR_ACCESS, "arn:aws:iam::aws:policy/AWSSupportAccess"],
+        tags: { Environment: "staging" }
+      }]
+    },
+    policies: {
+      managedPolicies: [{ name: "logs-read", document: LOGS_READ }],
+      staging: [{ name: "deploy", document: DEPLOY }]
+    }
+  };
+}
+
+describe("classifyPolicyDocument", () => {
+  it("classifies documents by their Allow statements", () => {
+    assert.equal(classifyPolicyDocument(policyDocument(allow("*").resources("*"))), AccessLevel.ADMIN);
+    assert.equal(classifyPolicyDocument(policyDocument(allow("iam:*").resources("*"))), AccessLevel.ADMIN);
+    assert.equal(classifyPolicyDocument(policyDocument(allow("*").resources("arn:aws:s3:::logs/*"))), AccessLevel.WRITE);
+    assert.equal(classifyPolicyDocument(policyDocument(allow().notActions("iam:*").resources("*"))), AccessLevel.WRITE);
+    assert.equal(classifyPolicyDocument(policyDocument(allow("s3:*").resources("*"))), AccessLevel.WRITE);
+    assert.equal(classifyPolicyDocument(LOGS_READ), AccessLevel.READ);
+    assert.equal(classifyPolicyDocument(policyDocument(deny("*").sid("DenyAll").resources("*"))), AccessLevel.NONE);
+  });
+
+  it("orders access levels", () => {
+    assert.equal(highestAccess([]), AccessLevel.NONE);
+    assert.equal(highestAccess([AccessLevel.UNKNOWN, AccessLevel.NONE]), AccessLevel.UNKNOWN);
+    assert.equal(highestAccess([AccessLevel.READ, AccessLevel.UNKNOWN]), AccessLevel.READ);
+    assert.equal(highestAccess([AccessLevel.ADMIN, AccessLevel.WRITE, AccessLevel.READ]), AccessLevel.ADMIN);
+  });
+});
+
+describe("buildAccessReport", () => {
+  it("lists the users of the environment with their groups, direct policies and roles", () => {
+    const report = buildAccessReport(reportConfig(), "staging");
+
+    assert.equal(report.environment, "staging");
+    assert.equal(report.displayName, "Staging");
+    assert.deepEqual(report.users.map(user => [user.username, user.groups, user.directPolicies, user.assumableRoles, user.access]), [
+      ["alice", ["deployers"], ["logs-read"], ["ops-role"], AccessLevel.ADMIN],
+      ["bob", [], [], [], AccessLevel.NONE]
+    ]);
+  });
+
+  it("classifies every policy reaching a user and keeps the resolved documents", () => {
+    const [alice] = buildAccessReport(reportConfig(), "staging").users;
+
+    assert.deepEqual(alice.policies.map(policy => [policy.name, policy.via, policy.access]), [
+      [READ_ONLY_ACCESS, "group deployers", AccessLevel.READ],
+      ["deploy", "group deployers", AccessLevel.WRITE],
+      ["logs-read", "user alice", AccessLevel.READ],
+      [ADMINISTRATOR_ACCESS, "role ops-role", AccessLevel.ADMIN],
+      ["arn:aws:iam::aws:policy/AWSSupportAccess", "role ops-role", AccessLevel.UNKNOWN]
+    ]);
+    assert.deepEqual(alice.policies.map(policy => policy.document !== undefined), [false, true, true, true, false]);
+    assert.deepEqual(alice.policies[1].document, DEPLOY);
+  });
+
+  it("rejects unknown environments", () => {
+    assert.throws(() => buildAccessReport(reportConfig(), "preprod"), /Unknown environment "preprod"/);
+  });
+});
+
+describe("access report rendering", () => {
+  const report = buildAccessReport(reportConfig(), "staging");
+
+  it("renders a Markdown summary and each user's policies", () => {
+    const lines = renderAccessReportMarkdown(report).split("\n");
+
+    assert.deepEqual(lines.slice(0, 6), [
+      "# Access report: Staging (staging)",
+      "",
+      "| User | Groups | Direct policies | Assumable roles | Highest access |",
+      "|------|--------|-----------------|-----------------|----------------|",
+      "| alice | deployers | logs-read | ops-role | admin |",
+      "| bob | - | - | - | none |"
+    ]);
+    assert.ok(lines.includes("## alice"));
+    assert.ok(lines.includes("| deploy | group deployers | write |"));
+    assert.ok(lines.includes("<details><summary>deploy (group deployers)</summary>"));
+    assert.ok(!lines.includes(`<details><summary>${READ_ONLY_ACCESS} (group deployers)</summary>`));
+    assert.deepEqual(lines.slice(lines.indexOf("## bob")), ["## bob", "", "No policies.", ""]);
+  });
+
+  it("renders one CSV row per user and policy", () => {
+    const rows = renderAccessReportCsv(report).trimEnd().split("\n");
+
+    assert.equal(rows[0], "environment,user,groups,assumable_roles,policy,via,access,document");
+    assert.equal(rows.length, 1 + 5 + 1);
+    assert.equal(rows[1], `staging,alice,deployers,ops-role,${READ_ONLY_ACCESS},group deployers,read,`);
+    assert.equal(rows[2], `staging,alice,deployers,ops-role,deploy,group deployers,write,"${JSON.stringify(DEPLOY).replace(/"/g, '""')}"`);
+    assert.equal(rows[6], "staging,bob,,,,,,");
+  });
+});
@@ -0,0 +1,108 @@
+import * as assert from "assert/strict";
+import { allow, policyDocument } from "../../shared/org-library/policyDocument";
+import { buildTrustPolicy, createIamRole, trustPolicyDocument } from "../../shared/org-library/role";
+import { RoleConfig, UserConfig } from "../../shared/org-library/config-types";
+import { recordedNames, recordedResource, resetResources, resolve, settle, setupMocks } from "../mocks";
+
+/**
+ * Users trusted by deploy-role: alice through assumeRoles, bob through the deployers group.
+ */
+const user = (username: string, fields: Partial<UserConfig>): UserConfig => ({
+  username,
+  email: `${username}@example.com`,
+  description: "",
+  environment: "dev",
+  tags: { Environment: "dev" },
+  ...fields
+});
+const users = [
+  user("alice", { assumeRoles: ["deploy-role"] }),
+  user("bob", { groups: ["deployers"] }),
+  user("carol", {})
+];
+
+describe("createIamRole", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("serializes the trust policy and creates attachments and inline policies", async () => {
+    const role = createIamRole("deploy-role", {
+      name: "deploy-role",
+      assumeRolePolicy: policyDocument(allow("sts:AssumeRole").principal({ Service: "ec2.amazonaws.com" })),
+      managedPolicyArns: ["arn:aws:iam::aws:policy/ReadOnlyAccess"],
+      inlinePolicies: [{ name: "logs", policy: policyDocument(allow("logs:PutLogEvents").resources("*")) }],
+      tags: { Environment: "dev", ManagedBy: "pulumi" }
+    });
+    await settle();
+
+    assert.equal(recordedResource("org-library:iam:OrgIamRole", "deploy-role").custom, false);
+    const { inputs } = recordedResource("aws:iam/role:Role", "deploy-role");
+    assert.deepEqual(JSON.parse(inputs.assumeRolePolicy), {
+      Version: "2012-10-17",
+      Statement: [{ Effect: "Allow", Action: "sts:AssumeRole", Principal: { Service: "ec2.amazonaws.com" } }]
+    });
+    assert.deepEqual(inputs.tags, { Environment: "dev", ManagedBy: "pulumi" });
+    assert.deepEqual(recordedNames("aws:iam/rolePolicyAttachment:RolePolicyAttachment"), ["deploy-role-attach-ReadOnlyAccess"]);
+
+    const inline = recordedResource("aws:iam/rolePolicy:RolePolicy", "deploy-role-inline-logs");
+    assert.equal(inline.inputs.name, "logs");
+    assert.equal(JSON.parse(inline.inputs.policy).Statement[0].Action, "logs:PutLogEvents");
+    assert.equal(await resolve(role.name), "deploy-role");
+  });
+});
+
+describe("buildTrustPolicy", () => {
+  before(() => setupMocks());
+
+  const role: RoleConfig = {
+    name: "deploy-role",
+    description: "Deployments",
+    policyArns: [],
+    trust: {
+      groups: ["deployers"],
+      accounts: ["tools"],
+      services: ["lambda.amazonaws.com"],
+      conditions: { mfaRequired: true, externalId: "ext-1" }
+    },
+    tags: { Environment: "dev" }
+  };
+
+  it("trusts users by ARN, accounts by root and services, with MFA for people", async () => {
+    const document = JSON.parse(await resolve(buildTrustPolicy(role, {
+      accountId: "123456789012",
+      accounts: { tools: { id: "210987654321" } },
+      users
+    })));
+
+    assert.deepEqual(document.Statement.map((statement: { Sid: string }) => statement.Sid),
+      ["TrustUsers", "TrustAccounts", "TrustServices"]);
+    const [trustUsers, trustAccounts, trustServices] = document.Statement;
+    assert.deepEqual(trustUsers.Condition, {
+      ArnEquals: {
+        "aws:PrincipalArn": ["arn:aws:iam::123456789012:user/users/alice", "arn:aws:iam::123456789012:user/users/bob"]
+      },
+      Bool: { "aws:MultiFactorAuthPresent": "true" }
+    });
+    assert.deepEqual(trustAccounts.Principal, { AWS: ["arn:aws:iam::210987654321:root"] });
+    assert.deepEqual(trustAccounts.Condition.StringEquals, { "sts:ExternalId": "ext-1" });
+    assert.equal(trustServices.Condition, undefined);
+  });
+
+  it("trusts nobody while the trusted groups have no members", () => {
+    const role = { name: "team-role", description: "", policyArns: [], trust: { groups: ["empty-team"] }, tags: { Environment: "dev" } };
+    assert.deepEqual(trustPolicyDocument(role, { accountId: "123456789012", accounts: {}, users }).Statement, [{
+      Sid: "NoTrustedPrincipals",
+      Effect: "Deny",
+      Principal: { AWS: "arn:aws:iam::123456789012:root" },
+      Action: "sts:AssumeRole"
+    }]);
+  });
+
+  it("rejects roles without trusted principals", () => {
+    assert.throws(
+      () => buildTrustPolicy({ name: "orphan-role", description: "", policyArns: [], tags: { Environment: "dev" } },
+        { accountId: "123456789012", accounts: {}, users }),
+      /Role "orphan-role" has no trusted principals/
+    );
+  });
+});
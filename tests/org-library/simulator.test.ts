@@ -0,0 +1,202 @@
+import * as assert from "assert/strict";
+import configSet from "../../shared/config";
+import { ConfigSet } from "../../shared/org-library/config-types";
+import { allow, deny, policyDocument } from "../../shared/org-library/policyDocument";
+import {
+  evaluatePolicies,
+  FULL_AWS_ACCESS_ARN,
+  PolicyLayer,
+  resolveRolePolicies,
+  ResolvedPrincipalPolicies,
+  simulate,
+  SimulationDecision
+} from "../../shared/org-library/simulator";
+
+const ADMINISTRATOR_ACCESS = "arn:aws:iam::aws:policy/AdministratorAccess";
+
+/**
+ * A deep copy of the repository's configuration set, safe to modify.
+ */
+function copyConfig(): ConfigSet {
+  return JSON.parse(JSON.stringify(configSet));
+}
+
+/**
+ * Policies of a principal with AdministratorAccess under the given SCPs.
+ */
+function adminUnder(
+  serviceControlPolicies: ResolvedPrincipalPolicies["serviceControlPolicies"],
+  serviceControlPolicyTargets = ["root"]
+): ResolvedPrincipalPolicies {
+  return {
+    principal: "role test",
+    identity: [{
+      name: ADMINISTRATOR_ACCESS,
+      source: "role test",
+      layer: PolicyLayer.IDENTITY,
+      document: policyDocument(allow("*").resources("*"))
+    }],
+    serviceControlPolicies,
+    serviceControlPolicyTargets,
+    unresolved: []
+  };
+}
+
+describe("simulate", () => {
+  it("allows requests an identity policy allows", () => {
+    const result = simulate(configSet, {
+      principal: { role: "staging-access-role" },
+      environment: "staging",
+      action: "s3:GetObject",
+      resource: "arn:aws:s3:::artifacts/build.zip"
+    });
+
+    assert.equal(result.decision, SimulationDecision.ALLOWED);
+    assert.deepEqual(result.direct.matchedStatements.map(match => [match.policy, match.layer]), [
+      ["arn:aws:iam::aws:policy/PowerUserAccess", PolicyLayer.IDENTITY]
+    ]);
+  });
+
+  it("denies requests no identity policy allows", () => {
+    const result = simulate(configSet, {
+      principal: { role: "staging-access-role" },
+      environment: "staging",
+      action: "iam:CreateUser"
+    });
+
+    assert.equal(result.decision, SimulationDecision.IMPLICIT_DENY);
+    assert.equal(result.direct.reason, "no identity policy allows the request");
+  });
+
+  it("lets an explicit Deny win over an Allow", () => {
+    const config = copyConfig();
+    config.groups.find(group => group.name === "admin")!.policyArns = [ADMINISTRATOR_ACCESS];
+    const request = {
+      principal: { user: "system-admin" },
+      environment: "prod",
+      action: "s3:DeleteBucket"
+    };
+
+    const withoutMfa = simulate(config, request);
+    assert.equal(withoutMfa.decision, SimulationDecision.EXPLICIT_DENY);
+    assert.deepEqual(withoutMfa.direct.matchedStatements.map(match => match.sid), ["EnforceMFA", "DenyDeletionOperations"]);
+
+    const withMfa = simulate(config, { ...request, context: { "aws:MultiFactorAuthPresent": "true" } });
+    assert.equal(withMfa.decision, SimulationDecision.EXPLICIT_DENY);
+    assert.deepEqual(withMfa.direct.matchedStatements.map(match => match.sid), ["DenyDeletionOperations"]);
+
+    const productionAdmin = simulate(config, {
+      ...request,
+      context: { "aws:MultiFactorAuthPresent": "true", "aws:PrincipalTag/Role": "ProductionAdmin" }
+    });
+    assert.equal(productionAdmin.decision, SimulationDecision.ALLOWED);
+  });
+
+  it("applies the SCPs of the environment's OU", () => {
+    const result = simulate(configSet, {
+      principal: { user: "system-admin" },
+      environment: "prod",
+      action: "organizations:LeaveOrganization",
+      context: { "aws:MultiFactorAuthPresent": "true" }
+    });
+
+    assert.equal(result.decision, SimulationDecision.EXPLICIT_DENY);
+    assert.deepEqual(result.direct.matchedStatements.map(match => [match.policy, match.layer, match.target]), [
+      ["production-scp", PolicyLayer.SERVICE_CONTROL_POLICY, "OU prod"]
+    ]);
+  });
+
+  it("applies the SCPs of the OU's member accounts", () => {
+    const config = copyConfig();
+    config.serviceControlPolicies.push({
+      name: "dev-main-no-s3",
+      description: "Deny S3 in dev-main",
+      document: policyDocument(deny("s3:*").sid("DenyS3").resources("*")),
+      targets: [{ account: "dev-main" }]
+    });
+
+    const policies = resolveRolePolicies(config, "dev", "dev-limited-role");
+    assert.deepEqual(policies.serviceControlPolicyTargets, ["root", "OU dev", "account dev-main"]);
+
+    const result = simulate(config, { principal: { role: "dev-limited-role" }, environment: "dev", action: "s3:ListBucket" });
+    assert.equal(result.decision, SimulationDecision.EXPLICIT_DENY);
+    assert.deepEqual(result.direct.matchedStatements.map(match => [match.policy, match.target]), [
+      ["dev-main-no-s3", "account dev-main"]
+    ]);
+  });
+
+  it("requires the permissions boundary to allow the request", () => {
+    const config = copyConfig();
+    config.roles.staging[0].permissionsBoundary = "sandbox-environments-access";
+    const request = { principal: { role: "staging-access-role" }, environment: "staging" };
+
+    const outside = simulate(config, { ...request, action: "s3:PutObject" });
+    assert.equal(outside.decision, SimulationDecision.IMPLICIT_DENY);
+    assert.equal(outside.direct.reason, "not allowed by permissions boundary sandbox-environments-access");
+
+    const inside = simulate(config, {
+      ...request,
+      action: "ec2:DescribeInstances",
+      context: { "aws:ResourceTag/Environment": "sandbox1" }
+    });
+    assert.equal(inside.decision, SimulationDecision.ALLOWED);
+    assert.deepEqual(inside.direct.matchedStatements.map(match => [match.sid, match.layer]), [
+      [undefined, PolicyLayer.IDENTITY],
+      ["Sandbox1Access", PolicyLayer.PERMISSIONS_BOUNDARY]
+    ]);
+  });
+
+  it("evaluates roles through the trust policy of the role", () => {
+    const request = {
+      principal: { user: "qa-admin-user" },
+      environment: "qa",
+      action: "ec2:RunInstances"
+    };
+
+    const withoutMfa = simulate(configSet, request);
+    assert.equal(withoutMfa.decision, SimulationDecision.IMPLICIT_DENY);
+    assert.equal(withoutMfa.viaRoles[0].role.decision, SimulationDecision.ALLOWED);
+    assert.equal(withoutMfa.viaRoles[0].assume.reason,
+      "trust policy of role qa-admin-role does not trust the user in this context");
+
+    const withMfa = simulate(configSet, { ...request, context: { "aws:MultiFactorAuthPresent": "true" } });
+    assert.equal(withMfa.decision, SimulationDecision.ALLOWED);
+    assert.equal(withMfa.direct.decision, SimulationDecision.IMPLICIT_DENY);
+    assert.equal(withMfa.viaRoles[0].assume.decision, SimulationDecision.ALLOWED);
+  });
+});
+
+describe("evaluatePolicies", () => {
+  const request = { action: "ec2:RunInstances", resource: "*", context: {} };
+
+  it("assumes FullAWSAccess on every SCP target by default", () => {
+    const policies = resolveRolePolicies(configSet, "dev", "dev-limited-role");
+    assert.deepEqual(
+      policies.serviceControlPolicies.filter(policy => policy.name === FULL_AWS_ACCESS_ARN).map(policy => policy.target),
+      policies.serviceControlPolicyTargets);
+    assert.deepEqual(resolveRolePolicies(configSet, "dev", "dev-limited-role", { fullAwsAccess: false }).serviceControlPolicies, []);
+  });
+
+  it("requires an SCP allowing the request on every target", () => {
+    const allowEc2 = (target: string) => ({
+      name: "allow-ec2",
+      source: `SCP on ${target}`,
+      layer: PolicyLayer.SERVICE_CONTROL_POLICY,
+      target,
+      document: policyDocument(allow("ec2:*").resources("*"))
+    });
+
+    const unlisted = evaluatePolicies(adminUnder([], ["root", "OU dev"]), request);
+    assert.equal(unlisted.decision, SimulationDecision.IMPLICIT_DENY);
+    assert.equal(unlisted.reason, "no SCP on root allows the request");
+
+    const rootOnly = evaluatePolicies(adminUnder([allowEc2("root")], ["root", "OU dev"]), request);
+    assert.equal(rootOnly.reason, "no SCP on OU dev allows the request");
+
+    const everyTarget = evaluatePolicies(adminUnder([allowEc2("root"), allowEc2("OU dev")], ["root", "OU dev"]), request);
+    assert.equal(everyTarget.decision, SimulationDecision.ALLOWED);
+    const other = evaluatePolicies(adminUnder([allowEc2("root"), allowEc2("OU dev")], ["root", "OU dev"]),
+      { ...request, action: "s3:GetObject" });
+    assert.equal(other.decision, SimulationDecision.IMPLICIT_DENY);
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from "assert/strict";
+import { createIamUser } from "../../shared/org-library/user";
+import { recordedNames, recordedResource, recordedResources, resetResources, settle, setupMocks } from "../mocks";
+
+describe("createIamUser", () => {
+  before(() => setupMocks());
+  beforeEach(() => resetResources());
+
+  it("creates the user with its group memberships and policy attachments", async () => {
+    createIamUser("alice", {
+      name: "alice",
+      path: "/users/",
+      forceDestroy: false,
+      tags: { Environment: "prod", ManagedBy: "pulumi" },
+      groups: ["admin", "org-everyone"],
+      managedPolicyArns: [{ name: "assume-admin-role", arn: "arn:aws:iam::123456789012:policy/assume" }]
+    });
+    await settle();
+
+    assert.equal(recordedResource("org-library:iam:OrgIamUser", "alice").custom, false);
+    const { inputs } = recordedResource("aws:iam/user:User", "alice");
+    assert.equal(inputs.path, "/users/");
+    assert.equal(inputs.forceDestroy, false);
+    assert.deepEqual(inputs.tags, { Environment: "prod", ManagedBy: "pulumi" });
+
+    assert.deepEqual(recordedResource("aws:iam/userGroupMembership:UserGroupMembership", "alice-groups").inputs, {
+      user: "alice",
+      groups: ["admin", "org-everyone"]
+    });
+    assert.deepEqual(recordedNames("aws:iam/userPolicyAttachment:UserPolicyAttachment"), ["alice-attach-assume-admin-role"]);
+  });
+
+  it("creates no membership for users without groups", async () => {
+    createIamUser("bob", { name: "bob" });
+    await settle();
+
+    assert.deepEqual(recordedResources("aws:iam/userGroupMembership:UserGroupMembership"), []);
+  });
+});
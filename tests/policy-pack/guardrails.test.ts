@@ -0,0 +1,134 @@
+import * as assert from "assert/strict";
+import { orgGuardrailPolicies } from "../../shared/policy-pack/policies";
+import { GuardrailOptions, GuardrailResource, runGuardrails } from "../../shared/policy-pack/rules";
+import { RecordedResource, recordedResources, runStack } from "../mocks";
+
+const OPTIONS: GuardrailOptions = { productionEnvironments: ["prod"] };
+
+/**
+ * Converts the resources recorded while a stack ran into guardrail resources,
+ * with the mocked ID and the inputs and outputs as properties.
+ */
+function guardrailResources(stack: string): GuardrailResource[] {
+  return recordedResources().map((resource: RecordedResource) => ({
+    type: resource.type,
+    name: resource.name,
+    urn: `urn:pulumi:${stack}::aws-org-infrastructure::${resource.type}::${resource.name}`,
+    props: { ...JSON.parse(JSON.stringify(resource.state)), id: resource.importId || `${resource.name}-id` }
+  }));
+}
+
+/**
+ * The guardrail resource of a type with a logical name.
+ */
+function find(resources: GuardrailResource[], type: string, name: string): GuardrailResource {
+  const resource = resources.find(candidate => candidate.type === type && candidate.name === name);
+  assert.ok(resource, `${type} "${name}"`);
+  return resource;
+}
+
+describe("organization guardrails", () => {
+  for (const stack of ["foundation", "prod", "staging", "dev"]) {
+    it(`finds no violations in the ${stack} stack`, async () => {
+      await runStack(stack === "foundation" ? "stacks/foundation" : `stacks/environments/${stack}`, stack);
+      assert.deepEqual(runGuardrails(guardrailResources(stack), OPTIONS), []);
+    });
+  }
+
+  describe("on the prod stack", () => {
+    let resources: GuardrailResource[];
+
+    beforeEach(async () => {
+      await runStack("stacks/environments/prod", "prod");
+      resources = guardrailResources("prod");
+    });
+
+    it("reports IAM resources without the required tags", () => {
+      const role = find(resources, "aws:iam/role:Role", "prod-system-role");
+      delete role.props.tags.ManagedBy;
+      const policy = find(resources, "aws:iam/policy:Policy", "prod-restricted-access");
+      delete policy.props.tags;
+
+      assert.deepEqual(runGuardrails(resources, OPTIONS).map(violation => [violation.policy, violation.message]).sort(), [
+        ["iam-required-tags", `aws:iam/policy:Policy "prod-restricted-access" is missing the Environment tag`],
+        ["iam-required-tags", `aws:iam/policy:Policy "prod-restricted-access" is missing the ManagedBy tag`],
+        ["iam-required-tags", `aws:iam/role:Role "prod-system-role" is missing the ManagedBy tag`]
+      ]);
+    });
+
+    it("reports roles trusting the * principal", () => {
+      const role = find(resources, "aws:iam/role:Role", "prod-system-role");
+      const trust = JSON.parse(role.props.assumeRolePolicy);
+      trust.Statement.push({ Sid: "TrustEveryone", Effect: "Allow", Principal: { AWS: "*" }, Action: "sts:AssumeRole" });
+      role.props.assumeRolePolicy = JSON.stringify(trust);
+
+      assert.deepEqual(runGuardrails(resources, OPTIONS), [{
+        policy: "no-wildcard-trust-principal",
+        message: `Role "prod-system-role" trusts the "*" principal in statement "TrustEveryone"`,
+        urn: role.urn
+      }]);
+    });
+
+    it("reports production users with forceDestroy", () => {
+      const user = find(resources, "aws:iam/user:User", "prod-readonly-user");
+      user.props.forceDestroy = true;
+
+      assert.deepEqual(runGuardrails(resources, OPTIONS), [{
+        policy: "no-force-destroy-production-users",
+        message: `Production user "prod-readonly-user" sets forceDestroy`,
+        urn: user.urn
+      }]);
+    });
+
+    it("reports production users without a policy enforcing MFA", () => {
+      const policy = find(resources, "aws:iam/policy:Policy", "prod-restricted-access");
+      const document = JSON.parse(policy.props.policy);
+      document.Statement = document.Statement.filter((statement: any) => statement.Sid !== "EnforceMFA");
+      policy.props.policy = JSON.stringify(document);
+
+      assert.deepEqual(runGuardrails(resources, OPTIONS).map(violation => violation.message).sort(), [
+        `Production user "prod-readonly-user" has no policy denying requests made without MFA`,
+        `Production user "system-admin" has no policy denying requests made without MFA`
+      ]);
+    });
+
+    it("skips users whose policies are not known yet", () => {
+      const policy = find(resources, "aws:iam/policy:Policy", "prod-restricted-access");
+      policy.props.policy = undefined;
+
+      assert.deepEqual(runGuardrails(resources, OPTIONS), []);
+    });
+
+    it("only checks users of production environments", () => {
+      find(resources, "aws:iam/user:User", "prod-readonly-user").props.forceDestroy = true;
+
+      assert.deepEqual(runGuardrails(resources, { productionEnvironments: [] }), []);
+    });
+  });
+
+  it("reports SCPs without attachments in the foundation stack", async () => {
+    await runStack("stacks/foundation", "foundation");
+    const resources = guardrailResources("foundation").filter(resource =>
+      resource.type !== "aws:organizations/policyAttachment:PolicyAttachment" || !resource.name.startsWith("sandbox-scp-"));
+
+    assert.deepEqual(runGuardrails(resources, OPTIONS), [{
+      policy: "scp-attached",
+      message: `SCP "sandbox-scp" is not attached to any root, OU or account`,
+      urn: find(resources, "aws:organizations/policy:Policy", "sandbox-scp").urn
+    }]);
+  });
+
+  it("reports violations to CrossGuard through the policies", async () => {
+    await runStack("stacks/environments/prod", "prod");
+    const user = find(guardrailResources("prod"), "aws:iam/user:User", "prod-readonly-user");
+    user.props.forceDestroy = true;
+
+    const policy = orgGuardrailPolicies(OPTIONS, "advisory")
+      .find(candidate => candidate.name === "no-force-destroy-production-users")!;
+    assert.equal(policy.enforcementLevel, "advisory");
+    const reported: [string, string | undefined][] = [];
+    (policy as any).validateResource(user, (message: string, urn?: string) => reported.push([message, urn]));
+
+    assert.deepEqual(reported, [[`Production user "prod-readonly-user" sets forceDestroy`, user.urn]]);
+  });
+});
@@ -0,0 +1,26 @@
+import * as assert from "assert/strict";
+import { parseArgs } from "../../scripts/args";
+
+const USAGE = "Usage: example [--environment <env>] [--json]";
+
+describe("parseArgs", () => {
+  it("reads flag values and the --json switch", () => {
+    assert.deepEqual(parseArgs(["--environment", "prod", "--json"], USAGE), {
+      flags: { environment: "prod" },
+      repeated: { environment: ["prod"] },
+      json: true
+    });
+  });
+
+  it("keeps every value of a repeated flag", () => {
+    const { flags, repeated } = parseArgs(["--context", "a=1", "--context", "b=2"], USAGE);
+    assert.equal(flags.context, "b=2");
+    assert.deepEqual(repeated.context, ["a=1", "b=2"]);
+  });
+
+  it("rejects positional arguments, flags without a value and --json where it is not accepted", () => {
+    assert.throws(() => parseArgs(["prod"], USAGE), /^Error: Unexpected argument "prod"\nUsage: example/);
+    assert.throws(() => parseArgs(["--environment"], USAGE), /Unexpected argument "--environment"/);
+    assert.throws(() => parseArgs(["--json"], USAGE, { json: false }), /Unexpected argument "--json"/);
+  });
+});
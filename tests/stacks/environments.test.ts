@@ -0,0 +1,200 @@
+import * as assert from "assert/strict";
+import { CREDENTIALS_ACCOUNT } from "../../shared/org-library/environment";
+import { FOUNDATION_OUTPUTS, recordedNames, recordedResource, recordedResources, runStack } from "../mocks";
+
+interface ExpectedEnvironment {
+  environment: string;
+  production: boolean;
+  // Undefined when the foundation stack has no OU named after the environment
+  ouId: string;
+  // Member accounts of the environment's OU; empty when the resources stay in the stack's account
+  accounts: string[];
+  users: string[];
+  groups: string[];
+  roles: string[];
+  environmentPolicies: string[];
+  assumeRolePolicies: string[];
+}
+
+const expectations: ExpectedEnvironment[] = [
+  {
+    environment: "prod",
+    production: true,
+    ouId: "ou-prod",
+    accounts: [],
+    users: ["prod-readonly-user", "system-admin"],
+    groups: ["admin", "org-everyone", "prod-readonly"],
+    roles: ["prod-system-role"],
+    environmentPolicies: ["prod-restricted-access"],
+    assumeRolePolicies: ["prod-readonly-user-assume-prod-system-role-policy"]
+  },
+  {
+    environment: "staging",
+    production: false,
+    ouId: "ou-staging",
+    accounts: [],
+    users: ["qa-admin-user", "system-admin"],
+    groups: ["org-everyone", "staging-deployers"],
+    roles: ["staging-access-role"],
+    environmentPolicies: ["staging-access"],
+    assumeRolePolicies: ["qa-admin-user-assume-staging-access-role-policy"]
+  },
+  {
+    environment: "dev",
+    production: false,
+    ouId: "ou-dev",
+    accounts: ["dev-main"],
+    users: ["sandbox-direct-access", "sandbox1-poweruser", "sandbox2-readonly", "system-admin"],
+    groups: ["dev-developers", "org-everyone", "sandbox1-limited"],
+    roles: ["dev-limited-role"],
+    environmentPolicies: ["sandbox1-full-access"],
+    assumeRolePolicies: []
+  }
+];
+
+const MANAGED_POLICIES = ["sandbox-environments-access"];
+
+/**
+ * Logical names of the resources created from the given config names: one per
+ * member account, prefixed with the account name, or the names themselves.
+ */
+function logicalNames(expected: ExpectedEnvironment, names: string[]): string[] {
+  return expected.accounts.length === 0
+    ? names
+    : expected.accounts.flatMap(account => names.map(name => `${account}-${name}`)).sort();
+}
+
+for (const expected of expectations) {
+  const { environment } = expected;
+  const named = (names: string[]) => logicalNames(expected, names);
+  // Keys of the per-account stack outputs
+  const outputAccounts = expected.accounts.length === 0 ? [CREDENTIALS_ACCOUNT] : expected.accounts;
+
+  /**
+   * Configured names and the accounts exported for each, from a stack output.
+   */
+  const exported = (resources: any) => Object.entries(resources)
+    .map(([name, accounts]: [string, any]) => [name, Object.keys(accounts)])
+    .sort();
+  const expectedExports = (names: string[]) => [...names].sort().map(name => [name, outputAccounts]);
+
+  describe(`${environment} environment stack`, () => {
+    let outputs: any;
+
+    before(async () => {
+      outputs = await runStack(`stacks/environments/${environment}`, environment);
+    });
+
+    it("creates only the users of the environment", () => {
+      assert.deepEqual(recordedNames("aws:iam/user:User"), named(expected.users));
+    });
+
+    it("tags the users and keeps production users on deletion", () => {
+      for (const username of named(expected.users)) {
+        const { inputs } = recordedResource("aws:iam/user:User", username);
+        assert.ok(username.endsWith(inputs.name));
+        assert.equal(inputs.path, "/users/");
+        assert.equal(inputs.forceDestroy, !expected.production);
+        assert.equal(inputs.tags.Environment, environment);
+        assert.equal(inputs.tags.ManagedBy, "pulumi");
+        assert.ok(inputs.tags.Email);
+      }
+    });
+
+    it("creates the groups of the environment and the shared groups", () => {
+      assert.deepEqual(recordedNames("aws:iam/group:Group"), named(expected.groups));
+      for (const group of named(expected.groups)) {
+        assert.equal(recordedResource("aws:iam/group:Group", group).inputs.path, "/groups/");
+      }
+    });
+
+    it("creates the roles with a trust policy for the declared principals", () => {
+      assert.deepEqual(recordedNames("aws:iam/role:Role"), named(expected.roles));
+      for (const role of named(expected.roles)) {
+        const { inputs } = recordedResource("aws:iam/role:Role", role);
+        const trust = JSON.parse(inputs.assumeRolePolicy);
+        assert.equal(trust.Version, "2012-10-17");
+        assert.ok(trust.Statement.length > 0);
+        for (const statement of trust.Statement) {
+          assert.notEqual(statement.Principal, "*");
+          assert.notEqual(statement.Principal?.AWS, "*");
+        }
+        assert.equal(inputs.tags.Environment, environment);
+      }
+    });
+
+    it("creates the managed and environment policies", () => {
+      assert.deepEqual(recordedNames("aws:iam/policy:Policy"),
+        named([...MANAGED_POLICIES, ...expected.environmentPolicies, ...expected.assumeRolePolicies].sort()));
+      for (const policy of named(MANAGED_POLICIES)) {
+        assert.equal(recordedResource("aws:iam/policy:Policy", policy).inputs.path, "/managed-policies/");
+      }
+      for (const policy of named(expected.environmentPolicies)) {
+        assert.equal(recordedResource("aws:iam/policy:Policy", policy).inputs.path, `/env/${environment}/`);
+      }
+    });
+
+    it("lets users assume only the roles of the environment", () => {
+      for (const name of named(expected.assumeRolePolicies)) {
+        const { inputs } = recordedResource("aws:iam/policy:Policy", name);
+        const role = name.match(/-assume-(.+)-policy$/)![1];
+        assert.equal(inputs.path, "/users/assume-role-policies/");
+        assert.deepEqual(JSON.parse(inputs.policy).Statement, [{
+          Effect: "Allow",
+          Action: "sts:AssumeRole",
+          Resource: `arn:aws:iam::123456789012:${role}`
+        }]);
+      }
+    });
+
+    it("deploys the IAM resources through a provider for each member account", () => {
+      assert.deepEqual(recordedNames("pulumi:providers:aws"), expected.accounts.map(account => `${account}-provider`));
+      for (const account of expected.accounts) {
+        const provider = recordedResource("pulumi:providers:aws", `${account}-provider`);
+        const assumeRole = JSON.parse(provider.inputs.assumeRole);
+        assert.equal(assumeRole.roleArn,
+          `arn:aws:iam::${FOUNDATION_OUTPUTS.accounts[account].id}:role/OrganizationAccountAccessRole`);
+        assert.equal(assumeRole.sessionName, `pulumi-${environment}`);
+      }
+      for (const resource of recordedResources().filter(resource => resource.type.startsWith("aws:iam/"))) {
+        const account = expected.accounts.find(candidate => resource.name.startsWith(`${candidate}-`));
+        assert.equal(resource.provider?.split("::")[3], account && `${account}-provider`, resource.name);
+      }
+    });
+
+    it("stores the roles in SSM", () => {
+      const { inputs, provider } = recordedResource("aws:ssm/parameter:Parameter", `${environment}-roles`);
+      assert.equal(inputs.name, `/environments/${environment}/roles`);
+      assert.equal(inputs.type, "SecureString");
+      assert.equal(provider, undefined);
+      // SecureString values are recorded as secrets
+      assert.deepEqual(JSON.parse(inputs.value.value), outputs.roles);
+    });
+
+    if (expected.accounts.length === 0) {
+      it("falls back to the account of the stack's credentials while the OU has no accounts", () => {
+        assert.deepEqual(recordedNames("pulumi:providers:aws"), []);
+        assert.deepEqual(recordedNames("aws:iam/role:Role"), expected.roles);
+        assert.ok(recordedResources().every(resource => resource.provider === undefined));
+        assert.deepEqual(outputs.environment.accounts, {});
+        assert.deepEqual(Object.keys(outputs.roles[expected.roles[0]]), [CREDENTIALS_ACCOUNT]);
+      });
+    }
+
+    it("exports the environment, roles and policies", () => {
+      assert.equal(outputs.environment.name, environment);
+      assert.equal(outputs.environment.ouId, expected.ouId);
+      assert.deepEqual(outputs.environment.accounts, Object.fromEntries(
+        expected.accounts.map(account => [account, FOUNDATION_OUTPUTS.accounts[account].id])));
+      assert.deepEqual(exported(outputs.roles), expectedExports(expected.roles));
+      assert.deepEqual(exported(outputs.policies.managed), expectedExports(MANAGED_POLICIES));
+      assert.deepEqual(exported(outputs.policies.environment), expectedExports(expected.environmentPolicies));
+      for (const role of expected.roles) {
+        for (const account of outputAccounts) {
+          const name = account === CREDENTIALS_ACCOUNT ? role : `${account}-${role}`;
+          assert.equal(outputs.roles[role][account].arn, recordedResource("aws:iam/role:Role", name).state.arn);
+        }
+      }
+    });
+  });
+}
@@ -0,0 +1,80 @@
+import * as assert from "assert/strict";
+import { recordedNames, recordedResource, runStack } from "../mocks";
+
+describe("foundation stack", () => {
+  let outputs: any;
+
+  before(async () => {
+    outputs = await runStack("stacks/foundation", "foundation");
+  });
+
+  it("creates the organization with the enabled policy types", () => {
+    const { inputs } = recordedResource("aws:organizations/organization:Organization", "root-org");
+    assert.deepEqual(inputs.enabledPolicyTypes, ["SERVICE_CONTROL_POLICY", "TAG_POLICY"]);
+    assert.equal(inputs.featureSet, "ALL");
+  });
+
+  it("creates the OU tree under the root", () => {
+    assert.deepEqual(recordedNames("aws:organizations/organizationalUnit:OrganizationalUnit"),
+      ["dev", "prod", "qa", "sandbox1", "sandbox2", "staging"]);
+    assert.equal(recordedResource("aws:organizations/organizationalUnit:OrganizationalUnit", "dev").inputs.parentId, "r-root");
+    assert.equal(recordedResource("aws:organizations/organizationalUnit:OrganizationalUnit", "sandbox1").inputs.parentId, "dev-id");
+  });
+
+  it("creates the accounts in their OUs", () => {
+    assert.deepEqual(recordedResource("aws:organizations/account:Account", "dev-main-account").inputs, {
+      email: "gofoke2293@jeanssi.com",
+      name: "dev-main",
+      parentId: "dev-id",
+      roleName: "OrganizationAccountAccessRole",
+      tags: { Environment: "dev", ManagedBy: "pulumi" }
+    });
+  });
+
+  it("provisions the baseline of the OU in each account", () => {
+    const baseline = recordedResource("org-library:organizations:OrgAccountBaseline", "dev-main-baseline");
+    assert.equal(baseline.parent, "urn:pulumi:foundation::aws-org-infrastructure::pulumi:pulumi:Stack$org-library:organizations:OrgAccount::dev-main-account");
+    assert.equal(recordedResource("aws:iam/accountAlias:AccountAlias", "dev-main-baseline-alias").inputs.accountAlias,
+      "root-org-dev-main");
+    assert.equal(recordedResource("aws:iam/accountPasswordPolicy:AccountPasswordPolicy", "dev-main-baseline-password-policy")
+      .inputs.minimumPasswordLength, 14);
+    assert.deepEqual(recordedNames("pulumi:providers:aws"), ["dev-main-baseline-provider"]);
+  });
+
+  it("attaches the SCPs and tag policies to their configured targets", () => {
+    assert.deepEqual(recordedNames("aws:organizations/policyAttachment:PolicyAttachment"), [
+      "mandatory-tags-policy-attach-root",
+      "production-scp-attach-ou-prod",
+      "sandbox-scp-attach-ou-dev-sandbox1"
+    ]);
+    assert.equal(recordedResource("aws:organizations/policyAttachment:PolicyAttachment", "sandbox-scp-attach-ou-dev-sandbox1")
+      .inputs.targetId, "sandbox1-id");
+
+    const tagPolicy = JSON.parse(recordedResource("aws:organizations/policy:Policy", "mandatory-tags-policy").inputs.content);
+    assert.ok(tagPolicy.tags.Environment.tag_value["@@assign"].includes("sandbox1"));
+  });
+
+  it("stores the organization and account details in SSM", () => {
+    const details = recordedResource("aws:ssm/parameter:Parameter", "organization-details");
+    assert.equal(details.inputs.name, "/organization/details");
+    assert.equal(details.inputs.type, "SecureString");
+    const accounts = recordedResource("aws:ssm/parameter:Parameter", "account-details");
+    assert.equal(accounts.inputs.name, "/organization/accounts");
+    assert.equal(accounts.inputs.type, "SecureString");
+  });
+
+  it("exports the organization, OUs, accounts and policies", () => {
+    assert.equal(outputs.organization.rootId, "r-root");
+    assert.deepEqual(Object.keys(outputs.organizationalUnits).sort(), ["dev", "prod", "qa", "sandbox1", "sandbox2", "staging"]);
+    assert.deepEqual(JSON.parse(JSON.stringify(outputs.accounts["dev-main"])), {
+      id: "dev-main-account-id",
+      arn: "arn:aws:organizations::123456789012:dev-main-account",
+      ou: "dev",
+      email: "gofoke2293@jeanssi.com",
+      roleName: "OrganizationAccountAccessRole",
+      tags: { Environment: "dev", ManagedBy: "pulumi" }
+    });
+    assert.deepEqual(Object.keys(outputs.policies.serviceControlPolicies).sort(), ["production-scp", "sandbox-scp"]);
+    assert.deepEqual(Object.keys(outputs.policies.tagPolicies), ["mandatory-tags-policy"]);
+  });
+});
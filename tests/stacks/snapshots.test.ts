@@ -0,0 +1,18 @@
+import { assertMatchesSnapshot, resourceGraph } from "../graph";
+import { recordedResources, runStack } from "../mocks";
+
+const STACKS: { stack: string; program: string }[] = [
+  { stack: "foundation", program: "stacks/foundation" },
+  { stack: "dev", program: "stacks/environments/dev" },
+  { stack: "staging", program: "stacks/environments/staging" },
+  { stack: "prod", program: "stacks/environments/prod" }
+];
+
+describe("resource graph snapshots", () => {
+  for (const { stack, program } of STACKS) {
+    it(`matches the committed snapshot of the ${stack} stack`, async () => {
+      await runStack(program, stack);
+      assertMatchesSnapshot(stack, resourceGraph(recordedResources()));
+    });
+  }
+});